@@ -1,25 +1,102 @@
 "use client";
 
-import { useRef } from "react";
+import { useRef, useState } from "react";
 import PocketGarden from "@/components/PocketGarden";
 import HandGestureController from "@/components/HandGestureController";
+import BindingEditor from "@/components/BindingEditor";
+import InputSourcePicker from "@/components/InputSourcePicker";
+import ReplayControls from "@/components/ReplayControls";
+import RakeToolPicker from "@/components/RakeToolPicker";
+import SandPatternPicker from "@/components/SandPatternPicker";
+import ElementPalette from "@/components/ElementPalette";
+import HistoryControls from "@/components/HistoryControls";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
-import { PocketGardenHandle, HandFrame } from "@/types";
+import { useInputProvider } from "@/hooks";
+import { getFallbackInputProvider } from "@/lib/input";
+import { INPUT_PROVIDERS } from "@/constants";
+import {
+  PocketGardenHandle,
+  HandFrame,
+  GardenAction,
+  GardenElementId,
+  HistoryState,
+  InputProviderId,
+  SandPatternId,
+} from "@/types";
 
 export default function Home() {
   const pocketGardenRef = useRef<PocketGardenHandle>(null);
+  const gardenAreaRef = useRef<HTMLDivElement>(null);
+  const [inputSource, setInputSource] = useState<InputProviderId>('hand');
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryState>({ undoLabel: null, redoLabel: null });
 
-  const handleHandFrame = (frame: HandFrame) => {
+  const handleHandFrames = (frames: HandFrame[]) => {
     if (pocketGardenRef.current) {
-        pocketGardenRef.current.updateHandFrame(frame);
+        pocketGardenRef.current.updateHandFrames(frames);
     }
   };
 
+  const handleGardenAction = (action: GardenAction) => {
+    pocketGardenRef.current?.performAction(action);
+  };
+
+  const handleApplyPattern = (pattern: SandPatternId) => {
+    pocketGardenRef.current?.applySandPattern(pattern);
+  };
+
+  const handleAddElement = (element: GardenElementId) => {
+    pocketGardenRef.current?.addGardenElement(element);
+  };
+
+  const handleInputSourceChange = (providerId: InputProviderId) => {
+    // The old provider's hands shouldn't linger in the garden
+    handleHandFrames([]);
+    setInputNotice(null);
+    setInputSource(providerId);
+  };
+
+  const handleHandTrackingUnavailable = (reason: string) => {
+    const fallback = getFallbackInputProvider();
+    const label = INPUT_PROVIDERS.find(({ id }) => id === fallback)?.label;
+    handleInputSourceChange(fallback);
+    setInputNotice(`${reason} — using ${label?.toLowerCase()}`);
+  };
+
+  useInputProvider(inputSource, gardenAreaRef, {
+    onHandFrames: handleHandFrames,
+    onGardenAction: handleGardenAction,
+  });
+
   return (
     <ErrorBoundary>
       <main className="w-full h-screen overflow-hidden">
-        <HandGestureController onHandFrame={handleHandFrame} />
-        <PocketGarden ref={pocketGardenRef} />
+        {inputSource === 'hand' && (
+          <HandGestureController
+            onHandFrames={handleHandFrames}
+            onGardenAction={handleGardenAction}
+            onUnavailable={handleHandTrackingUnavailable}
+          />
+        )}
+        {inputSource === 'replay' && (
+          <ReplayControls onHandFrames={handleHandFrames} onGardenAction={handleGardenAction} />
+        )}
+        <div ref={gardenAreaRef} className="w-full h-full">
+          <PocketGarden ref={pocketGardenRef} onHistoryChange={setHistory} />
+        </div>
+        <BindingEditor />
+        <div className="fixed bottom-5 left-5 z-50 flex flex-col items-start gap-1">
+          <HistoryControls state={history} onAction={handleGardenAction} />
+          <ElementPalette onAdd={handleAddElement} />
+          <SandPatternPicker onApply={handleApplyPattern} />
+          <RakeToolPicker />
+        </div>
+        <InputSourcePicker
+          value={inputSource}
+          notice={inputNotice}
+          onChange={handleInputSourceChange}
+          onRetry={() => handleInputSourceChange('hand')}
+        />
       </main>
     </ErrorBoundary>
   );
@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useState } from "react";
+import type {
+  BindableGesture,
+  GestureAction,
+  MotionGestureName,
+  PoseAction,
+  ScreenRegion,
+} from "@/types";
+import {
+  POSE_ACTIONS,
+  BINDABLE_GESTURES,
+  SCREEN_REGION_NAMES,
+  MOTION_GESTURES,
+  GESTURE_ACTIONS,
+} from "@/lib/mediapipe";
+import { useGestureBindings } from "@/hooks";
+
+const POSE_ACTION_LABELS: Record<PoseAction, string> = {
+  rotate: "Rotate view",
+  levitate: "Levitate stone",
+  rake: "Rake sand",
+  smooth: "Smooth sand",
+  time: "Time of day",
+  brake: "Brake rotation",
+};
+
+const GESTURE_LABELS: Record<BindableGesture, string> = {
+  open: "Open hand",
+  pinch: "Pinch",
+  fist: "Fist",
+  peace: "Peace sign",
+};
+
+const REGION_LABELS: Record<ScreenRegion, string> = {
+  anywhere: "Anywhere",
+  top: "Top half",
+  bottom: "Bottom half",
+  left: "Left half",
+  right: "Right half",
+};
+
+const MOTION_LABELS: Record<MotionGestureName, string> = {
+  "swipe-left": "Swipe left",
+  "swipe-right": "Swipe right",
+  "swipe-up": "Swipe up",
+  "swipe-down": "Swipe down",
+  "circle-cw": "Circle ↻",
+  "circle-ccw": "Circle ↺",
+  "shake-horizontal": "Shake side to side",
+  "shake-vertical": "Shake up and down",
+  dwell: "Hold still",
+};
+
+const GESTURE_ACTION_LABELS: Record<GestureAction, string> = {
+  "clear-sand": "Clear sand",
+  "rotate-left": "Turn left",
+  "rotate-right": "Turn right",
+  "next-rake-tool": "Next rake tool",
+  "previous-rake-tool": "Previous rake tool",
+  undo: "Undo",
+  redo: "Redo",
+  "add-element": "Add element",
+  "next-element": "Next element",
+  "previous-element": "Previous element",
+  confirm: "Confirm",
+};
+
+const SELECT_CLASS = "bg-white/10 rounded px-1 py-0.5 outline-none";
+
+export default function BindingEditor() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { bindings, conflicts, setPoseBinding, setMotionBinding, resetGestureBindings } =
+    useGestureBindings();
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed top-5 left-5 z-50 px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs font-medium"
+      >
+        Controls{conflicts.length > 0 && " ⚠"}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-5 left-5 z-50 w-80 p-3 bg-black/50 backdrop-blur-md rounded-lg text-white/90 text-xs flex flex-col gap-2">
+      <div className="flex justify-between font-medium">
+        <span>Controls</span>
+        <button onClick={() => setIsOpen(false)} className="text-white/60 hover:text-white">✕</button>
+      </div>
+
+      {POSE_ACTIONS.map((action) => {
+        const binding = bindings.poses[action];
+        return (
+          <div key={action} className="flex items-center gap-1">
+            <span className="flex-1">{POSE_ACTION_LABELS[action]}</span>
+            <select
+              value={binding.gesture}
+              onChange={(e) =>
+                setPoseBinding(action, { ...binding, gesture: e.target.value as BindableGesture })
+              }
+              className={SELECT_CLASS}
+            >
+              {BINDABLE_GESTURES.map((gesture) => (
+                <option key={gesture} value={gesture}>{GESTURE_LABELS[gesture]}</option>
+              ))}
+            </select>
+            <select
+              value={binding.region}
+              onChange={(e) =>
+                setPoseBinding(action, { ...binding, region: e.target.value as ScreenRegion })
+              }
+              className={SELECT_CLASS}
+            >
+              {SCREEN_REGION_NAMES.map((region) => (
+                <option key={region} value={region}>{REGION_LABELS[region]}</option>
+              ))}
+            </select>
+          </div>
+        );
+      })}
+
+      {conflicts.map(({ actions: [a, b], gesture }) => (
+        <div key={`${a}-${b}`} className="text-amber-300">
+          ⚠ {GESTURE_LABELS[gesture]} triggers both {POSE_ACTION_LABELS[a]} and {POSE_ACTION_LABELS[b]}
+        </div>
+      ))}
+
+      <div className="border-t border-white/20 pt-2 grid grid-cols-2 gap-1">
+        {MOTION_GESTURES.map((motion) => (
+          <label key={motion} className="flex items-center justify-between gap-1">
+            <span>{MOTION_LABELS[motion]}</span>
+            <select
+              value={bindings.motions[motion] ?? ""}
+              onChange={(e) => setMotionBinding(motion, (e.target.value || null) as GestureAction | null)}
+              className={SELECT_CLASS}
+            >
+              <option value="">—</option>
+              {GESTURE_ACTIONS.map((action) => (
+                <option key={action} value={action}>{GESTURE_ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <button onClick={resetGestureBindings} className="self-end text-white/60 hover:text-white">
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
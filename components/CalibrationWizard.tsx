@@ -0,0 +1,106 @@
+"use client";
+
+import React from "react";
+import { CALIBRATION_STEPS } from "@/constants";
+import { useGestureProfiles } from "@/hooks";
+import type { CalibrationState } from "@/hooks";
+
+interface CalibrationWizardProps {
+  state: CalibrationState;
+  draftName: string | null;
+  onDraftNameChange: (name: string | null) => void;
+  onStart: (name: string) => void;
+  onCancel: () => void;
+}
+
+export default function CalibrationWizard({
+  state,
+  draftName,
+  onDraftNameChange,
+  onStart,
+  onCancel,
+}: CalibrationWizardProps) {
+  const { profiles, activeName, outdated, setActiveProfile, deleteProfile } = useGestureProfiles();
+
+  if (state.step !== null) {
+    const step = CALIBRATION_STEPS[state.step];
+    return (
+      <div className="w-64 px-3 py-2 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex flex-col gap-2">
+        <div className="flex justify-between text-white/60">
+          <span>Calibrating {state.step + 1}/{CALIBRATION_STEPS.length}</span>
+          <button onClick={onCancel} className="hover:text-white">Cancel</button>
+        </div>
+        <div className="font-medium">{step.prompt}</div>
+        <div className="h-1 bg-white/20 rounded">
+          <div
+            className={`h-full rounded ${state.recording ? "bg-emerald-400" : "bg-white/40"}`}
+            style={{ width: `${Math.round(state.progress * 100)}%` }}
+          />
+        </div>
+        {!state.recording && <div className="text-white/60">Get ready…</div>}
+      </div>
+    );
+  }
+
+  if (draftName !== null) {
+    const name = draftName.trim();
+    return (
+      <form
+        className="w-64 px-3 py-2 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name) onStart(name);
+        }}
+      >
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => onDraftNameChange(e.target.value)}
+          placeholder="Profile name (hold still to start)"
+          className="flex-1 min-w-0 bg-white/10 rounded px-2 py-1 outline-none"
+        />
+        <button type="submit" disabled={!name} className="disabled:text-white/40">Start</button>
+        <button type="button" onClick={() => onDraftNameChange(null)} className="text-white/60">✕</button>
+      </form>
+    );
+  }
+
+  // Calibrating again under the same name replaces the outdated profile
+  const needsCalibration = activeName !== null && outdated.includes(activeName);
+
+  return (
+    <div className="w-64 px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex items-center gap-2">
+      <select
+        value={activeName ?? ""}
+        onChange={(e) => setActiveProfile(e.target.value || null)}
+        className="flex-1 min-w-0 bg-transparent outline-none"
+      >
+        <option value="">Default profile</option>
+        {profiles.map((profile) => (
+          <option key={profile.name} value={profile.name}>{profile.name}</option>
+        ))}
+      </select>
+      {activeName && (
+        <button onClick={() => deleteProfile(activeName)} className="text-white/60 hover:text-white">
+          Delete
+        </button>
+      )}
+      {needsCalibration ? (
+        <button
+          onClick={() => onDraftNameChange(activeName)}
+          title="Hand measurement has changed since this profile was saved; its pinch and finger settings are back to the defaults until you calibrate it again"
+          className="text-amber-300 hover:text-amber-200"
+        >
+          Recalibrate
+        </button>
+      ) : (
+        <button
+          onClick={() => onDraftNameChange(`Profile ${profiles.length + 1}`)}
+          className="hover:text-white"
+        >
+          Calibrate
+        </button>
+      )}
+    </div>
+  );
+}
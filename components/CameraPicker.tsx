@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import type { CameraDevice, CameraResolution, CameraSettings } from "@/types";
+import { WEBCAM_CONFIG, CAMERA_RESOLUTIONS } from "@/constants";
+
+interface CameraPickerProps {
+  settings: CameraSettings;
+  devices: CameraDevice[];
+  onChange: (changes: Partial<CameraSettings>) => void;
+}
+
+const SELECT_CLASS = "bg-white/10 rounded px-1 py-0.5 outline-none min-w-0";
+
+export default function CameraPicker({ settings, devices, onChange }: CameraPickerProps) {
+  return (
+    <div className="w-64 px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex gap-1">
+      <select
+        aria-label="Camera"
+        value={settings.deviceId ?? ""}
+        onChange={(e) => onChange({ deviceId: e.target.value || null })}
+        className={`${SELECT_CLASS} flex-1 truncate`}
+      >
+        <option value="">Default camera</option>
+        {devices.map(({ deviceId, label }) => (
+          <option key={deviceId} value={deviceId}>{label}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Resolution"
+        value={settings.resolution}
+        onChange={(e) => onChange({ resolution: e.target.value as CameraResolution })}
+        className={SELECT_CLASS}
+      >
+        {Object.keys(CAMERA_RESOLUTIONS).map((resolution) => (
+          <option key={resolution} value={resolution}>{resolution}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Frame rate"
+        value={settings.frameRate}
+        onChange={(e) => onChange({ frameRate: Number(e.target.value) })}
+        className={SELECT_CLASS}
+      >
+        {WEBCAM_CONFIG.FRAME_RATES.map((rate) => (
+          <option key={rate} value={rate}>{rate} fps</option>
+        ))}
+      </select>
+    </div>
+  );
+}
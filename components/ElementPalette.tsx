@@ -0,0 +1,38 @@
+"use client";
+
+import React from "react";
+import type { GardenElementId } from "@/types";
+import { GARDEN_ELEMENTS } from "@/constants";
+import { useElementPaletteSettings } from "@/hooks";
+
+interface ElementPaletteProps {
+  onAdd: (element: GardenElementId) => void;
+}
+
+export default function ElementPalette({ onAdd }: ElementPaletteProps) {
+  const { settings, updateElementPaletteSettings } = useElementPaletteSettings();
+
+  const handleAdd = (elementId: GardenElementId) => {
+    // The add-element gesture adds whatever was added last
+    updateElementPaletteSettings({ elementId });
+    onAdd(elementId);
+  };
+
+  return (
+    <div className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex items-center gap-1">
+      <span className="font-medium mr-1">Add</span>
+      {GARDEN_ELEMENTS.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => handleAdd(id)}
+          aria-pressed={settings.elementId === id}
+          className={`px-2 py-0.5 rounded ${
+            settings.elementId === id ? "bg-white/30 text-white" : "bg-white/10 hover:bg-white/20"
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,170 +1,400 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
-  HandLandmarker,
-  FilesetResolver,
-  DrawingUtils,
-} from "@mediapipe/tasks-vision";
-import { HandFrame } from "@/types";
-import type { Landmark } from "@/types";
-import { MEDIAPIPE_CONFIG, VIDEO_CONFIG, DRAWING_STYLES } from "@/constants";
-import { processLandmarks } from "@/lib/mediapipe";
-import { useAudioFeedback } from "@/hooks";
+  HandFrame,
+  GardenAction,
+  GestureBindings,
+  HandTrackingStatus,
+  TrackingPerformanceSettings,
+  TrackingPerformanceStats,
+  CameraSettings,
+} from "@/types";
+import {
+  MEDIAPIPE_ASSET_SOURCES,
+  VIDEO_CONFIG,
+  RECORDING_CONFIG,
+  TRACKING_PERFORMANCE_CONFIG,
+  CAMERA_ERROR_MESSAGES,
+} from "@/constants";
+import {
+  createTrackingWorker,
+  isTrackingWorkerSupported,
+  createPerformanceGovernor,
+  createSessionRecorder,
+  serializeRecording,
+  getActiveProfile,
+  getGestureBindings,
+  getLandmarkFilterSettings,
+  resolveActions,
+  bindingTransition,
+} from "@/lib/mediapipe";
+import type {
+  LandmarkRecording,
+  TrackingWorkerClient,
+  TrackingWorkerResponse,
+} from "@/lib/mediapipe";
+import {
+  useAudioFeedback,
+  useCalibration,
+  useCameraSettings,
+  useLandmarkFilterSettings,
+} from "@/hooks";
+import { startCameraSession } from "@/lib/camera";
+import CalibrationWizard from "./CalibrationWizard";
+import TrackingDiagnostics from "./TrackingDiagnostics";
+import CameraPicker from "./CameraPicker";
+import LandmarkFilterPicker from "./LandmarkFilterPicker";
 
 interface HandGestureControllerProps {
-  onHandFrame: (frame: HandFrame) => void;
+  onHandFrames: (frames: HandFrame[]) => void;
+  onGardenAction: (action: GardenAction) => void;
+  onUnavailable: (reason: string) => void; // Camera or model couldn't start
 }
 
-const NEUTRAL_FRAME: HandFrame = {
-  x: 0.5,
-  y: 0.5,
-  roll: 0,
-  pinch: false,
-  fist: false,
-  peace: false,
-};
-
-const HAND_LOST_TIMEOUT_MS = 150;
+function downloadRecording(recording: LandmarkRecording) {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${RECORDING_CONFIG.FILE_PREFIX}-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
-function formatDebugInfo(frame: HandFrame, isHandPresent: boolean): string {
-  if (!isHandPresent) return 'Show your hand';
+function formatStatus(status: HandTrackingStatus): string {
+  switch (status.stage) {
+    case 'loading': {
+      if (status.step === 'version') return `Checking ${status.source} assets...`;
+      if (status.step === 'runtime') return `Starting hand tracking (${status.source})...`;
+      const percent = status.progress === null ? '' : ` ${Math.round(status.progress * 100)}%`;
+      return `Downloading hand model (${status.source})${percent}`;
+    }
+    case 'camera':
+      return 'Starting camera...';
+    case 'camera-lost':
+      return 'Camera disconnected — reconnect it to continue';
+    case 'ready':
+      return '';
+  }
+}
 
+function formatHandInfo(frame: HandFrame, bindings: GestureBindings): string {
+  const actions = resolveActions(frame, bindings);
   const gestures: string[] = [];
-  if (frame.pinch) gestures.push('Grab');
-  if (frame.fist) gestures.push(frame.y < 0.5 ? 'Day' : 'Night');
-  if (frame.peace) gestures.push('Rake');
-  if (!frame.fist && Math.abs(frame.roll) > 0.1) {
+  if (actions.levitate) gestures.push('Grab');
+  if (actions.time) gestures.push('Time');
+  if (actions.brake) gestures.push('Brake');
+  if (actions.rake) gestures.push('Rake');
+  if (actions.smooth) gestures.push('Smooth');
+  if (actions.rotate && Math.abs(frame.roll) > 0.1) {
     gestures.push(frame.roll > 0 ? 'Tilt →' : 'Tilt ←');
   }
+  if (actions.levitate && Math.abs(frame.roll) > 0.1) {
+    gestures.push(frame.roll > 0 ? 'Spin →' : 'Spin ←');
+  }
 
   return gestures.length > 0 ? gestures.join(' · ') : 'Rotate';
 }
 
-export default function HandGestureController({ onHandFrame }: HandGestureControllerProps) {
+function formatDebugInfo(frames: HandFrame[], bindings: GestureBindings): string {
+  if (frames.length === 0) return 'Show your hand';
+  if (frames.length === 1) return formatHandInfo(frames[0], bindings);
+
+  return frames
+    .map((frame) => `${frame.handedness === 'left' ? 'L' : 'R'}: ${formatHandInfo(frame, bindings)}`)
+    .join('  |  ');
+}
+
+export default function HandGestureController({
+  onHandFrames,
+  onGardenAction,
+  onUnavailable,
+}: HandGestureControllerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<HandTrackingStatus>({
+    stage: 'loading',
+    source: MEDIAPIPE_ASSET_SOURCES[0].name,
+    step: 'version',
+    progress: null,
+  });
   const [debugInfo, setDebugInfo] = useState('Show your hand');
   const requestRef = useRef<number>(0);
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
-  const lastHandSeenRef = useRef<number>(0);
-  const handPresentRef = useRef<boolean>(false);
-
-  const prevPinchRef = useRef<boolean>(false);
-  const prevFistRef = useRef<boolean>(false);
-  const prevPeaceRef = useRef<boolean>(false);
+  const workerRef = useRef<TrackingWorkerClient | null>(null);
+  const recorderRef = useRef(createSessionRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const onUnavailableRef = useRef(onUnavailable);
+  const onHandFramesRef = useRef(onHandFrames);
+  const [trackerReady, setTrackerReady] = useState(false);
+  const [cameraOpened, setCameraOpened] = useState(false);
+  const { settings: cameraSettings, devices, updateCameraSettings } = useCameraSettings(cameraOpened);
+  const { settings: filterSettings } = useLandmarkFilterSettings();
+  // Created once; held in state so its first readings can seed the diagnostics below
+  const [governor] = useState(() => createPerformanceGovernor());
+  const lastSentRef = useRef(0);
+  const lastDiagnosticsRef = useRef(0);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<{
+    settings: TrackingPerformanceSettings;
+    stats: TrackingPerformanceStats;
+  }>(() => ({
+    settings: governor.getSettings(),
+    stats: governor.getStats(),
+  }));
 
   const { playGrab, playRelease, playMagic, playWind, preloadSounds, initAudio } = useAudioFeedback();
+  const calibration = useCalibration();
+  const { addSample, isCalibrating, confirm } = calibration;
 
   useEffect(() => {
-    let handLandmarker: HandLandmarker | null = null;
-    let videoStream: MediaStream | null = null;
-
-    const init = async () => {
-      const vision = await FilesetResolver.forVisionTasks(MEDIAPIPE_CONFIG.VISION_TASKS_CDN);
-      handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: MEDIAPIPE_CONFIG.MODEL_URL,
-          delegate: MEDIAPIPE_CONFIG.DELEGATE,
-        },
-        runningMode: MEDIAPIPE_CONFIG.RUNNING_MODE,
-        numHands: MEDIAPIPE_CONFIG.NUM_HANDS,
-      });
-      handLandmarkerRef.current = handLandmarker;
-      setIsLoaded(true);
-
-      if (navigator.mediaDevices?.getUserMedia) {
-        try {
-          videoStream = await navigator.mediaDevices.getUserMedia({ video: true });
-          if (videoRef.current) {
-            videoRef.current.srcObject = videoStream;
-            videoRef.current.addEventListener("loadeddata", predictWebcam);
-          }
-        } catch (error) {
-          console.error("Error accessing webcam:", error);
-        }
+    onUnavailableRef.current = onUnavailable;
+    onHandFramesRef.current = onHandFrames;
+  }, [onUnavailable, onHandFrames]);
+
+  const refreshDiagnostics = useCallback(() => {
+    setDiagnostics({ settings: governor.getSettings(), stats: governor.getStats() });
+  }, [governor]);
+
+  const measurePerformance = (inferenceMs: number, timestampMs: number) => {
+    const now = performance.now();
+    const previous = governor.getSettings();
+    const next = governor.record({ inferenceMs, frameMs: now - timestampMs }, now);
+
+    if (next && next.delegate !== previous.delegate) workerRef.current?.setDelegate(next.delegate);
+    if (next || now - lastDiagnosticsRef.current >= TRACKING_PERFORMANCE_CONFIG.DIAGNOSTICS_INTERVAL_MS) {
+      lastDiagnosticsRef.current = now;
+      refreshDiagnostics();
+    }
+  };
+
+  const handleResult = (result: Extract<TrackingWorkerResponse, { type: 'result' }>) => {
+    const { timestampMs, frames } = result;
+    const bindings = getGestureBindings();
+
+    if (result.inferenceMs !== null) measurePerformance(result.inferenceMs, timestampMs);
+
+    if (result.calibrationHand) addSample(result.calibrationHand, timestampMs);
+
+    for (const frame of result.updated) {
+      const { poses } = bindings;
+      const levitate = bindingTransition(frame, poses.levitate);
+
+      if (levitate === 'start') playGrab();
+      else if (levitate === 'end') playRelease();
+      if (bindingTransition(frame, poses.time) === 'start') playMagic();
+      if (bindingTransition(frame, poses.brake) === 'start') playMagic();
+      if (bindingTransition(frame, poses.rake) === 'start') playWind();
+    }
+
+    for (const { motion } of result.motions) {
+      const action = bindings.motions[motion];
+      if (action === 'confirm') confirm();
+      else if (action) onGardenAction(action);
+    }
+
+    if (result.detections) recorderRef.current.capture(timestampMs, result.detections, frames);
+
+    if (result.changed) {
+      onHandFrames(frames);
+      setDebugInfo(formatDebugInfo(frames, bindings));
+    }
+  };
+
+  // Ships the video frame at `now` (the animation frame's timestamp) to the
+  // worker, at the rate the governor allows; results arrive in handleResult
+  const pumpFrames = (now: number) => {
+    const worker = workerRef.current;
+    const video = videoRef.current;
+    if (!worker || !video) return;
+
+    const { detectionIntervalMs, inputScale } = governor.getSettings();
+    if (
+      video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA &&
+      now - lastSentRef.current >= detectionIntervalMs
+    ) {
+      const settings = {
+        profile: getActiveProfile(),
+        calibrating: isCalibrating(),
+        recording: recorderRef.current.isRecording(),
+      };
+      worker
+        .sendFrame(video, now, settings, inputScale)
+        .then((sent) => {
+          if (sent) lastSentRef.current = now;
+        })
+        .catch((error) => console.error("Error capturing video frame:", error));
+    }
+  };
+
+  // The worker and the frame loop are started once, so they reach the latest
+  // handlers through refs
+  const handleResultRef = useRef(handleResult);
+  const pumpFramesRef = useRef(pumpFrames);
+  useEffect(() => {
+    handleResultRef.current = handleResult;
+    pumpFramesRef.current = pumpFrames;
+  });
+
+  useEffect(() => {
+    let disposed = false;
+
+    // Created here rather than rendered: a canvas can only hand its control
+    // to a worker once, and effects may run twice in development
+    const canvas = document.createElement("canvas");
+    canvas.width = VIDEO_CONFIG.CANVAS_WIDTH;
+    canvas.height = VIDEO_CONFIG.CANVAS_HEIGHT;
+    canvas.className = "absolute inset-0 w-full h-full object-cover -scale-x-100";
+    previewRef.current?.appendChild(canvas);
+
+    const handleMessage = (message: TrackingWorkerResponse) => {
+      if (disposed) return;
+      switch (message.type) {
+        case 'status':
+          setStatus(message.status);
+          break;
+        case 'ready':
+          governor.setDelegate(message.delegate);
+          refreshDiagnostics();
+          setTrackerReady(true);
+          setStatus({ stage: 'camera' });
+          break;
+        case 'delegate':
+          governor.setDelegate(message.delegate);
+          refreshDiagnostics();
+          break;
+        case 'error':
+          console.error("Error in hand tracking:", message.message);
+          onUnavailableRef.current("Hand tracking failed to load");
+          break;
+        case 'result':
+          handleResultRef.current(message);
+          break;
       }
+    };
 
-      preloadSounds();
-      document.addEventListener('click', initAudio, { once: true });
+    if (!navigator.mediaDevices?.getUserMedia) {
+      onUnavailableRef.current("No camera support in this browser");
+    } else if (!isTrackingWorkerSupported()) {
+      onUnavailableRef.current("Hand tracking isn't supported in this browser");
+    } else {
+      workerRef.current = createTrackingWorker(canvas, handleMessage);
+    }
+
+    return () => {
+      disposed = true;
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      canvas.remove();
     };
+  }, [governor, refreshDiagnostics]);
 
-    init();
+  // Runs after the worker is created, so it starts with the chosen filter
+  useEffect(() => {
+    workerRef.current?.setFilterSettings(filterSettings);
+  }, [filterSettings]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!trackerReady || !video) return;
+
+    const pump = (now: number) => {
+      pumpFramesRef.current(now);
+      requestRef.current = requestAnimationFrame(pump);
+    };
+    const startPumping = () => {
+      cancelAnimationFrame(requestRef.current);
+      requestRef.current = requestAnimationFrame(pump);
+    };
+    video.addEventListener("loadeddata", startPumping);
+
+    const session = startCameraSession(cameraSettings, {
+      onOpen: (stream) => {
+        video.srcObject = stream;
+        setCameraOpened(true);
+        setStatus({ stage: 'ready' });
+
+        preloadSounds();
+        document.addEventListener('click', initAudio, { once: true });
+      },
+      onLost: () => {
+        cancelAnimationFrame(requestRef.current);
+        onHandFramesRef.current([]);
+        setDebugInfo(formatDebugInfo([], getGestureBindings()));
+        setStatus({ stage: 'camera-lost' });
+      },
+      onError: (kind, error) => {
+        console.error("Error accessing webcam:", error);
+        onUnavailableRef.current(CAMERA_ERROR_MESSAGES[kind]);
+      },
+    });
 
     return () => {
-      handLandmarker?.close();
+      session.stop();
+      video.removeEventListener("loadeddata", startPumping);
+      video.srcObject = null;
       cancelAnimationFrame(requestRef.current);
-      videoStream?.getTracks().forEach(track => track.stop());
       document.removeEventListener('click', initAudio);
     };
-  }, [preloadSounds, initAudio]);
-
-  const predictWebcam = () => {
-    if (!handLandmarkerRef.current || !videoRef.current || !canvasRef.current) return;
-
-    const startTimeMs = performance.now();
-    const results = handLandmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
-
-    const canvasCtx = canvasRef.current.getContext("2d");
-    if (canvasCtx) {
-      canvasCtx.font = VIDEO_CONFIG.FONT;
-      canvasCtx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-
-      const drawingUtils = new DrawingUtils(canvasCtx);
-
-      if (results.landmarks && results.landmarks.length > 0) {
-        const rawLandmarks = results.landmarks[0];
-        lastHandSeenRef.current = startTimeMs;
-        handPresentRef.current = true;
-
-        drawingUtils.drawConnectors(rawLandmarks, HandLandmarker.HAND_CONNECTIONS, {
-          color: DRAWING_STYLES.CONNECTOR_COLOR,
-          lineWidth: DRAWING_STYLES.CONNECTOR_WIDTH,
-        });
-        drawingUtils.drawLandmarks(rawLandmarks, {
-          color: DRAWING_STYLES.LANDMARK_COLOR,
-          lineWidth: DRAWING_STYLES.LANDMARK_WIDTH,
-        });
-
-        const frame = processLandmarks(rawLandmarks as Landmark[]);
-
-        if (frame.pinch && !prevPinchRef.current) playGrab();
-        else if (!frame.pinch && prevPinchRef.current) playRelease();
-        if (frame.fist && !prevFistRef.current) playMagic();
-        if (frame.peace && !prevPeaceRef.current) playWind();
-
-        prevPinchRef.current = frame.pinch;
-        prevFistRef.current = frame.fist;
-        prevPeaceRef.current = frame.peace;
-
-        onHandFrame(frame);
-        setDebugInfo(formatDebugInfo(frame, true));
-      } else {
-        const timeSinceHandSeen = startTimeMs - lastHandSeenRef.current;
-        if (handPresentRef.current && timeSinceHandSeen > HAND_LOST_TIMEOUT_MS) {
-          handPresentRef.current = false;
-          prevPinchRef.current = false;
-          prevFistRef.current = false;
-          prevPeaceRef.current = false;
-          onHandFrame(NEUTRAL_FRAME);
-          setDebugInfo(formatDebugInfo(NEUTRAL_FRAME, false));
-        }
-      }
-    }
+  }, [trackerReady, cameraSettings, preloadSounds, initAudio]);
 
-    requestRef.current = requestAnimationFrame(predictWebcam);
+  // Reopening the camera shows the same progress as opening it the first time
+  const changeCamera = (changes: Partial<CameraSettings>) => {
+    setStatus({ stage: 'camera' });
+    updateCameraSettings(changes);
+  };
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording()) {
+      const recording = recorder.stop();
+      if (recording) downloadRecording(recording);
+      setIsRecording(false);
+    } else {
+      recorder.start(getActiveProfile(), getLandmarkFilterSettings());
+      setIsRecording(true);
+    }
   };
 
   return (
     <div className="fixed bottom-5 right-5 z-50 flex flex-col items-end gap-2">
-      <div className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs font-medium">
-        {debugInfo}
+      <CalibrationWizard
+        state={calibration.state}
+        draftName={calibration.draftName}
+        onDraftNameChange={calibration.setDraftName}
+        onStart={calibration.start}
+        onCancel={calibration.cancel}
+      />
+      {cameraOpened && (
+        <CameraPicker settings={cameraSettings} devices={devices} onChange={changeCamera} />
+      )}
+      {showDiagnostics && (
+        <>
+          <TrackingDiagnostics settings={diagnostics.settings} stats={diagnostics.stats} />
+          <LandmarkFilterPicker />
+        </>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={toggleRecording}
+          className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs font-medium"
+        >
+          {isRecording ? "■ Stop & save" : "● Record"}
+        </button>
+        <button
+          onClick={() => setShowDiagnostics((shown) => !shown)}
+          className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs font-medium"
+        >
+          {diagnostics.settings.delegate} · {diagnostics.stats.detectionRate.toFixed(0)} Hz
+        </button>
+        <div className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs font-medium">
+          {debugInfo}
+        </div>
       </div>
-      <div className="w-64 h-48 bg-black/20 backdrop-blur-md rounded-xl overflow-hidden border border-white/20 shadow-2xl">
-        {!isLoaded && (
-          <div className="absolute inset-0 flex items-center justify-center text-white text-xs">
-            Loading AI...
+      <div ref={previewRef} className="w-64 h-48 bg-black/20 backdrop-blur-md rounded-xl overflow-hidden border border-white/20 shadow-2xl">
+        {status.stage !== 'ready' && (
+          <div className="absolute inset-0 flex items-center justify-center text-white text-xs text-center px-4">
+            {formatStatus(status)}
           </div>
         )}
         <video
@@ -173,12 +403,6 @@ export default function HandGestureController({ onHandFrame }: HandGestureContro
           autoPlay
           playsInline
         />
-        <canvas
-          ref={canvasRef}
-          className="absolute inset-0 w-full h-full object-cover -scale-x-100"
-          width={VIDEO_CONFIG.CANVAS_WIDTH}
-          height={VIDEO_CONFIG.CANVAS_HEIGHT}
-        />
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import type { GardenAction, HistoryState } from "@/types";
+import { historyShortcutAction } from "@/lib/input";
+
+interface HistoryControlsProps {
+  state: HistoryState;
+  onAction: (action: GardenAction) => void;
+}
+
+export default function HistoryControls({ state, onAction }: HistoryControlsProps) {
+  const onActionRef = useRef(onAction);
+
+  useEffect(() => {
+    onActionRef.current = onAction;
+  }, [onAction]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const action = historyShortcutAction(event);
+      if (!action) return;
+      event.preventDefault();
+      onActionRef.current(action);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const buttonClass = "px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-white/10";
+
+  return (
+    <div className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex items-center gap-1">
+      <button
+        onClick={() => onAction("undo")}
+        disabled={!state.undoLabel}
+        title={state.undoLabel ? `Undo ${state.undoLabel.toLowerCase()} (Ctrl+Z)` : "Nothing to undo"}
+        className={buttonClass}
+      >
+        ↶ Undo
+      </button>
+      <button
+        onClick={() => onAction("redo")}
+        disabled={!state.redoLabel}
+        title={state.redoLabel ? `Redo ${state.redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Nothing to redo"}
+        className={buttonClass}
+      >
+        Redo ↷
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import React from "react";
+import type { InputProviderId } from "@/types";
+import { INPUT_PROVIDERS } from "@/constants";
+
+interface InputSourcePickerProps {
+  value: InputProviderId;
+  notice: string | null;
+  onChange: (providerId: InputProviderId) => void;
+  onRetry: () => void; // Shown with the notice: try hand tracking again
+}
+
+export default function InputSourcePicker({ value, notice, onChange, onRetry }: InputSourcePickerProps) {
+  return (
+    <div className="fixed top-5 right-5 z-50 flex flex-col items-end gap-1 text-white/90 text-xs">
+      <label className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg font-medium flex items-center gap-2">
+        Input
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value as InputProviderId)}
+          className="bg-white/10 rounded px-1 py-0.5 outline-none"
+        >
+          {INPUT_PROVIDERS.map(({ id, label }) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+      </label>
+      {notice && (
+        <div className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-amber-300 flex items-center gap-2">
+          {notice}
+          <button onClick={onRetry} className="text-white/80 hover:text-white underline">
+            Retry
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
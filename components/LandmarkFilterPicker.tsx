@@ -0,0 +1,50 @@
+"use client";
+
+import React from "react";
+import type { LandmarkFilterKind, LandmarkFilterParameter, LandmarkFilterSettings } from "@/types";
+import { LANDMARK_FILTERS, LANDMARK_FILTER_PARAMETERS } from "@/constants";
+import { useLandmarkFilterSettings } from "@/hooks";
+
+const INPUT_CLASS = "bg-white/10 rounded px-1 py-0.5 outline-none w-20 text-right font-mono";
+
+function parameterValue(settings: LandmarkFilterSettings, key: LandmarkFilterParameter): number {
+  return (settings as Partial<Record<LandmarkFilterParameter, number>>)[key] ?? 0;
+}
+
+export default function LandmarkFilterPicker() {
+  const { settings, selectLandmarkFilter, updateLandmarkFilterSettings } = useLandmarkFilterSettings();
+
+  return (
+    <div className="w-64 px-3 py-2 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex flex-col gap-1">
+      <label className="flex justify-between items-center">
+        <span className="text-white/60">Smoothing</span>
+        <select
+          value={settings.kind}
+          onChange={(e) => selectLandmarkFilter(e.target.value as LandmarkFilterKind)}
+          className="bg-white/10 rounded px-1 py-0.5 outline-none"
+        >
+          {LANDMARK_FILTERS.map(({ kind, label }) => (
+            <option key={kind} value={kind}>{label}</option>
+          ))}
+        </select>
+      </label>
+      {LANDMARK_FILTER_PARAMETERS[settings.kind].map(({ key, label }) => (
+        <label key={`${settings.kind}-${key}`} className="flex justify-between items-center">
+          <span className="text-white/60">{label}</span>
+          {/* Uncontrolled, so a half-typed value can be edited; only positive numbers are kept */}
+          <input
+            type="number"
+            min={0}
+            step="any"
+            defaultValue={parameterValue(settings, key)}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0) updateLandmarkFilterSettings({ [key]: value });
+            }}
+            className={INPUT_CLASS}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
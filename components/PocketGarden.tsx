@@ -2,7 +2,16 @@
 
 import React, { useEffect, useRef } from 'react';
 import * as THREE from 'three';
-import { HandFrame, PocketGardenHandle, SceneObjectsRef } from '@/types';
+import {
+  HandFrame,
+  GardenAction,
+  GardenElementId,
+  HistoryState,
+  PocketGardenHandle,
+  SandPatternId,
+  SceneObjectsRef,
+} from '@/types';
+import { GESTURE_CONFIG, WIND_CONFIG } from '@/constants';
 import {
   createScene,
   createCamera,
@@ -12,30 +21,48 @@ import {
   createDragPlane,
   createStones,
   createBonsai,
-  createTrailLine,
+  createSandSurface,
   createHandCursor,
   getNormalizedDeviceCoords,
   updateDayNightCycle,
   handleResize,
   updateCursor,
+  selectNextRakeTool,
+  selectNextGardenElement,
+  getElementPaletteSettings,
+  stoneMoveCommand,
+  strokeCommand,
+  addElementCommand,
+  removeElementCommand,
+  disposeObject,
 } from '@/lib/three';
+import { resolveActions, getGestureBindings } from '@/lib/mediapipe';
 import {
   useGardenRotation,
   useStoneLevitation,
+  useGardenElements,
   useSandRaking,
+  useSandPatterns,
+  useSandSmoothing,
+  useWindErosion,
+  useErosionSettings,
+  useGardenHistory,
+  useAudioFeedback,
   useTimeControl,
+  useTwoHandTransform,
 } from '@/hooks';
 
-const PocketGarden = React.forwardRef<PocketGardenHandle, {}>((props, ref) => {
+interface PocketGardenProps {
+  onHistoryChange?: (state: HistoryState) => void;
+}
+
+const PocketGarden = React.forwardRef<PocketGardenHandle, PocketGardenProps>(({ onHistoryChange }, ref) => {
   const mountRef = useRef<HTMLDivElement>(null);
-  const handFrameRef = useRef<HandFrame>({
-    x: 0.5,
-    y: 0.5,
-    roll: 0,
-    pinch: false,
-    fist: false,
-    peace: false,
-  });
+  const handFramesRef = useRef<HandFrame[]>([]);
+  // Actions arrive between render ticks and are applied in the animation loop
+  const pendingActionsRef = useRef<GardenAction[]>([]);
+  const pendingPatternRef = useRef<SandPatternId | null>(null);
+  const pendingElementsRef = useRef<GardenElementId[]>([]);
 
   const raycasterRef = useRef<THREE.Raycaster>(new THREE.Raycaster());
   const sceneObjectsRef = useRef<SceneObjectsRef>({
@@ -43,21 +70,56 @@ const PocketGarden = React.forwardRef<PocketGardenHandle, {}>((props, ref) => {
     stones: [],
     soil: null,
     dragPlane: null,
-    trailLine: null,
+    sand: null,
+    bonsai: null,
     hemiLight: null,
     dirLight: null,
-    handCursor: null,
+    handCursors: {},
+    camera: null,
   });
 
   // Initialize hooks at top level (they read from refs during updates)
-  const { updateRotation } = useGardenRotation(sceneObjectsRef);
-  const { updateLevitation } = useStoneLevitation(sceneObjectsRef, raycasterRef);
-  const { updateRaking } = useSandRaking(sceneObjectsRef, raycasterRef);
+  const { record, recordChange, undo, redo } = useGardenHistory(onHistoryChange);
+  const { updateRotation, rotateBy } = useGardenRotation(sceneObjectsRef);
+  const elements = useGardenElements(sceneObjectsRef);
+  const { updateLevitation, updateDrops, isHolding, getSettledStones } = useStoneLevitation(
+    sceneObjectsRef,
+    raycasterRef,
+    (move) => record(stoneMoveCommand(move)),
+    (stone, from) => {
+      elements.removeElement(stone);
+      record(removeElementCommand(elements, stone, from));
+    }
+  );
+  const { updateRaking, releaseMissingHands, clearSand } = useSandRaking(sceneObjectsRef, raycasterRef);
+  const smoothing = useSandSmoothing(sceneObjectsRef, raycasterRef);
+  const { applyPattern, updatePatterns, clearPattern, getSandState, restoreSandState } = useSandPatterns(
+    sceneObjectsRef,
+    getSettledStones
+  );
   const { updateTime, getTimeOfDay } = useTimeControl();
+  const { updateTwoHandTransform } = useTwoHandTransform(sceneObjectsRef, rotateBy, isHolding);
+  const { playWind, preloadSounds } = useAudioFeedback();
+  const { updateWind } = useWindErosion(sceneObjectsRef, (strength) => playWind(strength * WIND_CONFIG.GUST_VOLUME));
+  const { settings: erosionSettings } = useErosionSettings();
+
+  // Gusts are only heard while they erode the sand
+  useEffect(() => {
+    if (erosionSettings.enabled) preloadSounds();
+  }, [erosionSettings.enabled, preloadSounds]);
 
   React.useImperativeHandle(ref, () => ({
-    updateHandFrame: (frame: HandFrame) => {
-      handFrameRef.current = frame;
+    updateHandFrames: (frames: HandFrame[]) => {
+      handFramesRef.current = frames;
+    },
+    performAction: (action: GardenAction) => {
+      pendingActionsRef.current.push(action);
+    },
+    applySandPattern: (pattern: SandPatternId) => {
+      pendingPatternRef.current = pattern;
+    },
+    addGardenElement: (element: GardenElementId) => {
+      pendingElementsRef.current.push(element);
     },
   }));
 
@@ -92,12 +154,15 @@ const PocketGarden = React.forwardRef<PocketGardenHandle, {}>((props, ref) => {
     const { group: bonsaiGroup } = createBonsai();
     gardenGroup.add(bonsaiGroup);
 
-    const trailLine = createTrailLine();
-    gardenGroup.add(trailLine);
+    const sand = createSandSurface((stroke) => record(strokeCommand(sand, stroke)));
+    gardenGroup.add(sand.mesh);
 
-    // Create hand cursor
-    const handCursor = createHandCursor();
-    scene.add(handCursor);
+    // Create a cursor per hand
+    const handCursors = {
+      left: createHandCursor(),
+      right: createHandCursor(),
+    };
+    scene.add(handCursors.left, handCursors.right);
 
     // Store references
     sceneObjectsRef.current = {
@@ -105,10 +170,12 @@ const PocketGarden = React.forwardRef<PocketGardenHandle, {}>((props, ref) => {
       stones,
       soil,
       dragPlane,
-      trailLine,
+      sand,
+      bonsai: bonsaiGroup,
       hemiLight,
       dirLight,
-      handCursor,
+      handCursors,
+      camera,
     };
 
     // Animation loop
@@ -117,27 +184,100 @@ const PocketGarden = React.forwardRef<PocketGardenHandle, {}>((props, ref) => {
     function animate() {
       frameId = requestAnimationFrame(animate);
 
-      const frame = handFrameRef.current;
+      const frames = handFramesRef.current;
       const raycaster = raycasterRef.current;
+      const bindings = getGestureBindings();
+      const hands = frames.map((frame) => ({ frame, actions: resolveActions(frame, bindings) }));
+
+      for (const action of pendingActionsRef.current.splice(0)) {
+        // A smoothing palm scrubbing fast can read as a swipe, shake or circle; nothing it
+        // sets off (wiping, undoing, turning the garden, changing tools) is meant
+        if (smoothing.isSmoothing()) continue;
 
-      // Update raycaster
-      const ndc = getNormalizedDeviceCoords(frame.x, frame.y);
-      raycaster.setFromCamera(ndc, camera);
-
-      const planeIntersects = raycaster.intersectObject(dragPlane);
-      if (planeIntersects.length > 0 && handCursor) {
-        const stoneIntersects = raycaster.intersectObjects(stones);
-        updateCursor(handCursor, planeIntersects[0].point, {
-          isPinching: frame.pinch,
-          isHoveringStone: stoneIntersects.length > 0,
-        });
+        switch (action) {
+          case 'clear-sand':
+            recordChange('Clear sand', getSandState, restoreSandState, () => {
+              clearPattern();
+              clearSand();
+            });
+            break;
+          case 'undo':
+            undo();
+            break;
+          case 'redo':
+            redo();
+            break;
+          case 'rotate-left':
+            rotateBy(-GESTURE_CONFIG.ROTATION_ACTION_STEP);
+            break;
+          case 'rotate-right':
+            rotateBy(GESTURE_CONFIG.ROTATION_ACTION_STEP);
+            break;
+          case 'next-rake-tool':
+            selectNextRakeTool(1);
+            break;
+          case 'previous-rake-tool':
+            selectNextRakeTool(-1);
+            break;
+          case 'add-element':
+            pendingElementsRef.current.push(getElementPaletteSettings().elementId);
+            break;
+          case 'next-element':
+            selectNextGardenElement(1);
+            break;
+          case 'previous-element':
+            selectNextGardenElement(-1);
+            break;
+        }
       }
 
-      // Update interactions
-      updateRotation(frame);
-      updateLevitation(frame);
-      updateRaking(frame);
-      updateTime(frame);
+      for (const id of pendingElementsRef.current.splice(0)) {
+        const element = elements.addElement(id);
+        if (element) record(addElementCommand(elements, element));
+      }
+
+      if (pendingPatternRef.current) {
+        const pattern = pendingPatternRef.current;
+        recordChange('Rake pattern', getSandState, restoreSandState, () => applyPattern(pattern));
+        pendingPatternRef.current = null;
+      }
+
+      // Two-hand grip takes over both hands' levitate gestures
+      const isTransforming = updateTwoHandTransform(hands);
+      updateDrops(frames);
+      updatePatterns();
+      releaseMissingHands(frames);
+      smoothing.releaseMissingHands(frames);
+      updateWind();
+
+      handCursors.left.visible = false;
+      handCursors.right.visible = false;
+
+      for (const hand of hands) {
+        const { frame, actions } = hand;
+
+        // Update raycaster for this hand
+        const ndc = getNormalizedDeviceCoords(frame.x, frame.y);
+        raycaster.setFromCamera(ndc, camera);
+
+        const planeIntersects = raycaster.intersectObject(dragPlane);
+        if (planeIntersects.length > 0) {
+          const stoneIntersects = raycaster.intersectObjects(sceneObjectsRef.current.stones);
+          updateCursor(handCursors[frame.handedness], planeIntersects[0].point, {
+            isPinching: actions.levitate,
+            isHoveringStone: stoneIntersects.length > 0,
+            isSmoothing: smoothing.isSmoothing(frame.handedness),
+          });
+        }
+
+        // Update per-hand interactions
+        if (!isTransforming) updateLevitation(hand);
+        updateRaking(hand);
+        smoothing.updateSmoothing(hand);
+      }
+
+      updateRotation(hands, isTransforming);
+      updateTime(hands);
 
       // Update day/night cycle
       updateDayNightCycle(
@@ -161,17 +301,9 @@ const PocketGarden = React.forwardRef<PocketGardenHandle, {}>((props, ref) => {
       cancelAnimationFrame(frameId);
       container.removeChild(renderer.domElement);
 
-      // Dispose geometries and materials
-      scene.traverse((object) => {
-        if (object instanceof THREE.Mesh) {
-          object.geometry.dispose();
-          if (Array.isArray(object.material)) {
-            object.material.forEach((mat) => mat.dispose());
-          } else {
-            object.material.dispose();
-          }
-        }
-      });
+      // Dispose geometries, materials and the sand's textures
+      sand.dispose();
+      disposeObject(scene);
     };
   }, []);
 
@@ -0,0 +1,35 @@
+"use client";
+
+import React from "react";
+import { RAKE_TOOLS } from "@/constants";
+import { useRakeToolSettings } from "@/hooks";
+
+export default function RakeToolPicker() {
+  const { settings, updateRakeToolSettings } = useRakeToolSettings();
+
+  return (
+    <div className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex items-center gap-1">
+      <span className="font-medium mr-1">Rake</span>
+      {RAKE_TOOLS.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => updateRakeToolSettings({ toolId: id })}
+          aria-pressed={settings.toolId === id}
+          className={`px-2 py-0.5 rounded ${
+            settings.toolId === id ? "bg-white/30 text-white" : "bg-white/10 hover:bg-white/20"
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+      <label className="ml-2 flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={settings.twistWithRoll}
+          onChange={(e) => updateRakeToolSettings({ twistWithRoll: e.target.checked })}
+        />
+        Twist with tilt
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import React from "react";
+import type { HandFrame, GardenAction } from "@/types";
+import { RECORDING_CONFIG } from "@/constants";
+import { useSessionReplay } from "@/hooks";
+
+interface ReplayControlsProps {
+  onHandFrames: (frames: HandFrame[]) => void;
+  onGardenAction: (action: GardenAction) => void;
+}
+
+const PANEL_CLASS = "w-64 px-3 py-2 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex flex-col gap-2";
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export default function ReplayControls({ onHandFrames, onGardenAction }: ReplayControlsProps) {
+  const { recording, state, error, load, play, pause, seek, setSpeed } = useSessionReplay({
+    onHandFrames,
+    onGardenAction,
+  });
+
+  return (
+    <div className="fixed bottom-5 right-5 z-50 flex flex-col items-end gap-2">
+      <div className={PANEL_CLASS}>
+        <label className="flex justify-between items-center gap-2">
+          <span className="font-medium">Recording</span>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) load(file);
+            }}
+            className="w-36 text-white/60 file:mr-1 file:bg-white/10 file:text-white/90 file:rounded file:border-0 file:px-1"
+          />
+        </label>
+        {error && <div className="text-amber-300">{error}</div>}
+
+        {recording && state && (
+          <>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={state.playing ? pause : play}
+                className="w-12 bg-white/10 rounded px-1 py-0.5"
+              >
+                {state.playing ? "Pause" : "Play"}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={state.durationMs}
+                value={state.positionMs}
+                onChange={(e) => seek(Number(e.target.value))}
+                className="flex-1"
+              />
+              <select
+                value={state.speed}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+                className="bg-white/10 rounded px-1 py-0.5 outline-none"
+              >
+                {RECORDING_CONFIG.PLAYBACK_SPEEDS.map((speed) => (
+                  <option key={speed} value={speed}>{speed}×</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex justify-between text-white/60">
+              <span>{formatSeconds(state.positionMs)} / {formatSeconds(state.durationMs)}</span>
+              <span>{recording.frames.length} frames</span>
+            </div>
+            {state.divergedAtMs !== null && (
+              <div className="text-amber-300">
+                ⚠ Replay differs from the recording at {formatSeconds(state.divergedAtMs)}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import React from "react";
+import type { SandPatternId } from "@/types";
+import { SAND_PATTERNS } from "@/constants";
+import { useErosionSettings } from "@/hooks";
+
+interface SandPatternPickerProps {
+  onApply: (pattern: SandPatternId) => void;
+}
+
+export default function SandPatternPicker({ onApply }: SandPatternPickerProps) {
+  const { settings, updateErosionSettings } = useErosionSettings();
+
+  return (
+    <div className="px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs flex items-center gap-1">
+      <span className="font-medium mr-1">Pattern</span>
+      {SAND_PATTERNS.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => onApply(id)}
+          className="px-2 py-0.5 rounded bg-white/10 hover:bg-white/20"
+        >
+          {label}
+        </button>
+      ))}
+      <label className="ml-2 flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => updateErosionSettings({ enabled: e.target.checked })}
+        />
+        Wind erosion
+      </label>
+    </div>
+  );
+}
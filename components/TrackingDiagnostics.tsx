@@ -0,0 +1,35 @@
+"use client";
+
+import React from "react";
+import type { TrackingPerformanceSettings, TrackingPerformanceStats } from "@/types";
+import { TRACKING_PERFORMANCE_CONFIG } from "@/constants";
+
+interface TrackingDiagnosticsProps {
+  settings: TrackingPerformanceSettings;
+  stats: TrackingPerformanceStats;
+}
+
+export default function TrackingDiagnostics({ settings, stats }: TrackingDiagnosticsProps) {
+  const rows: [string, string][] = [
+    ["Delegate", settings.delegate],
+    ["Quality", `${settings.tier + 1}/${TRACKING_PERFORMANCE_CONFIG.TIERS.length}`],
+    ["Detection rate", `${stats.detectionRate.toFixed(0)} Hz`],
+    ["Rate limit", settings.detectionIntervalMs > 0
+      ? `${Math.round(1000 / settings.detectionIntervalMs)} Hz`
+      : "none"],
+    ["Input scale", `${Math.round(settings.inputScale * 100)}%`],
+    ["Inference", `${stats.inferenceMs.toFixed(1)} ms`],
+    ["Frame time", `${stats.frameMs.toFixed(1)} ms`],
+  ];
+
+  return (
+    <div className="w-64 px-3 py-2 bg-black/40 backdrop-blur-md rounded-lg text-white/90 text-xs">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-white/60">{label}</span>
+          <span className="font-mono">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { GestureBindings, ScreenRegion } from '@/types';
+
+// Screen regions in normalized hand coordinates (0..1, y=0 at the top)
+export const SCREEN_REGIONS: Record<
+  ScreenRegion,
+  { minX: number; maxX: number; minY: number; maxY: number }
+> = {
+  anywhere: { minX: 0, maxX: 1, minY: 0, maxY: 1 },
+  top: { minX: 0, maxX: 1, minY: 0, maxY: 0.5 },
+  bottom: { minX: 0, maxX: 1, minY: 0.5, maxY: 1 },
+  left: { minX: 0, maxX: 0.5, minY: 0, maxY: 1 },
+  right: { minX: 0.5, maxX: 1, minY: 0, maxY: 1 },
+};
+
+export const BINDINGS_CONFIG = {
+  STORAGE_KEY: 'pocket-garden:gesture-bindings',
+} as const;
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  poses: {
+    rotate: { gesture: 'open', region: 'top' },
+    levitate: { gesture: 'pinch', region: 'anywhere' },
+    rake: { gesture: 'peace', region: 'anywhere' },
+    smooth: { gesture: 'open', region: 'bottom' },
+    time: { gesture: 'fist', region: 'top' },
+    brake: { gesture: 'fist', region: 'bottom' },
+  },
+  motions: {
+    'swipe-left': 'clear-sand',
+    'swipe-right': 'add-element',
+    'swipe-up': 'next-rake-tool',
+    'swipe-down': 'previous-rake-tool',
+    'circle-cw': 'rotate-right',
+    'circle-ccw': 'rotate-left',
+    'shake-horizontal': 'undo',
+    'shake-vertical': 'redo',
+    'dwell': 'confirm',
+  },
+};
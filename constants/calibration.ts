@@ -0,0 +1,42 @@
+import { GestureProfile, CalibrationPose } from '@/types';
+import { GESTURE_CONFIG } from './gestures';
+
+// Profile used when no calibration has been saved
+export const DEFAULT_GESTURE_PROFILE: GestureProfile = {
+  name: 'Default',
+  pinchContactRatio: GESTURE_CONFIG.PINCH_CONTACT_RATIO,
+  pinchReleaseRatio: GESTURE_CONFIG.PINCH_RELEASE_RATIO,
+  extensionCurledRatio: GESTURE_CONFIG.EXTENSION_CURLED_RATIO,
+  extensionExtendedRatio: GESTURE_CONFIG.EXTENSION_EXTENDED_RATIO,
+  rollMin: -1 / GESTURE_CONFIG.ROLL_MULTIPLIER,
+  rollMax: 1 / GESTURE_CONFIG.ROLL_MULTIPLIER,
+};
+
+export const CALIBRATION_CONFIG = {
+  STORAGE_KEY: 'pocket-garden:gesture-profiles',
+  // Bumped when saved thresholds stop meaning what they did. 2: pinch in hand
+  // sizes rather than image widths, finger extension measured in 3D
+  PROFILE_VERSION: 2,
+  // Per pose: ignore samples while the user gets into position, then record
+  PREPARE_MS: 1000,
+  SAMPLE_DURATION_MS: 2000,
+  MIN_SAMPLES: 15,
+  // The progress bar moves in these steps, so the wizard isn't redrawn every frame
+  PROGRESS_STEP: 0.05,
+  // Percentiles used to pick thresholds that cover most of the recorded frames
+  LOW_PERCENTILE: 0.2,
+  HIGH_PERCENTILE: 0.8,
+  ROLL_LOW_PERCENTILE: 0.05,
+  ROLL_HIGH_PERCENTILE: 0.95,
+  // Minimum separation between enter/exit values for a usable profile
+  MIN_PINCH_GAP: 0.1,
+  MIN_EXTENSION_GAP: 0.1,
+  MIN_ROLL_SPAN: 0.2,
+} as const;
+
+export const CALIBRATION_STEPS: { pose: CalibrationPose; prompt: string }[] = [
+  { pose: 'open', prompt: 'Open hand — slowly tilt it fully left and right' },
+  { pose: 'pinch', prompt: 'Pinch thumb and index together' },
+  { pose: 'fist', prompt: 'Make a fist' },
+  { pose: 'peace', prompt: 'Peace sign ✌️' },
+];
@@ -0,0 +1,60 @@
+import { LandmarkFilterKind, LandmarkFilterParameter, LandmarkFilterSettings } from '@/types';
+
+// Landmark Smoothing - landmark coordinates are normalized (0..1), time in seconds
+export const FILTER_CONFIG = {
+  ONE_EURO: {
+    MIN_CUTOFF: 1.2,
+    BETA: 8,
+    DERIVATIVE_CUTOFF: 1.0,
+  },
+  KALMAN: {
+    PROCESS_NOISE: 20,
+    MEASUREMENT_NOISE: 0.00005,
+  },
+  // Gaps longer than this reset the filter instead of smoothing across them
+  MAX_GAP_MS: 500,
+  STORAGE_KEY: 'pocket-garden:landmark-filter',
+} as const;
+
+export const ONE_EURO_FILTER_SETTINGS: LandmarkFilterSettings = {
+  kind: 'one-euro',
+  minCutoff: FILTER_CONFIG.ONE_EURO.MIN_CUTOFF,
+  beta: FILTER_CONFIG.ONE_EURO.BETA,
+  derivativeCutoff: FILTER_CONFIG.ONE_EURO.DERIVATIVE_CUTOFF,
+};
+
+export const KALMAN_FILTER_SETTINGS: LandmarkFilterSettings = {
+  kind: 'kalman',
+  processNoise: FILTER_CONFIG.KALMAN.PROCESS_NOISE,
+  measurementNoise: FILTER_CONFIG.KALMAN.MEASUREMENT_NOISE,
+};
+
+export const DEFAULT_FILTER_SETTINGS = ONE_EURO_FILTER_SETTINGS;
+
+/** The filters offered in the tracking panel, each starting from these settings */
+export const LANDMARK_FILTERS: {
+  kind: LandmarkFilterKind;
+  label: string;
+  defaults: LandmarkFilterSettings;
+}[] = [
+  { kind: 'none', label: 'Off', defaults: { kind: 'none' } },
+  { kind: 'one-euro', label: 'One Euro', defaults: ONE_EURO_FILTER_SETTINGS },
+  { kind: 'kalman', label: 'Kalman', defaults: KALMAN_FILTER_SETTINGS },
+];
+
+/** Tunable parameters per filter, in the order the tracking panel lists them */
+export const LANDMARK_FILTER_PARAMETERS: Record<
+  LandmarkFilterKind,
+  { key: LandmarkFilterParameter; label: string }[]
+> = {
+  none: [],
+  'one-euro': [
+    { key: 'minCutoff', label: 'Min cutoff (Hz)' },
+    { key: 'beta', label: 'Speed response' },
+    { key: 'derivativeCutoff', label: 'Speed cutoff (Hz)' },
+  ],
+  kalman: [
+    { key: 'processNoise', label: 'Process noise' },
+    { key: 'measurementNoise', label: 'Measurement noise' },
+  ],
+};
@@ -0,0 +1,64 @@
+import { ElementPaletteSettings, GardenElement } from '@/types';
+
+export const GARDEN_ELEMENTS: GardenElement[] = [
+  { id: 'small-stone', label: 'Small stone' },
+  { id: 'medium-stone', label: 'Stone' },
+  { id: 'large-stone', label: 'Large stone' },
+  { id: 'lantern', label: 'Lantern' },
+  { id: 'moss', label: 'Moss' },
+  { id: 'bridge', label: 'Bridge' },
+  { id: 'fence', label: 'Fence' },
+  { id: 'basin', label: 'Basin' },
+];
+
+export const GARDEN_ELEMENT_CONFIG = {
+  STORAGE_KEY: 'pocket-garden:garden-element',
+  // New elements drop in from this high above the spot, which is the nearest
+  // free one to SPAWN_POINT (the front of the garden)
+  SPAWN_POINT: { x: 0, z: -2 },
+  SPAWN_HEIGHT: 2,
+  STONE_SCALES: { 'small-stone': 0.6, 'medium-stone': 1, 'large-stone': 1.5 },
+  LANTERN: {
+    BASE_RADIUS: 0.2,
+    BASE_HEIGHT: 0.08,
+    POST_RADIUS: 0.07,
+    POST_HEIGHT: 0.35,
+    LIGHT_SIZE: 0.24,
+    ROOF_RADIUS: 0.28,
+    ROOF_HEIGHT: 0.16,
+    COLOR: 0x9e9e9e,
+    LIGHT_COLOR: 0xffcc80,
+  },
+  MOSS: {
+    RADIUS: 0.45,
+    HEIGHT: 0.08,
+    COLOR: 0x558b2f,
+  },
+  BRIDGE: {
+    LENGTH: 1.4,
+    WIDTH: 0.4,
+    RISE: 0.25, // Height of the arch at its middle
+    PLANKS: 7,
+    PLANK_THICKNESS: 0.04,
+    COLOR: 0xb23a2e,
+  },
+  FENCE: {
+    LENGTH: 1.2,
+    HEIGHT: 0.5,
+    POSTS: 4,
+    RAILS: 2,
+    POLE_RADIUS: 0.025,
+    COLOR: 0xc8b560,
+  },
+  BASIN: {
+    RADIUS: 0.3,
+    HEIGHT: 0.25,
+    WATER_RADIUS: 0.23,
+    COLOR: 0x8d8d8d,
+    WATER_COLOR: 0x4f8fba,
+  },
+} as const;
+
+export const DEFAULT_ELEMENT_PALETTE_SETTINGS: ElementPaletteSettings = {
+  elementId: 'medium-stone',
+};
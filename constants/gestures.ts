@@ -4,19 +4,21 @@ export const GESTURE_CONFIG = {
   ROTATION_DEADZONE: 0.1,
   ROTATION_SPEED: 0.02,
   ROTATION_SMOOTHING: 0.1,
+  // Rotation step for the rotate-left/right actions
+  ROTATION_ACTION_STEP: Math.PI / 2,
 
-  // Braking (Fist Low) - activates when y >= this value
-  BRAKE_Y_THRESHOLD: 0.5,
-
-  // Sky Control (Fist High) - activates when y < this value
-  SKY_CONTROL_Y_THRESHOLD: 0.35,
+  // Time Control
   TIME_LERP_SPEED: 0.35,
 
-  // Pinch Detection
-  PINCH_DISTANCE_THRESHOLD: 0.05,
+  // Pinch Detection - confidence ramps from 0 at RELEASE to 1 at CONTACT.
+  // Thumb-index distance is measured in hand sizes (wrist to middle MCP),
+  // so the same pinch reads the same at any distance from the camera
+  PINCH_CONTACT_RATIO: 0.3,
+  PINCH_RELEASE_RATIO: 0.7,
 
-  // Finger Extension Detection
-  EXTENSION_MULTIPLIER: 1.2,
+  // Finger Extension Detection - ratio of tip/PIP distance from the wrist
+  EXTENSION_CURLED_RATIO: 1.0,
+  EXTENSION_EXTENDED_RATIO: 1.4,
 
   // Roll Sensitivity
   ROLL_MULTIPLIER: 2,
@@ -30,4 +32,76 @@ export const GESTURE_CONFIG = {
 
   // Stone Drop Speed
   STONE_DROP_SPEED: 0.1,
+
+  // Held Stones - twisting the wrist from where it grabbed turns a stone by
+  // up to SPIN_RANGE radians each way at full roll; moving the hand nearer the
+  // camera than where it grabbed raises it, up to LIFT_RANGE at full depth
+  STONE_SPIN_RANGE: Math.PI,
+  STONE_LIFT_RANGE: 1.5,
+
+  // Hand Depth - MediaPipe's image z is relative to the wrist, so distance is
+  // read from the hand's apparent size (wrist to middle MCP, in image units):
+  // REFERENCE_SIZE reads as 0, and each DEPTH_RANGE of relative growth as 1
+  DEPTH_REFERENCE_SIZE: 0.2,
+  DEPTH_RANGE: 0.5,
+} as const;
+
+// Gesture State Machine - a gesture starts once its confidence stays at or above
+// ENTER for MIN_ENTER_MS, and ends once it stays at or below EXIT for MIN_EXIT_MS
+export const GESTURE_STATE_CONFIG = {
+  pinch: {
+    ENTER_CONFIDENCE: 0.6,
+    EXIT_CONFIDENCE: 0.3,
+    MIN_ENTER_MS: 40,
+    MIN_EXIT_MS: 120,
+  },
+  fist: {
+    ENTER_CONFIDENCE: 0.6,
+    EXIT_CONFIDENCE: 0.35,
+    MIN_ENTER_MS: 80,
+    MIN_EXIT_MS: 120,
+  },
+  peace: {
+    ENTER_CONFIDENCE: 0.6,
+    EXIT_CONFIDENCE: 0.35,
+    MIN_ENTER_MS: 80,
+    MIN_EXIT_MS: 150,
+  },
+} as const;
+
+// Two-Hand Gestures - both hands pinching empty sand spread to zoom, twist to rotate
+export const TWO_HAND_CONFIG = {
+  ZOOM_MIN: 0.6,
+  ZOOM_MAX: 1.8,
+  ZOOM_LERP_SPEED: 0.2,
+  MIN_HAND_DISTANCE: 0.05,
+  TWIST_MULTIPLIER: 1,
+} as const;
+
+// Motion Gestures - screen-space distances, times in ms
+export const MOTION_GESTURE_CONFIG = {
+  HISTORY_MS: 1500,
+  COOLDOWN_MS: 600,
+
+  // Swipe: fast, straight travel along one axis
+  SWIPE_WINDOW_MS: 400,
+  SWIPE_MIN_DISTANCE: 0.25,
+  SWIPE_AXIS_RATIO: 2,
+  SWIPE_MIN_STRAIGHTNESS: 0.8,
+
+  // Circle: nearly a full turn around a roughly constant radius
+  CIRCLE_WINDOW_MS: 1200,
+  CIRCLE_MIN_TURN: Math.PI * 1.7,
+  CIRCLE_MIN_RADIUS: 0.04,
+  CIRCLE_MAX_RADIUS_SPREAD: 0.5,
+
+  // Shake: quick back-and-forth along one axis, each leg at least this long
+  SHAKE_WINDOW_MS: 900,
+  SHAKE_MIN_LEG: 0.04,
+  SHAKE_MAX_LEG: 0.2, // Longer legs are swipes
+  SHAKE_MIN_LEGS: 4,
+
+  // Dwell: hand held still, re-armed once the hand moves away
+  DWELL_MS: 1500,
+  DWELL_RADIUS: 0.02,
 } as const;
@@ -0,0 +1,14 @@
+export const HISTORY_CONFIG = {
+  // Oldest edits are forgotten beyond this many
+  MAX_ENTRIES: 100,
+  // A stone put down closer than this to where it was picked up hasn't moved
+  MIN_STONE_MOVE: 0.01,
+  // Radians a stone must turn to count as moved
+  MIN_STONE_TURN: 0.01,
+} as const;
+
+// Shortcuts work with Ctrl (or ⌘ on macOS); Shift+Z also redoes
+export const HISTORY_KEYS = {
+  UNDO: 'KeyZ',
+  REDO: 'KeyY',
+} as const;
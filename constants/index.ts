@@ -1,3 +1,14 @@
 export * from './scene';
 export * from './gestures';
 export * from './mediapipe';
+export * from './calibration';
+export * from './filters';
+export * from './bindings';
+export * from './input';
+export * from './recording';
+export * from './performance';
+export * from './webcam';
+export * from './rake-tools';
+export * from './history';
+export * from './garden-elements';
+export * from './stone-generator';
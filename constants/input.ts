@@ -0,0 +1,37 @@
+import { InputProviderId } from '@/types';
+
+export const INPUT_PROVIDERS: { id: InputProviderId; label: string }[] = [
+  { id: 'hand', label: 'Hand tracking' },
+  { id: 'mouse', label: 'Mouse' },
+  { id: 'touch', label: 'Touch' },
+  { id: 'keyboard', label: 'Keyboard' },
+  { id: 'replay', label: 'Replay recording' },
+];
+
+export const INPUT_CONFIG = {
+  // Mouse: wheel tilts the virtual hand, then it eases back to level
+  WHEEL_ROLL_SENSITIVITY: 0.01,
+  ROLL_DECAY: 0.9,
+
+  // Keyboard: arrow keys move the virtual cursor (screen widths per second)
+  KEYBOARD_CURSOR_SPEED: 0.5,
+} as const;
+
+// Keyboard provider controls (KeyboardEvent.code)
+export const KEYBOARD_CONTROLS = {
+  UP: 'ArrowUp',
+  DOWN: 'ArrowDown',
+  LEFT: 'ArrowLeft',
+  RIGHT: 'ArrowRight',
+  PINCH: 'Space',
+  PEACE: 'KeyR',
+  FIST: 'KeyF',
+  ROLL_LEFT: 'KeyQ',
+  ROLL_RIGHT: 'KeyE',
+  CLEAR_SAND: 'KeyC',
+  TURN_LEFT: 'BracketLeft',
+  TURN_RIGHT: 'BracketRight',
+  NEXT_RAKE_TOOL: 'KeyT',
+  ADD_ELEMENT: 'KeyP',
+  NEXT_ELEMENT: 'KeyO',
+} as const;
@@ -1,9 +1,50 @@
+import { MediaPipeAssetSource } from '@/types';
+
 export const MEDIAPIPE_CONFIG = {
-  VISION_TASKS_CDN: "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm",
-  MODEL_URL: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
+  // The installed @mediapipe/tasks-vision, read at build time (next.config.ts); the WASM
+  // runtime is version-locked to the JS API
+  VERSION: process.env.NEXT_PUBLIC_MEDIAPIPE_VERSION ?? "",
   RUNNING_MODE: "VIDEO" as const,
-  NUM_HANDS: 1,
+  NUM_HANDS: 2,
+  // Preferred delegate; the performance governor falls back to the CPU
   DELEGATE: "GPU" as const,
+  // Handedness labels assume a mirrored selfie image; our input is not mirrored
+  MIRROR_HANDEDNESS: true,
+} as const;
+
+// Tried in order until one loads. Self-hosted files are copied into public/
+// by copy_mediapipe_assets.mjs; set NEXT_PUBLIC_MEDIAPIPE_MIRROR to add a mirror
+// (serving the same layout) ahead of the public CDN.
+const MIRROR_URL = process.env.NEXT_PUBLIC_MEDIAPIPE_MIRROR;
+
+export const MEDIAPIPE_ASSET_SOURCES: MediaPipeAssetSource[] = [
+  {
+    name: "Self-hosted",
+    wasmPath: "/mediapipe/wasm",
+    modelUrl: "/mediapipe/hand_landmarker.task",
+    manifestUrl: "/mediapipe/manifest.json",
+  },
+  ...(MIRROR_URL
+    ? [{
+        name: "Mirror",
+        wasmPath: `${MIRROR_URL}/wasm`,
+        modelUrl: `${MIRROR_URL}/hand_landmarker.task`,
+        manifestUrl: `${MIRROR_URL}/manifest.json`,
+      }]
+    : []),
+  {
+    name: "CDN",
+    wasmPath: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_CONFIG.VERSION}/wasm`,
+    modelUrl: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
+  },
+];
+
+export const HAND_TRACKING_CONFIG = {
+  // How long a hand may go undetected before it is considered gone
+  LOST_TIMEOUT_MS: 150,
+  // Identity assignment costs (in normalized screen units)
+  LABEL_MISMATCH_COST: 0.3,
+  UNSEEN_SLOT_COST: 0.25,
 } as const;
 
 export const HAND_LANDMARK_INDICES = {
@@ -12,6 +53,7 @@ export const HAND_LANDMARK_INDICES = {
   INDEX_TIP: 8,
   INDEX_MCP: 5,
   INDEX_PIP: 6,
+  MIDDLE_MCP: 9,
   MIDDLE_TIP: 12,
   MIDDLE_PIP: 10,
   RING_TIP: 16,
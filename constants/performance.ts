@@ -0,0 +1,20 @@
+// Adaptive hand tracking performance
+export const TRACKING_PERFORMANCE_CONFIG = {
+  // Quality steps, best first; the governor moves one step at a time
+  TIERS: [
+    { DETECTION_INTERVAL_MS: 0, INPUT_SCALE: 1 },
+    { DETECTION_INTERVAL_MS: 33, INPUT_SCALE: 1 },
+    { DETECTION_INTERVAL_MS: 33, INPUT_SCALE: 0.75 },
+    { DETECTION_INTERVAL_MS: 50, INPUT_SCALE: 0.5 },
+  ],
+  // Frame time (capture to result) above which quality is lowered
+  FRAME_BUDGET_MS: 45,
+  // Quality is raised again once frame time drops below this share of the budget
+  HEADROOM_RATIO: 0.5,
+  // Samples measured after each change before the next decision
+  SAMPLE_WINDOW: 30,
+  // Weight of each new sample in the moving averages
+  SMOOTHING: 0.1,
+  // How often the diagnostics panel refreshes
+  DIAGNOSTICS_INTERVAL_MS: 500,
+} as const;
@@ -0,0 +1,77 @@
+import { RakeTool, RakeToolSettings } from '@/types';
+
+export const RAKE_TOOLS: RakeTool[] = [
+  {
+    id: 'stylus',
+    label: 'Stylus',
+    kind: 'rake',
+    tines: 1,
+    tineSpacing: 0,
+    grooveDepth: 0.025,
+    grooveWidth: 0.05,
+    ridgeHeight: 0.01,
+  },
+  {
+    id: 'rake-3',
+    label: '3-tine rake',
+    kind: 'rake',
+    tines: 3,
+    tineSpacing: 0.16,
+    grooveDepth: 0.03,
+    grooveWidth: 0.12,
+    ridgeHeight: 0.015,
+  },
+  {
+    id: 'rake-5',
+    label: 'Wide rake',
+    kind: 'rake',
+    tines: 5,
+    tineSpacing: 0.12,
+    grooveDepth: 0.03,
+    grooveWidth: 0.12,
+    ridgeHeight: 0.015,
+  },
+  {
+    id: 'stamp-circle',
+    label: 'Circle stamp',
+    kind: 'stamp',
+    tines: 1,
+    tineSpacing: 0.3,
+    grooveDepth: 0.03,
+    grooveWidth: 0.1,
+    ridgeHeight: 0.015,
+  },
+  {
+    id: 'stamp-ripple',
+    label: 'Ripple stamp',
+    kind: 'stamp',
+    tines: 4,
+    tineSpacing: 0.14,
+    grooveDepth: 0.025,
+    grooveWidth: 0.1,
+    ridgeHeight: 0.012,
+  },
+];
+
+// Not in the picker: the open-palm smoothing gesture rakes with it
+export const SMOOTHING_TOOL: RakeTool = {
+  id: 'smoother',
+  label: 'Palm',
+  kind: 'smooth',
+  tines: 1,
+  tineSpacing: 0,
+  grooveDepth: 0,
+  grooveWidth: 0.8, // Diameter of the palm
+  ridgeHeight: 0,
+};
+
+export const RAKE_TOOL_CONFIG = {
+  STORAGE_KEY: 'pocket-garden:rake-tool',
+  // Twist at full hand roll (radians)
+  MAX_TWIST: Math.PI / 3,
+} as const;
+
+export const DEFAULT_RAKE_TOOL_SETTINGS: RakeToolSettings = {
+  toolId: 'rake-5',
+  twistWithRoll: false,
+};
@@ -0,0 +1,9 @@
+// Landmark session recording and replay
+export const RECORDING_CONFIG = {
+  // Bump when the file layout changes; older files are rejected
+  VERSION: 1,
+  FILE_PREFIX: 'pocket-garden-session',
+  PLAYBACK_SPEEDS: [0.25, 0.5, 1, 2, 4],
+  // How often replay progress is reported to the UI
+  PROGRESS_INTERVAL_MS: 100,
+} as const;
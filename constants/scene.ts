@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { StoneConfig, LeafConfig } from '@/types';
+import { StoneConfig, LeafConfig, SandPatternId, ErosionSettings } from '@/types';
 
 // Scene & Camera
 export const SCENE_CONFIG = {
@@ -32,6 +32,8 @@ export const LIGHTING_CONFIG = {
   DIRECTIONAL_COLOR: 0xffeedd,
   DIRECTIONAL_INTENSITY: 1.2,
   DIRECTIONAL_POSITION: new THREE.Vector3(5, 10, 5),
+  // Keeps the sand's grooves from shadowing themselves into acne
+  SHADOW_NORMAL_BIAS: 0.02,
 } as const;
 
 // Garden Objects
@@ -39,7 +41,7 @@ export const SOIL_CONFIG = {
   RADIUS: 4,
   HEIGHT: 0.5,
   RADIAL_SEGMENTS: 32,
-  Y_POSITION: -0.25,
+  Y_POSITION: -0.25, // Top at y = 0, where the sand surface sits
   COLOR: 0xe0d5c1,
   ROUGHNESS: 1,
 } as const;
@@ -52,19 +54,39 @@ export const DRAG_PLANE_CONFIG = {
 
 export const STONE_CONFIG = {
   RADIUS: 0.4,
-  DETAIL: 0,
-  COLOR: 0x888888,
   HOVER_HEIGHT: 1.0,
-  GROUND_HEIGHT: 0.4,
   EMISSIVE_NORMAL: 0x000000,
   EMISSIVE_HOVER: 0x222222,
   EMISSIVE_GRAB: 0x444444,
+  EMISSIVE_REMOVE: 0x661111,
+} as const;
+
+export const PLACEMENT_CONFIG = {
+  // Stones stay this far inside the soil's rim
+  RIM_MARGIN: 0.1,
+  // Push-out passes per frame; enough to slide between two touching stones
+  ITERATIONS: 4,
+  // A carried stone let go this far past the soil's rim is taken out of the garden
+  REMOVE_MARGIN: 0.5,
+} as const;
+
+export const STACKING_CONFIG = {
+  // The weight on a stone must sit within this share of its radius of its centre
+  BALANCE_RATIO: 0.5,
+  // A carried stone is lifted at least this far clear of whatever is under it
+  CARRY_CLEARANCE: 0.2,
+  // Support rays start this high above the garden
+  RAY_HEIGHT: 20,
+  TOPPLE_SPEED: 0.04, // Sideways slide per frame
+  TOPPLE_SPIN: 0.06, // Radians of tilt per frame
+  // Stones within this of their resting height count as resting
+  REST_TOLERANCE: 1e-3,
 } as const;
 
 export const INITIAL_STONES: StoneConfig[] = [
-  { x: -1.5, z: 0.5, s: 1.2 },
-  { x: 1.2, z: -1.0, s: 1.5 },
-  { x: 0.5, z: 1.5, s: 0.8 },
+  { x: -1.5, z: 0.5, s: 1.2, seed: 12 }, // Flat granite
+  { x: 1.2, z: -1.0, s: 1.5, seed: 8 }, // Tall slate
+  { x: 0.5, z: 1.5, s: 0.8, seed: 4 }, // Reclining granite
 ];
 
 export const BONSAI_CONFIG = {
@@ -89,13 +111,82 @@ export const INITIAL_LEAVES: LeafConfig[] = [
   { x: 0, y: 1.7, z: -0.3 },
 ];
 
-export const TRAIL_CONFIG = {
-  COLOR: 0x8d6e63,
-  LINE_WIDTH: 2,
-  MAX_POINTS: 500,
-  Y_OFFSET: -0.24,
+// Raked sand: a heightmap-displaced surface on top of the soil.
+// Heights are world units above the soil top.
+export const SAND_CONFIG = {
+  RESOLUTION: 512, // Heightmap texels across the soil's diameter
+  SEGMENTS: 256,   // Surface grid subdivisions across the diameter
+  // Range the height texture encodes
+  MIN_HEIGHT: -0.05,
+  MAX_HEIGHT: 0.05,
+  COLOR: 0xe0d5c1,
+  ROUGHNESS: 1,
+  // Slope exaggeration when deriving the normal map
+  NORMAL_STRENGTH: 2,
+  // Raking fades out this close to the soil's rim
+  EDGE_MARGIN: 0.2,
+  // Rake strokes are resampled to points this far apart, whatever the frame rate
+  STROKE_SPACING: 0.05,
+  // How far one pass moves the sand toward the tool's profile (0..1)
+  RAKE_STRENGTH: 0.6,
+} as const;
+
+export const SMOOTHING_CONFIG = {
+  // The open palm must rest this long on the sand before it starts smoothing
+  ENGAGE_MS: 800,
+  // ...moving less than this (screen widths) meanwhile
+  REST_RADIUS: 0.02,
 } as const;
 
+export const EROSION_CONFIG = {
+  STORAGE_KEY: 'pocket-garden:erosion',
+  // Erosion is applied in steps this far apart, not every frame
+  INTERVAL_MS: 500,
+  // Longer gaps (a hidden tab pauses the animation loop) count as this long
+  MAX_STEP_MS: 2000,
+  // Per second, in still air and added at full wind
+  DIFFUSION_RATE: 0.02,
+  WIND_DIFFUSION_RATE: 0.2,
+  SETTLE_RATE: 0.001,
+  WIND_SETTLE_RATE: 0.01,
+  // Re-carved sand is weathered again in at most this many passes
+  MAX_REPLAY_PASSES: 16,
+} as const;
+
+export const DEFAULT_EROSION_SETTINGS: ErosionSettings = {
+  enabled: false,
+};
+
+export const WIND_CONFIG = {
+  BASE_STRENGTH: 0.15,
+  // Gusts come and go on two slow, out-of-step cycles (seconds)
+  GUST_PERIODS: [23, 37],
+  // A gust rising through this strength plays the wind sound
+  GUST_THRESHOLD: 0.6,
+  GUST_VOLUME: 0.3, // At full strength
+  // Bonsai lean at full wind (radians)
+  SWAY_ANGLE: 0.04,
+  SWAY_SPEED: 1.5,
+} as const;
+
+export const SAND_PATTERN_CONFIG = {
+  TOOL: 'rake-5',       // Patterns are raked with this tool
+  SEGMENT_LENGTH: 0.1,  // Pattern paths are carved in steps this long
+  RIPPLE_RINGS: 3,      // Around each stone
+  RIPPLE_GAP: 0.1,      // Between a stone's edge and its first ripple
+  WAVE_AMPLITUDE: 0.25,
+  WAVE_LENGTH: 2,
+  // A resting stone moved further than this gets new ripples
+  MOVE_THRESHOLD: 0.05,
+} as const;
+
+export const SAND_PATTERNS: { id: SandPatternId; label: string }[] = [
+  { id: 'lines', label: 'Lines' },
+  { id: 'waves', label: 'Waves' },
+  { id: 'spiral', label: 'Spiral' },
+  { id: 'ripples', label: 'Ripples only' },
+];
+
 export const CURSOR_CONFIG = {
   Y_POSITION: 0.1,
   RING_INNER_RADIUS: 0.15,
@@ -104,9 +195,11 @@ export const CURSOR_CONFIG = {
   COLOR_NORMAL: 0x00ffaa,
   COLOR_HOVER: 0xffff00,
   COLOR_GRAB: 0xff8800,
+  COLOR_SMOOTH: 0x88ccff,
   SCALE_NORMAL: 1.0,
   SCALE_HOVER: 1.2,
   SCALE_GRAB: 0.8,
+  SCALE_SMOOTH: 2.0, // Ring matches the smoothing palm
   OPACITY_RING: 0.8,
   OPACITY_DOT: 0.9,
 } as const;
@@ -0,0 +1,34 @@
+export const STONE_GENERATOR_CONFIG = {
+  // Subdivisions of the icosahedron each stone is grown from
+  DETAIL: 3,
+  // Stretch along each axis, how far the middle rises above the ends (as a share
+  // of STONE_CONFIG.RADIUS) and how many radians one end is lifted above the other
+  ARCHETYPES: {
+    tall: { SCALE: { x: 0.75, y: 1.6, z: 0.7 }, ARCH: 0, LEAN: 0.08 },
+    flat: { SCALE: { x: 1.25, y: 0.5, z: 1.1 }, ARCH: 0, LEAN: 0 },
+    arching: { SCALE: { x: 1.5, y: 0.55, z: 0.8 }, ARCH: 0.35, LEAN: 0 },
+    reclining: { SCALE: { x: 1.5, y: 0.75, z: 0.85 }, ARCH: 0, LEAN: 0.3 },
+  },
+  // Random stretch of each axis, either way, so no two stones share proportions
+  PROPORTION_JITTER: 0.15,
+  // Lumps: fractal noise pushing the surface in and out
+  NOISE_FREQUENCY: 1.4,
+  NOISE_AMPLITUDE: 0.22,
+  NOISE_OCTAVES: 4,
+  NOISE_PERSISTENCE: 0.5,
+  // Weathering: small pits, and a base worn flat from sitting in the sand
+  PIT_FREQUENCY: 5,
+  PIT_DEPTH: 0.05,
+  BASE_FLATTEN: 0.75, // Share of the depth below the centre kept above the flat
+  // Granite is flecked with DARK and LIGHT; slate is layered from BASE to DARK
+  MATERIALS: {
+    granite: { BASE: 0x8c8984, DARK: 0x3a3936, LIGHT: 0xddd8cf, ROUGHNESS: 0.85 },
+    slate: { BASE: 0x56606a, DARK: 0x363d45, ROUGHNESS: 0.6 },
+  },
+  // Per unit of stone size (STONE_CONFIG.RADIUS)
+  FLECK_FREQUENCY: 9,
+  FLECK_SHARE: 0.2,
+  LAYER_FREQUENCY: 5,
+  // Hollows are this much darker at their deepest
+  CREVICE_SHADE: 0.35,
+} as const;
@@ -0,0 +1,28 @@
+import { CameraErrorKind, CameraResolution, CameraSettings } from '@/types';
+
+// Webcam selection; sizes and rates are requested as ideals, so the
+// camera may deliver the closest mode it supports
+export const WEBCAM_CONFIG = {
+  STORAGE_KEY: 'pocket-garden:camera',
+  FRAME_RATES: [15, 30, 60],
+} as const;
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+};
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: '480p',
+  frameRate: 30,
+};
+
+// Shown when the camera can't start; hand tracking falls back to other input
+export const CAMERA_ERROR_MESSAGES: Record<CameraErrorKind, string> = {
+  'permission-denied': 'Camera access was blocked — allow it in site settings',
+  'no-camera': 'No camera found',
+  busy: 'Camera is in use by another app',
+  unknown: 'Camera unavailable',
+};
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import { mediapipeVersion } from './mediapipe-version.mjs';
+
+// The hand landmarker model can be vendored at assets/mediapipe/, so the app
+// never needs to reach Google's storage bucket. To vendor it, download
+// https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task
+// (the CDN fallback in constants/mediapipe.ts) and commit it there. Without
+// it the app loads the model from the CDN.
+const MODEL_FILE = 'hand_landmarker.task';
+
+const packageDir = path.join(process.cwd(), 'node_modules', '@mediapipe', 'tasks-vision');
+const vendoredModelPath = path.join(process.cwd(), 'assets', 'mediapipe', MODEL_FILE);
+const outputDir = path.join(process.cwd(), 'public', 'mediapipe');
+const wasmDir = path.join(outputDir, 'wasm');
+const modelPath = path.join(outputDir, MODEL_FILE);
+
+// `--strict` refuses to go on without the model, for deployments that must
+// not reach the CDN
+const strict = process.argv.includes('--strict');
+
+function copyModel() {
+    if (fs.existsSync(vendoredModelPath)) {
+        fs.copyFileSync(vendoredModelPath, modelPath);
+        return true;
+    }
+
+    const message = [
+        `The hand landmarker model is missing: ${path.relative(process.cwd(), vendoredModelPath)}`,
+        'To self-host it, download it (see copy_mediapipe_assets.mjs) and commit it there.',
+    ];
+    if (strict) {
+        console.error(message.join('\n'));
+        process.exit(1);
+    }
+    console.warn([...message, 'Continuing without it; the app will load the model from the CDN.'].join('\n'));
+    return false;
+}
+
+function main() {
+    const version = mediapipeVersion();
+
+    // WASM runtime, copied from the installed package so it always matches the JS API
+    fs.mkdirSync(wasmDir, { recursive: true });
+    for (const file of fs.readdirSync(path.join(packageDir, 'wasm'))) {
+        fs.copyFileSync(path.join(packageDir, 'wasm', file), path.join(wasmDir, file));
+    }
+
+    const hasModel = copyModel();
+
+    // The app compares this against the version it was built for before using these files
+    const manifest = {
+        version,
+        model: hasModel ? { file: MODEL_FILE, bytes: fs.statSync(modelPath).size } : null,
+    };
+    fs.writeFileSync(path.join(outputDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+    console.log(`Copied MediaPipe ${version} assets to ${path.relative(process.cwd(), outputDir)}`);
+}
+
+main();
@@ -1,6 +1,22 @@
 export * from './useGardenRotation';
 export * from './useStoneLevitation';
+export * from './useGardenElements';
 export * from './useSandRaking';
+export * from './useSandPatterns';
+export * from './useSandSmoothing';
+export * from './useWindErosion';
 export * from './useTimeControl';
+export * from './useTwoHandTransform';
+export * from './useGardenHistory';
 export * from './useAudioFeedback';
 export * from './useThrottledCallback';
+export * from './useGestureProfiles';
+export * from './useCalibration';
+export * from './useGestureBindings';
+export * from './useInputProvider';
+export * from './useSessionReplay';
+export * from './useCameraSettings';
+export * from './useRakeToolSettings';
+export * from './useElementPaletteSettings';
+export * from './useErosionSettings';
+export * from './useLandmarkFilterSettings';
@@ -62,7 +62,10 @@ export function useAudioFeedback() {
   const playGrab = useThrottledCallback(() => play('grab', 0.4, 1.2), THROTTLE_MS.grab);
   const playRelease = useThrottledCallback(() => play('grab', 0.3, 0.8), THROTTLE_MS.grab);
   const playMagic = useThrottledCallback(() => play('magic', 0.3, 1.0), THROTTLE_MS.magic);
-  const playWind = useThrottledCallback(() => play('wind', 0.15, 1.0), THROTTLE_MS.wind);
+  const playWind = useThrottledCallback(
+    (volume: number = 0.15) => play('wind', volume, 1.0),
+    THROTTLE_MS.wind
+  );
 
   return { initAudio, preloadSounds, playGrab, playRelease, playMagic, playWind };
 }
@@ -0,0 +1,123 @@
+import { useRef, useState, useCallback } from 'react';
+import { CalibrationPose } from '@/types';
+import { CALIBRATION_CONFIG, CALIBRATION_STEPS } from '@/constants';
+import {
+  measureHandPose,
+  deriveGestureProfile,
+  createEmptySamples,
+  saveProfile,
+} from '@/lib/mediapipe';
+import type { TrackedHand } from '@/lib/mediapipe';
+
+export interface CalibrationState {
+  step: number | null; // Index into CALIBRATION_STEPS, null when not calibrating
+  recording: boolean;  // False while the user gets into position
+  progress: number;    // 0..1 within the current step
+}
+
+const IDLE_STATE: CalibrationState = { step: null, recording: false, progress: 0 };
+
+export function useCalibration() {
+  const [state, setState] = useState<CalibrationState>(IDLE_STATE);
+  const shownRef = useRef<CalibrationState>(IDLE_STATE);
+  // Name being entered before calibration starts, null when the form is closed
+  const [draftName, setDraftNameState] = useState<string | null>(null);
+  const draftNameRef = useRef<string | null>(null);
+  const stepRef = useRef<number | null>(null);
+  const stepStartRef = useRef<number | null>(null);
+  const nameRef = useRef('');
+  const samplesRef = useRef(createEmptySamples());
+
+  // Samples arrive every frame; only re-render when what the wizard shows changes
+  const show = useCallback((next: CalibrationState) => {
+    const shown = shownRef.current;
+    if (
+      shown.step === next.step &&
+      shown.recording === next.recording &&
+      shown.progress === next.progress
+    ) {
+      return;
+    }
+    shownRef.current = next;
+    setState(next);
+  }, []);
+
+  const setDraftName = useCallback((name: string | null) => {
+    draftNameRef.current = name;
+    setDraftNameState(name);
+  }, []);
+
+  const start = useCallback((name: string) => {
+    nameRef.current = name;
+    samplesRef.current = createEmptySamples();
+    stepRef.current = 0;
+    stepStartRef.current = null;
+    setDraftName(null);
+    show({ step: 0, recording: false, progress: 0 });
+  }, [setDraftName, show]);
+
+  /** Accepts the pending name form, e.g. from a hold-to-confirm gesture */
+  const confirm = useCallback(() => {
+    const name = draftNameRef.current?.trim();
+    if (name) start(name);
+  }, [start]);
+
+  const cancel = useCallback(() => {
+    stepRef.current = null;
+    show(IDLE_STATE);
+  }, [show]);
+
+  /** Feed one hand's landmarks; a no-op unless calibrating */
+  const addSample = useCallback((hand: TrackedHand, timestampMs: number) => {
+    const step = stepRef.current;
+    if (step === null) return;
+
+    // The step clock starts once a hand is visible
+    if (stepStartRef.current === null) stepStartRef.current = timestampMs;
+    const elapsed = timestampMs - stepStartRef.current;
+
+    if (elapsed < CALIBRATION_CONFIG.PREPARE_MS) {
+      show({ step, recording: false, progress: 0 });
+      return;
+    }
+
+    const pose: CalibrationPose = CALIBRATION_STEPS[step].pose;
+    samplesRef.current[pose].push(measureHandPose(hand.landmarks, hand.worldLandmarks));
+
+    const progress = Math.min(
+      1,
+      (elapsed - CALIBRATION_CONFIG.PREPARE_MS) / CALIBRATION_CONFIG.SAMPLE_DURATION_MS
+    );
+    const hasEnoughSamples = samplesRef.current[pose].length >= CALIBRATION_CONFIG.MIN_SAMPLES;
+
+    if (progress < 1 || !hasEnoughSamples) {
+      const { PROGRESS_STEP } = CALIBRATION_CONFIG;
+      show({ step, recording: true, progress: Math.floor(progress / PROGRESS_STEP) * PROGRESS_STEP });
+      return;
+    }
+
+    if (step + 1 < CALIBRATION_STEPS.length) {
+      stepRef.current = step + 1;
+      stepStartRef.current = null;
+      show({ step: step + 1, recording: false, progress: 0 });
+      return;
+    }
+
+    saveProfile(deriveGestureProfile(nameRef.current, samplesRef.current));
+    stepRef.current = null;
+    show(IDLE_STATE);
+  }, [show]);
+
+  const isCalibrating = useCallback(() => stepRef.current !== null, []);
+
+  return {
+    state,
+    draftName,
+    setDraftName,
+    start,
+    confirm,
+    cancel,
+    addSample,
+    isCalibrating,
+  };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  getCameraSettings,
+  getServerCameraSettings,
+  listCameras,
+  subscribeCameraSettings,
+  updateCameraSettings,
+} from '@/lib/camera';
+import type { CameraDevice } from '@/types';
+
+/**
+ * The remembered camera choice and the cameras currently attached.
+ * Pass `listDevices` once the camera is open: labels need permission.
+ */
+export function useCameraSettings(listDevices: boolean) {
+  const settings = useSyncExternalStore(
+    subscribeCameraSettings,
+    getCameraSettings,
+    getServerCameraSettings
+  );
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+
+  useEffect(() => {
+    if (!listDevices || !navigator.mediaDevices?.enumerateDevices) return;
+    let disposed = false;
+
+    const refresh = () => {
+      listCameras()
+        .then((cameras) => {
+          if (!disposed) setDevices(cameras);
+        })
+        .catch((error) => console.error('Error listing cameras:', error));
+    };
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      disposed = true;
+      navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [listDevices]);
+
+  return { settings, devices, updateCameraSettings };
+}
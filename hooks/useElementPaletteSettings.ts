@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getElementPaletteSettings,
+  getServerElementPaletteSettings,
+  subscribeElementPaletteSettings,
+  updateElementPaletteSettings,
+} from '@/lib/three';
+
+/** The palette's selected element, shared with the gestures that cycle and add it */
+export function useElementPaletteSettings() {
+  const settings = useSyncExternalStore(
+    subscribeElementPaletteSettings,
+    getElementPaletteSettings,
+    getServerElementPaletteSettings
+  );
+  return { settings, updateElementPaletteSettings };
+}
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getErosionSettings,
+  getServerErosionSettings,
+  subscribeErosionSettings,
+  updateErosionSettings,
+} from '@/lib/three';
+
+/** Whether the sand erodes in the wind, shared with the garden's animation loop */
+export function useErosionSettings() {
+  const settings = useSyncExternalStore(
+    subscribeErosionSettings,
+    getErosionSettings,
+    getServerErosionSettings
+  );
+  return { settings, updateErosionSettings };
+}
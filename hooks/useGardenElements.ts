@@ -0,0 +1,52 @@
+import { MutableRefObject } from 'react';
+import * as THREE from 'three';
+import { GardenElementId, SceneObjectsRef } from '@/types';
+import { GARDEN_ELEMENT_CONFIG } from '@/constants';
+import {
+  bonsaiFootprint,
+  createGardenElement,
+  resolvePlacement,
+  stoneBounds,
+  stoneFootprint,
+} from '@/lib/three';
+
+type RequiredObjects = Pick<SceneObjectsRef, 'gardenGroup' | 'stones' | 'bonsai'>;
+
+/**
+ * Puts palette elements into the garden, where they can be picked up like
+ * the stones, and takes them (or stones) out again. A new element appears
+ * above the free spot nearest the front of the garden and falls onto it.
+ */
+export function useGardenElements(sceneObjectsRef: MutableRefObject<RequiredObjects>) {
+  const placeElement = (element: THREE.Object3D): void => {
+    const objects = sceneObjectsRef.current;
+    if (!objects.gardenGroup || objects.stones.includes(element)) return;
+    objects.gardenGroup.add(element);
+    objects.stones = [...objects.stones, element];
+  };
+
+  const removeElement = (element: THREE.Object3D): void => {
+    const objects = sceneObjectsRef.current;
+    objects.gardenGroup?.remove(element);
+    objects.stones = objects.stones.filter((stone) => stone !== element);
+  };
+
+  const addElement = (id: GardenElementId): THREE.Object3D | null => {
+    const { gardenGroup, stones, bonsai } = sceneObjectsRef.current;
+    if (!gardenGroup) return null;
+
+    const element = createGardenElement(id);
+    const obstacles = stones.map(stoneFootprint);
+    if (bonsai) obstacles.push(bonsaiFootprint(bonsai));
+    const { x, z } = resolvePlacement(
+      GARDEN_ELEMENT_CONFIG.SPAWN_POINT,
+      stoneBounds(element).radius,
+      obstacles
+    );
+    element.position.set(x, GARDEN_ELEMENT_CONFIG.SPAWN_HEIGHT, z);
+    placeElement(element);
+    return element;
+  };
+
+  return { addElement, placeElement, removeElement };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { GardenCommand, HistoryState } from '@/types';
+import { HISTORY_CONFIG } from '@/constants';
+import { createCommandHistory, stateChangeCommand } from '@/lib/history';
+import type { CommandHistory } from '@/lib/history';
+
+/**
+ * Undo and redo for garden edits. Edits are recorded once made; `onChange`
+ * hears what can be undone or redone after every change.
+ */
+export function useGardenHistory(onChange?: (state: HistoryState) => void) {
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  const historyRef = useRef<CommandHistory | null>(null);
+
+  // Created on first use rather than during render
+  const getHistory = (): CommandHistory => {
+    historyRef.current ??= createCommandHistory(HISTORY_CONFIG.MAX_ENTRIES, (state) =>
+      onChangeRef.current?.(state)
+    );
+    return historyRef.current;
+  };
+
+  const record = (command: GardenCommand): void => getHistory().record(command);
+
+  /** Makes a change to a whole state, recording it as one edit */
+  const recordChange = <T>(
+    label: string,
+    getState: () => T,
+    restore: (state: T) => void,
+    change: () => void
+  ): void => {
+    const before = getState();
+    change();
+    getHistory().record(stateChangeCommand(label, before, getState(), restore));
+  };
+
+  const undo = (): boolean => getHistory().undo();
+  const redo = (): boolean => getHistory().redo();
+
+  return { record, recordChange, undo, redo };
+}
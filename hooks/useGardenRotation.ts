@@ -1,5 +1,5 @@
 import { useRef, MutableRefObject } from 'react';
-import { HandFrame, SceneObjectsRef } from '@/types';
+import { ResolvedHand, SceneObjectsRef } from '@/types';
 import { GESTURE_CONFIG } from '@/constants';
 
 type RequiredObjects = Pick<SceneObjectsRef, 'gardenGroup'>;
@@ -9,15 +9,27 @@ export function useGardenRotation(
 ) {
   const targetRotationRef = useRef(0);
 
-  const updateRotation = (frame: HandFrame): void => {
+  const rotateBy = (delta: number): void => {
+    targetRotationRef.current += delta;
+  };
+
+  const updateRotation = (hands: ResolvedHand[], isTransforming: boolean): void => {
     const gardenGroup = sceneObjectsRef.current.gardenGroup;
     if (!gardenGroup) return;
 
-    // Don't rotate when making a fist (controlling time)
-    const isControllingTime = frame.fist;
+    // Brake locks the garden where it is
+    if (hands.some((hand) => hand.actions.brake)) {
+      targetRotationRef.current = gardenGroup.rotation.y;
+      return;
+    }
 
-    if (!isControllingTime && Math.abs(frame.roll) > GESTURE_CONFIG.ROTATION_DEADZONE) {
-      targetRotationRef.current += frame.roll * GESTURE_CONFIG.ROTATION_SPEED;
+    // Don't tilt-rotate during a two-hand twist
+    const rotating = hands.filter((hand) => hand.actions.rotate);
+    if (!isTransforming && rotating.length > 0) {
+      const roll = rotating.reduce((sum, hand) => sum + hand.frame.roll, 0) / rotating.length;
+      if (Math.abs(roll) > GESTURE_CONFIG.ROTATION_DEADZONE) {
+        rotateBy(roll * GESTURE_CONFIG.ROTATION_SPEED);
+      }
     }
 
     gardenGroup.rotation.y +=
@@ -25,5 +37,5 @@ export function useGardenRotation(
       GESTURE_CONFIG.ROTATION_SMOOTHING;
   };
 
-  return { updateRotation };
+  return { updateRotation, rotateBy };
 }
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import {
+  subscribeGestureBindings,
+  getGestureBindings,
+  getServerGestureBindings,
+  findBindingConflicts,
+  setPoseBinding,
+  setMotionBinding,
+  resetGestureBindings,
+} from '@/lib/mediapipe';
+
+export function useGestureBindings() {
+  const bindings = useSyncExternalStore(
+    subscribeGestureBindings,
+    getGestureBindings,
+    getServerGestureBindings
+  );
+  const conflicts = findBindingConflicts(bindings);
+
+  return { bindings, conflicts, setPoseBinding, setMotionBinding, resetGestureBindings };
+}
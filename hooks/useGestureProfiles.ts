@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+import {
+  subscribeProfiles,
+  getStoredProfiles,
+  getServerProfiles,
+  setActiveProfile,
+  deleteProfile,
+} from '@/lib/mediapipe';
+
+export function useGestureProfiles() {
+  const { profiles, activeName, outdated } = useSyncExternalStore(
+    subscribeProfiles,
+    getStoredProfiles,
+    getServerProfiles
+  );
+
+  return { profiles, activeName, outdated, setActiveProfile, deleteProfile };
+}
@@ -0,0 +1,32 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { InputProviderId, InputSink } from '@/types';
+import { createInputProvider } from '@/lib/input';
+
+/**
+ * Runs the mouse, touch or keyboard provider while it's selected. Hand
+ * tracking and replay have their own components, so they do nothing here.
+ */
+export function useInputProvider(
+  providerId: InputProviderId,
+  targetRef: RefObject<HTMLElement | null>,
+  sink: InputSink
+) {
+  const sinkRef = useRef(sink);
+
+  useEffect(() => {
+    sinkRef.current = sink;
+  }, [sink]);
+
+  useEffect(() => {
+    const target = targetRef.current;
+    if (providerId === 'hand' || providerId === 'replay' || !target) return;
+
+    const provider = createInputProvider(providerId, target);
+    provider.start({
+      onHandFrames: (frames) => sinkRef.current.onHandFrames(frames),
+      onGardenAction: (action) => sinkRef.current.onGardenAction(action),
+    });
+
+    return () => provider.stop();
+  }, [providerId, targetRef]);
+}
@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getLandmarkFilterSettings,
+  getServerLandmarkFilterSettings,
+  subscribeLandmarkFilterSettings,
+  selectLandmarkFilter,
+  updateLandmarkFilterSettings,
+} from '@/lib/mediapipe';
+
+/** The landmark smoothing filter and its parameters, applied by the tracking worker */
+export function useLandmarkFilterSettings() {
+  const settings = useSyncExternalStore(
+    subscribeLandmarkFilterSettings,
+    getLandmarkFilterSettings,
+    getServerLandmarkFilterSettings
+  );
+  return { settings, selectLandmarkFilter, updateLandmarkFilterSettings };
+}
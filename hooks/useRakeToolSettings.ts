@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getRakeToolSettings,
+  getServerRakeToolSettings,
+  subscribeRakeToolSettings,
+  updateRakeToolSettings,
+} from '@/lib/three';
+
+/** The selected rake tool, shared with swipe gestures that cycle it */
+export function useRakeToolSettings() {
+  const settings = useSyncExternalStore(
+    subscribeRakeToolSettings,
+    getRakeToolSettings,
+    getServerRakeToolSettings
+  );
+  return { settings, updateRakeToolSettings };
+}
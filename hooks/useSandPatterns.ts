@@ -0,0 +1,103 @@
+import { useRef, MutableRefObject } from 'react';
+import * as THREE from 'three';
+import {
+  SandPatternId,
+  SandStroke,
+  SandWeathering,
+  SceneObjectsRef,
+  StoneFootprint,
+} from '@/types';
+import { SAND_PATTERN_CONFIG } from '@/constants';
+import { generateSandPattern, stoneFootprint } from '@/lib/three';
+
+type RequiredObjects = Pick<SceneObjectsRef, 'stones' | 'sand'>;
+
+/**
+ * Everything on the sand: the pattern, where it was raked around, the strokes
+ * on top and how far the wind has worn them
+ */
+export interface SandState {
+  pattern: SandPatternId | null;
+  footprints: Map<THREE.Object3D, StoneFootprint>;
+  strokes: readonly SandStroke[];
+  weathering: SandWeathering | null;
+}
+
+/**
+ * Keeps a generated pattern raked around the stones. Ripples follow a
+ * stone once it has been put down somewhere new; raked strokes stay on top.
+ */
+export function useSandPatterns(
+  sceneObjectsRef: MutableRefObject<RequiredObjects>,
+  getSettledStones: () => THREE.Object3D[]
+) {
+  const patternRef = useRef<SandPatternId | null>(null);
+  // Where each stone was when its ripples were raked
+  const footprintsRef = useRef<Map<THREE.Object3D, StoneFootprint>>(new Map());
+
+  const regenerate = (): void => {
+    const { sand } = sceneObjectsRef.current;
+    if (!sand || !patternRef.current) return;
+    sand.setPattern(generateSandPattern(patternRef.current, [...footprintsRef.current.values()]));
+  };
+
+  const applyPattern = (pattern: SandPatternId): void => {
+    patternRef.current = pattern;
+    footprintsRef.current = new Map(
+      sceneObjectsRef.current.stones.map((stone) => [stone, stoneFootprint(stone)])
+    );
+    regenerate();
+  };
+
+  /** Regenerates the pattern when a stone has come to rest somewhere new */
+  const updatePatterns = (): void => {
+    if (!patternRef.current) return;
+    let moved = false;
+    // Stones taken out of the garden take their ripples with them
+    for (const stone of footprintsRef.current.keys()) {
+      if (sceneObjectsRef.current.stones.includes(stone)) continue;
+      footprintsRef.current.delete(stone);
+      moved = true;
+    }
+    for (const stone of getSettledStones()) {
+      const footprint = stoneFootprint(stone);
+      const previous = footprintsRef.current.get(stone);
+      if (
+        previous &&
+        Math.hypot(footprint.x - previous.x, footprint.z - previous.z) <=
+          SAND_PATTERN_CONFIG.MOVE_THRESHOLD
+      ) {
+        continue;
+      }
+      footprintsRef.current.set(stone, footprint);
+      moved = true;
+    }
+    if (moved) regenerate();
+  };
+
+  /** Forgets the pattern; the sand itself is cleared by useSandRaking */
+  const clearPattern = (): void => {
+    patternRef.current = null;
+    footprintsRef.current.clear();
+  };
+
+  const getSandState = (): SandState => ({
+    pattern: patternRef.current,
+    footprints: new Map(footprintsRef.current),
+    strokes: [...(sceneObjectsRef.current.sand?.getStrokes() ?? [])],
+    weathering: sceneObjectsRef.current.sand?.getWeathering() ?? null,
+  });
+
+  /** Puts the sand back as it was; ripples catch up with stones moved since on the next update */
+  const restoreSandState = (state: SandState): void => {
+    const { sand } = sceneObjectsRef.current;
+    if (!sand) return;
+    patternRef.current = state.pattern;
+    footprintsRef.current = new Map(state.footprints);
+    sand.setStrokes(state.strokes, state.weathering ?? undefined);
+    if (state.pattern) regenerate();
+    else sand.setPattern([]);
+  };
+
+  return { applyPattern, updatePatterns, clearPattern, getSandState, restoreSandState };
+}
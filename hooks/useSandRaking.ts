@@ -1,35 +1,56 @@
 import { useRef, MutableRefObject } from 'react';
 import * as THREE from 'three';
-import { HandFrame, SceneObjectsRef } from '@/types';
-import { TRAIL_CONFIG } from '@/constants';
+import { HandFrame, Handedness, ResolvedHand, SceneObjectsRef } from '@/types';
+import { getRakeTool, getRakeToolSettings, rakeTwist } from '@/lib/three';
 
-type RequiredObjects = Pick<SceneObjectsRef, 'soil' | 'gardenGroup' | 'trailLine'>;
+type RequiredObjects = Pick<SceneObjectsRef, 'gardenGroup' | 'sand'>;
 
 export function useSandRaking(
   sceneObjectsRef: MutableRefObject<RequiredObjects>,
   raycasterRef: MutableRefObject<THREE.Raycaster>
 ) {
-  const trailPointsRef = useRef<THREE.Vector3[]>([]);
+  // There is a single rake: the first hand to start raking holds it until it lets go
+  const rakingHandRef = useRef<Handedness | null>(null);
 
-  const updateRaking = (frame: HandFrame): void => {
-    const { soil, gardenGroup, trailLine } = sceneObjectsRef.current;
+  const releaseRake = (): void => {
+    rakingHandRef.current = null;
+    sceneObjectsRef.current.sand?.liftRake();
+  };
+
+  const updateRaking = ({ frame, actions }: ResolvedHand): void => {
+    if (!actions.rake) {
+      if (rakingHandRef.current === frame.handedness) releaseRake();
+      return;
+    }
+    if (rakingHandRef.current === null) rakingHandRef.current = frame.handedness;
+    if (rakingHandRef.current !== frame.handedness) return;
+
+    const { gardenGroup, sand } = sceneObjectsRef.current;
     const raycaster = raycasterRef.current;
-    if (!frame.peace || !soil || !gardenGroup || !trailLine) return;
+    if (!gardenGroup || !sand) return;
 
-    const groundIntersects = raycaster.intersectObject(soil);
+    const groundIntersects = raycaster.intersectObject(sand.mesh);
     if (groundIntersects.length > 0) {
-      const point = groundIntersects[0].point;
-      gardenGroup.worldToLocal(point);
-      point.y = TRAIL_CONFIG.Y_OFFSET;
+      const settings = getRakeToolSettings();
+      sand.rakeTo(
+        gardenGroup.worldToLocal(groundIntersects[0].point),
+        getRakeTool(settings.toolId),
+        rakeTwist(frame.roll, settings)
+      );
+    } else {
+      // Off the sand: the next touch starts a new stroke
+      sand.liftRake();
+    }
+  };
 
-      trailPointsRef.current.push(point);
-      if (trailPointsRef.current.length > TRAIL_CONFIG.MAX_POINTS) {
-        trailPointsRef.current.shift();
-      }
+  const releaseMissingHands = (frames: HandFrame[]): void => {
+    const hand = rakingHandRef.current;
+    if (hand && !frames.some((frame) => frame.handedness === hand)) releaseRake();
+  };
 
-      trailLine.geometry.setFromPoints(trailPointsRef.current);
-    }
+  const clearSand = (): void => {
+    sceneObjectsRef.current.sand?.clear();
   };
 
-  return { updateRaking };
+  return { updateRaking, releaseMissingHands, clearSand };
 }
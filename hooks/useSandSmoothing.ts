@@ -0,0 +1,76 @@
+import { useRef, MutableRefObject } from 'react';
+import * as THREE from 'three';
+import { HandFrame, Handedness, ResolvedHand, SceneObjectsRef } from '@/types';
+import { SMOOTHING_CONFIG, SMOOTHING_TOOL } from '@/constants';
+
+type RequiredObjects = Pick<SceneObjectsRef, 'gardenGroup' | 'sand'>;
+
+const HANDS: Handedness[] = ['left', 'right'];
+
+interface Rest {
+  x: number;
+  y: number;
+  since: number;
+}
+
+/**
+ * An open palm resting on the sand starts smoothing it flat; it keeps
+ * smoothing as it moves until the palm closes or leaves the sand. The rest
+ * keeps a palm waved past the sand (or swiping) from wiping it.
+ */
+export function useSandSmoothing(
+  sceneObjectsRef: MutableRefObject<RequiredObjects>,
+  raycasterRef: MutableRefObject<THREE.Raycaster>
+) {
+  const restsRef = useRef<Partial<Record<Handedness, Rest>>>({});
+  // Like the rake, the sand takes one smoothing palm at a time
+  const smoothingHandRef = useRef<Handedness | null>(null);
+
+  const stopSmoothing = (handedness: Handedness): void => {
+    delete restsRef.current[handedness];
+    if (smoothingHandRef.current !== handedness) return;
+    smoothingHandRef.current = null;
+    sceneObjectsRef.current.sand?.liftRake();
+  };
+
+  /** Whether the palm has rested in place long enough, starting the wait if it moved */
+  const hasRested = (frame: HandFrame): boolean => {
+    const now = Date.now();
+    const rest = restsRef.current[frame.handedness];
+    if (!rest || Math.hypot(frame.x - rest.x, frame.y - rest.y) > SMOOTHING_CONFIG.REST_RADIUS) {
+      restsRef.current[frame.handedness] = { x: frame.x, y: frame.y, since: now };
+      return false;
+    }
+    return now - rest.since >= SMOOTHING_CONFIG.ENGAGE_MS;
+  };
+
+  const updateSmoothing = ({ frame, actions }: ResolvedHand): void => {
+    const { gardenGroup, sand } = sceneObjectsRef.current;
+    if (!gardenGroup || !sand) return;
+
+    const groundIntersects = actions.smooth ? raycasterRef.current.intersectObject(sand.mesh) : [];
+    if (groundIntersects.length === 0) {
+      stopSmoothing(frame.handedness);
+      return;
+    }
+
+    if (smoothingHandRef.current === null && hasRested(frame)) {
+      smoothingHandRef.current = frame.handedness;
+    }
+    if (smoothingHandRef.current !== frame.handedness) return;
+
+    sand.rakeTo(gardenGroup.worldToLocal(groundIntersects[0].point), SMOOTHING_TOOL);
+  };
+
+  const releaseMissingHands = (frames: HandFrame[]): void => {
+    HANDS.forEach((handedness) => {
+      if (!frames.some((frame) => frame.handedness === handedness)) stopSmoothing(handedness);
+    });
+  };
+
+  /** Whether a palm (this hand's, if given) is smoothing the sand */
+  const isSmoothing = (handedness?: Handedness): boolean =>
+    handedness ? smoothingHandRef.current === handedness : smoothingHandRef.current !== null;
+
+  return { updateSmoothing, releaseMissingHands, isSmoothing };
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { InputSink } from '@/types';
+import { parseRecording } from '@/lib/mediapipe';
+import type { LandmarkRecording } from '@/lib/mediapipe';
+import { createReplayProvider } from '@/lib/input';
+import type { ReplayProvider, ReplayState } from '@/lib/input';
+
+export function useSessionReplay(sink: InputSink) {
+  const [recording, setRecording] = useState<LandmarkRecording | null>(null);
+  const [state, setState] = useState<ReplayState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const providerRef = useRef<ReplayProvider | null>(null);
+  const sinkRef = useRef(sink);
+
+  useEffect(() => {
+    sinkRef.current = sink;
+  }, [sink]);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    const provider = createReplayProvider(recording, setState);
+    providerRef.current = provider;
+    provider.start({
+      onHandFrames: (frames) => sinkRef.current.onHandFrames(frames),
+      onGardenAction: (action) => sinkRef.current.onGardenAction(action),
+    });
+
+    return () => {
+      provider.stop();
+      providerRef.current = null;
+      sinkRef.current.onHandFrames([]);
+    };
+  }, [recording]);
+
+  const load = useCallback(async (file: File) => {
+    try {
+      setRecording(parseRecording(await file.text()));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read recording');
+    }
+  }, []);
+
+  const play = useCallback(() => providerRef.current?.play(), []);
+  const pause = useCallback(() => providerRef.current?.pause(), []);
+  const seek = useCallback((positionMs: number) => providerRef.current?.seek(positionMs), []);
+  const setSpeed = useCallback((speed: number) => providerRef.current?.setSpeed(speed), []);
+
+  return { recording, state, error, load, play, pause, seek, setSpeed };
+}
@@ -1,73 +1,309 @@
 import { useRef, MutableRefObject } from 'react';
 import * as THREE from 'three';
-import { HandFrame, SceneObjectsRef } from '@/types';
-import { STONE_CONFIG, GESTURE_CONFIG } from '@/constants';
+import {
+  HandFrame,
+  Handedness,
+  ResolvedHand,
+  SandPoint,
+  SceneObjectsRef,
+  StoneFootprint,
+  StoneMove,
+  StonePose,
+} from '@/types';
+import {
+  STONE_CONFIG,
+  GESTURE_CONFIG,
+  HISTORY_CONFIG,
+  PLACEMENT_CONFIG,
+  SOIL_CONFIG,
+  STACKING_CONFIG,
+} from '@/constants';
+import {
+  bonsaiFootprint,
+  findOwner,
+  findSupport,
+  findTopple,
+  resolvePlacement,
+  separateStones,
+  stoneBounds,
+  stoneFootprint,
+  stonePose,
+} from '@/lib/three';
 
-type RequiredObjects = Pick<SceneObjectsRef, 'gardenGroup' | 'stones' | 'dragPlane'>;
+type RequiredObjects = Pick<SceneObjectsRef, 'gardenGroup' | 'stones' | 'dragPlane' | 'bonsai'>;
 
+const UP = new THREE.Vector3(0, 1, 0);
+// How far from the centre a hand must carry a stone to take it out of the garden
+const REMOVE_REACH = SOIL_CONFIG.RADIUS + PLACEMENT_CONFIG.REMOVE_MARGIN;
+const spin = new THREE.Quaternion();
+
+function setEmissive(object: THREE.Object3D, hex: number): void {
+  object.traverse((part) => {
+    if (part instanceof THREE.Mesh && part.material instanceof THREE.MeshStandardMaterial) {
+      part.material.emissive.setHex(hex);
+    }
+  });
+}
+
+interface Toppling {
+  direction: SandPoint;
+  remaining: number;
+}
+
+/**
+ * Stones are grabbed with a pinch, carried at hover height and dropped onto
+ * the sand. Twisting the wrist spins a held stone, and moving the hand nearer
+ * the camera raises it; it keeps the way it faces when it is let go.
+ * A carried stone stays on the soil, slides round the bonsai and
+ * is lifted over the other stones; let go above one, it settles on top, and
+ * a stack loaded too far off-centre topples. Stones left overlapping on the
+ * sand (say, by an undo) push apart. `onStoneMoved` hears about each stone
+ * once it has landed somewhere new. Given `onStoneRemoved`, a stone carried
+ * well past the soil's rim turns red and is handed to it when let go.
+ * "Stones" here are anything in `stones`, including added garden elements.
+ */
 export function useStoneLevitation(
   sceneObjectsRef: MutableRefObject<RequiredObjects>,
-  raycasterRef: MutableRefObject<THREE.Raycaster>
+  raycasterRef: MutableRefObject<THREE.Raycaster>,
+  onStoneMoved?: (move: StoneMove) => void,
+  onStoneRemoved?: (stone: THREE.Object3D, from: StonePose) => void
 ) {
-  const grabbedObjectRef = useRef<THREE.Object3D | null>(null);
+  const grabbedObjectsRef = useRef<Map<Handedness, THREE.Object3D>>(new Map());
+  // Where each held or falling stone was picked up
+  const pickupsRef = useRef<Map<THREE.Object3D, StonePose>>(new Map());
+  // Hand depth and roll at each grab, which lifts and spins are measured from
+  const grabsRef = useRef<Map<Handedness, { depth: number; roll: number }>>(new Map());
   const droppingObjectsRef = useRef<Set<THREE.Object3D>>(new Set());
-  const hoveredStoneRef = useRef<THREE.Mesh | null>(null);
+  // Held stones that will be removed if let go where they are
+  const removingObjectsRef = useRef<Set<THREE.Object3D>>(new Set());
+  const topplingObjectsRef = useRef<Map<THREE.Object3D, Toppling>>(new Map());
+  const hoveredStonesRef = useRef<Map<Handedness, THREE.Object3D>>(new Map());
 
-  const updateLevitation = (frame: HandFrame): void => {
-    const { gardenGroup, stones, dragPlane } = sceneObjectsRef.current;
-    const raycaster = raycasterRef.current;
-    if (!gardenGroup || !dragPlane) return;
+  const isHolding = (handedness: Handedness): boolean =>
+    grabbedObjectsRef.current.has(handedness);
 
-    // Set larger threshold for easier grab detection
-    raycaster.params.Mesh = { threshold: 0.5 };
+  /** Stones falling or toppling, which no hand can grab */
+  const isLoose = (stone: THREE.Object3D): boolean =>
+    droppingObjectsRef.current.has(stone) || topplingObjectsRef.current.has(stone);
+
+  /** Stones at rest, on the sand or on each other: neither held nor still falling */
+  const getSettledStones = (): THREE.Object3D[] => {
+    const held = new Set(grabbedObjectsRef.current.values());
+    return sceneObjectsRef.current.stones.filter((stone) => !held.has(stone) && !isLoose(stone));
+  };
+
+  /** Stones a stone could come to rest on: the ones lower down that no hand holds */
+  const stonesBelow = (stone: THREE.Object3D): THREE.Object3D[] => {
+    const held = new Set(grabbedObjectsRef.current.values());
+    return sceneObjectsRef.current.stones.filter(
+      (other) => other !== stone && !held.has(other) && other.position.y < stone.position.y
+    );
+  };
+
+  const clearHover = (handedness: Handedness): void => {
+    const hovered = hoveredStonesRef.current.get(handedness);
+    if (!hovered) return;
+    hoveredStonesRef.current.delete(handedness);
+    // Another hand may still be hovering or holding the same stone
+    const stillUsed =
+      [...hoveredStonesRef.current.values()].includes(hovered) ||
+      [...grabbedObjectsRef.current.values()].includes(hovered);
+    if (!stillUsed) setEmissive(hovered, STONE_CONFIG.EMISSIVE_NORMAL);
+  };
+
+  const drop = (handedness: Handedness): void => {
+    const grabbed = grabbedObjectsRef.current.get(handedness);
+    if (!grabbed) return;
+    setEmissive(grabbed, STONE_CONFIG.EMISSIVE_NORMAL);
+    grabbedObjectsRef.current.delete(handedness);
+    grabsRef.current.delete(handedness);
+
+    if (removingObjectsRef.current.delete(grabbed)) {
+      const from = pickupsRef.current.get(grabbed) ?? stonePose(grabbed);
+      pickupsRef.current.delete(grabbed);
+      onStoneRemoved?.(grabbed, from);
+      return;
+    }
+    // Add to dropping set for animated fall
+    droppingObjectsRef.current.add(grabbed);
+  };
+
+  /**
+   * Lets go of stones no longer in the garden (say, an added element whose
+   * Add was undone while a hand held it), without landing or removing them
+   */
+  const forgetRemovedStones = (): void => {
+    const present = new Set(sceneObjectsRef.current.stones);
+    const gone = (stone: THREE.Object3D) => !present.has(stone);
+
+    for (const [handedness, stone] of [...grabbedObjectsRef.current]) {
+      if (!gone(stone)) continue;
+      grabbedObjectsRef.current.delete(handedness);
+      grabsRef.current.delete(handedness);
+      setEmissive(stone, STONE_CONFIG.EMISSIVE_NORMAL);
+    }
+    for (const [handedness, stone] of [...hoveredStonesRef.current]) {
+      if (!gone(stone)) continue;
+      hoveredStonesRef.current.delete(handedness);
+      setEmissive(stone, STONE_CONFIG.EMISSIVE_NORMAL);
+    }
+    for (const stones of [
+      pickupsRef.current,
+      droppingObjectsRef.current,
+      removingObjectsRef.current,
+      topplingObjectsRef.current,
+    ]) {
+      for (const stone of [...stones.keys()]) if (gone(stone)) stones.delete(stone);
+    }
+  };
+
+  /**
+   * Animate dropping stones and release anything held by hands that left the frame.
+   * Runs once per render tick, before the per-hand updates.
+   */
+  const updateDrops = (frames: HandFrame[]): void => {
+    forgetRemovedStones();
+    for (const handedness of [...grabbedObjectsRef.current.keys()]) {
+      if (!frames.some((frame) => frame.handedness === handedness)) drop(handedness);
+    }
+    for (const handedness of [...hoveredStonesRef.current.keys()]) {
+      if (!frames.some((frame) => frame.handedness === handedness)) clearHover(handedness);
+    }
 
-    // Animate dropping stones
     const droppingObjects = droppingObjectsRef.current;
+    // A stone whose support has gone (picked up, or toppled) falls too
+    for (const stone of getSettledStones()) {
+      const { height } = findSupport(stone, stonesBelow(stone));
+      if (stone.position.y > height + STACKING_CONFIG.REST_TOLERANCE) droppingObjects.add(stone);
+    }
+    updateTopples();
+
     for (const obj of droppingObjects) {
-      if (obj.position.y > STONE_CONFIG.GROUND_HEIGHT) {
+      // Big and small stones alike come to rest with their lowest point on what's under them
+      const support = findSupport(obj, stonesBelow(obj));
+      if (obj.position.y > support.height) {
         obj.position.y -= GESTURE_CONFIG.STONE_DROP_SPEED;
       }
-      if (obj.position.y <= STONE_CONFIG.GROUND_HEIGHT) {
-        obj.position.y = STONE_CONFIG.GROUND_HEIGHT;
+      if (obj.position.y <= support.height) {
+        obj.position.y = support.height;
         droppingObjects.delete(obj);
+        if (!support.stone || !topple(obj, support.stone)) landed(obj);
+      }
+    }
+    separateSettledStones();
+  };
+
+  /**
+   * Checks the stack a stone just landed on; if it can't bear the weight,
+   * the stones above the one that gives way start to topple off it
+   */
+  const topple = (stone: THREE.Object3D, support: THREE.Object3D): boolean => {
+    const stack = [stone];
+    let below: THREE.Object3D | null = support;
+    while (below) {
+      stack.push(below);
+      below = findSupport(below, stonesBelow(below)).stone;
+    }
+    const found = findTopple(stack.map(stoneFootprint));
+    if (!found) return false;
+    for (const falling of stack.slice(0, found.level)) {
+      droppingObjectsRef.current.delete(falling);
+      topplingObjectsRef.current.set(falling, {
+        direction: found.direction,
+        remaining: found.distance,
+      });
+    }
+    return true;
+  };
+
+  /** Slides and tips toppling stones over the edge, then lets them fall */
+  const updateTopples = (): void => {
+    const axis = new THREE.Vector3();
+    const tilt = new THREE.Quaternion();
+    for (const [stone, toppling] of topplingObjectsRef.current) {
+      const { direction } = toppling;
+      const slide = Math.min(STACKING_CONFIG.TOPPLE_SPEED, toppling.remaining);
+      stone.position.x += direction.x * slide;
+      stone.position.z += direction.z * slide;
+      // Tip the top of the stone the way it is falling
+      tilt.setFromAxisAngle(axis.set(direction.z, 0, -direction.x), STACKING_CONFIG.TOPPLE_SPIN);
+      stone.quaternion.premultiply(tilt);
+
+      toppling.remaining -= slide;
+      if (toppling.remaining <= 0) {
+        topplingObjectsRef.current.delete(stone);
+        droppingObjectsRef.current.add(stone);
       }
     }
+  };
+
+  const fixedObstacles = (): StoneFootprint[] => {
+    const { bonsai } = sceneObjectsRef.current;
+    return bonsai ? [bonsaiFootprint(bonsai)] : [];
+  };
+
+  /** Pushes apart stones resting on the sand; stacked stones are meant to overlap */
+  const separateSettledStones = (): void => {
+    const settled = getSettledStones().filter(
+      (stone) => stone.position.y <= stoneBounds(stone).restHeight + STACKING_CONFIG.REST_TOLERANCE
+    );
+    const centres = separateStones(settled.map(stoneFootprint), fixedObstacles());
+    settled.forEach((stone, i) => {
+      stone.position.x = centres[i].x;
+      stone.position.z = centres[i].z;
+    });
+  };
 
-    // Don't grab stones that are currently dropping
-    const availableStones = stones.filter(s => !droppingObjects.has(s));
+  const landed = (stone: THREE.Object3D): void => {
+    const from = pickupsRef.current.get(stone);
+    pickupsRef.current.delete(stone);
+    if (!from) return;
+    const moved = from.position.distanceTo(stone.position) > HISTORY_CONFIG.MIN_STONE_MOVE;
+    const turned = from.quaternion.angleTo(stone.quaternion) > HISTORY_CONFIG.MIN_STONE_TURN;
+    if (moved || turned) onStoneMoved?.({ stone, from, to: stonePose(stone) });
+  };
+
+  const updateLevitation = ({ frame, actions }: ResolvedHand): void => {
+    const { gardenGroup, stones, dragPlane } = sceneObjectsRef.current;
+    const raycaster = raycasterRef.current;
+    if (!gardenGroup || !dragPlane) return;
+
+    const hand = frame.handedness;
+    const grabbedObjects = grabbedObjectsRef.current;
+    const grabbed = grabbedObjects.get(hand);
+
+    // Set larger threshold for easier grab detection
+    raycaster.params.Mesh = { threshold: 0.5 };
+
+    // Don't grab stones that are currently falling or held by the other hand
+    const heldStones = new Set(grabbedObjects.values());
+    const availableStones = stones.filter((s) => !isLoose(s) && !heldStones.has(s));
     const intersects = raycaster.intersectObjects(availableStones);
 
     // Handle hover highlighting when not grabbing
-    if (!grabbedObjectRef.current && !frame.pinch) {
+    if (!grabbed && !actions.levitate) {
       // Clear previous hover highlight
-      if (hoveredStoneRef.current) {
-        const mat = hoveredStoneRef.current.material as THREE.MeshStandardMaterial;
-        mat.emissive.setHex(STONE_CONFIG.EMISSIVE_NORMAL);
-        hoveredStoneRef.current = null;
-      }
+      clearHover(hand);
 
       // Apply hover highlight to nearest stone
       if (intersects.length > 0) {
-        hoveredStoneRef.current = intersects[0].object as THREE.Mesh;
-        const mat = hoveredStoneRef.current.material as THREE.MeshStandardMaterial;
-        mat.emissive.setHex(STONE_CONFIG.EMISSIVE_HOVER);
+        const hovered = findOwner(intersects[0].object, availableStones)!;
+        hoveredStonesRef.current.set(hand, hovered);
+        setEmissive(hovered, STONE_CONFIG.EMISSIVE_HOVER);
       }
     }
 
-    if (frame.pinch) {
-      if (!grabbedObjectRef.current) {
+    if (actions.levitate) {
+      if (!grabbed) {
         // Clear hover highlight before grabbing
-        if (hoveredStoneRef.current) {
-          const mat = hoveredStoneRef.current.material as THREE.MeshStandardMaterial;
-          mat.emissive.setHex(STONE_CONFIG.EMISSIVE_NORMAL);
-          hoveredStoneRef.current = null;
-        }
+        clearHover(hand);
 
         if (intersects.length > 0) {
-          grabbedObjectRef.current = intersects[0].object;
-          const mat = (grabbedObjectRef.current as THREE.Mesh)
-            .material as THREE.MeshStandardMaterial;
-          mat.emissive.setHex(STONE_CONFIG.EMISSIVE_GRAB);
+          const stone = findOwner(intersects[0].object, availableStones)!;
+          grabbedObjects.set(hand, stone);
+          grabsRef.current.set(hand, { depth: frame.depth ?? 0, roll: frame.roll });
+          pickupsRef.current.set(stone, stonePose(stone));
+          setEmissive(stone, STONE_CONFIG.EMISSIVE_GRAB);
         }
       } else {
         const dragIntersects = raycaster.intersectObject(dragPlane);
@@ -75,27 +311,51 @@ export function useStoneLevitation(
           const worldPoint = dragIntersects[0].point.clone();
           worldPoint.y = STONE_CONFIG.HOVER_HEIGHT;
           gardenGroup.worldToLocal(worldPoint);
-          grabbedObjectRef.current.position.lerp(
-            worldPoint,
-            GESTURE_CONFIG.DRAG_LERP_SPEED
-          );
-          grabbedObjectRef.current.position.y =
-            STONE_CONFIG.HOVER_HEIGHT +
+          grabbed.position.lerp(worldPoint, GESTURE_CONFIG.DRAG_LERP_SPEED);
+
+          // Reaching well past the rim marks the stone for removal; otherwise it stays on the soil
+          const removing =
+            !!onStoneRemoved && Math.hypot(worldPoint.x, worldPoint.z) > REMOVE_REACH;
+          if (removing !== removingObjectsRef.current.has(grabbed)) {
+            if (removing) removingObjectsRef.current.add(grabbed);
+            else removingObjectsRef.current.delete(grabbed);
+            setEmissive(
+              grabbed,
+              removing ? STONE_CONFIG.EMISSIVE_REMOVE : STONE_CONFIG.EMISSIVE_GRAB
+            );
+          }
+          if (!removing) {
+            const { radius } = stoneBounds(grabbed);
+            const placed = resolvePlacement(grabbed.position, radius, fixedObstacles());
+            grabbed.position.x = placed.x;
+            grabbed.position.z = placed.z;
+          }
+
+          // Turned as far as the wrist has twisted since the grab, so the stone
+          // follows the hand at any frame rate and stops when the wrist does
+          const grab = grabsRef.current.get(hand) ?? { depth: 0, roll: 0 };
+          const pickup = pickupsRef.current.get(grabbed);
+          if (pickup) {
+            spin.setFromAxisAngle(UP, (frame.roll - grab.roll) * GESTURE_CONFIG.STONE_SPIN_RANGE);
+            grabbed.quaternion.copy(pickup.quaternion).premultiply(spin);
+          }
+
+          // Raised as the hand comes nearer, but carried over other stones
+          // rather than through them, ready to stack
+          const depth = (frame.depth ?? 0) - grab.depth;
+          const lifted = STONE_CONFIG.HOVER_HEIGHT + depth * GESTURE_CONFIG.STONE_LIFT_RANGE;
+          const under = stones.filter((stone) => stone !== grabbed && !heldStones.has(stone));
+          const clearance = findSupport(grabbed, under).height + STACKING_CONFIG.CARRY_CLEARANCE;
+          grabbed.position.y =
+            Math.max(lifted, clearance) +
             Math.sin(Date.now() * GESTURE_CONFIG.LEVITATION_SPEED) *
               GESTURE_CONFIG.LEVITATION_AMPLITUDE;
         }
       }
     } else {
-      if (grabbedObjectRef.current) {
-        const mat = (grabbedObjectRef.current as THREE.Mesh)
-          .material as THREE.MeshStandardMaterial;
-        mat.emissive.setHex(STONE_CONFIG.EMISSIVE_NORMAL);
-        // Add to dropping set for animated fall
-        droppingObjects.add(grabbedObjectRef.current);
-        grabbedObjectRef.current = null;
-      }
+      drop(hand);
     }
   };
 
-  return { updateLevitation };
+  return { updateLevitation, updateDrops, isHolding, getSettledStones };
 }
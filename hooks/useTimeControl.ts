@@ -1,16 +1,20 @@
 import { useRef } from 'react';
-import { HandFrame } from '@/types';
-import { GESTURE_CONFIG } from '@/constants';
+import { ResolvedHand } from '@/types';
+import { GESTURE_CONFIG, SCREEN_REGIONS } from '@/constants';
+import { getGestureBindings } from '@/lib/mediapipe';
 
 export function useTimeControl() {
   const timeOfDayRef = useRef(0.5); // Start at midday
 
-  const updateTime = (frame: HandFrame): void => {
-    if (frame.fist) {
-      // Fist up (low y value) = day (1)
-      // Fist down (high y value) = night (0)
-      // Invert y so that up = 1 and down = 0
-      const targetTime = 1 - frame.y;
+  const updateTime = (hands: ResolvedHand[]): void => {
+    const hand = hands.find((h) => h.actions.time);
+    if (hand) {
+      // Fist at the top of its region = day (1), at the bottom = night (0).
+      // The fist only counts inside the region it is bound to, so the region's
+      // own height spans the whole day
+      const { minY, maxY } = SCREEN_REGIONS[getGestureBindings().poses.time.region];
+      const fromTop = (hand.frame.y - minY) / (maxY - minY);
+      const targetTime = 1 - Math.min(1, Math.max(0, fromTop));
       timeOfDayRef.current +=
         (targetTime - timeOfDayRef.current) * GESTURE_CONFIG.TIME_LERP_SPEED;
     }
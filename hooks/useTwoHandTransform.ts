@@ -0,0 +1,76 @@
+import { useRef, MutableRefObject } from 'react';
+import * as THREE from 'three';
+import { Handedness, ResolvedHand, SceneObjectsRef } from '@/types';
+import { CAMERA_CONFIG, TWO_HAND_CONFIG } from '@/constants';
+
+type RequiredObjects = Pick<SceneObjectsRef, 'camera'>;
+
+interface GripState {
+  distance: number; // Hand distance when the grip started
+  angle: number;    // Angle between hands on the previous frame
+  zoom: number;     // Zoom when the grip started
+}
+
+/**
+ * Two-hand "grab the world" gesture: with both hands levitating over empty sand,
+ * spreading the hands zooms in and twisting them rotates the garden.
+ */
+export function useTwoHandTransform(
+  sceneObjectsRef: MutableRefObject<RequiredObjects>,
+  rotateBy: (delta: number) => void,
+  isHolding: (handedness: Handedness) => boolean
+) {
+  const gripRef = useRef<GripState | null>(null);
+  const zoomRef = useRef(1);
+
+  const updateTwoHandTransform = (hands: ResolvedHand[]): boolean => {
+    const leftHand = hands.find((hand) => hand.frame.handedness === 'left');
+    const rightHand = hands.find((hand) => hand.frame.handedness === 'right');
+
+    const isGripping =
+      !!leftHand &&
+      !!rightHand &&
+      leftHand.actions.levitate &&
+      rightHand.actions.levitate &&
+      !isHolding('left') &&
+      !isHolding('right');
+
+    if (isGripping) {
+      const left = leftHand.frame;
+      const right = rightHand.frame;
+      const dx = right.x - left.x;
+      const dy = right.y - left.y;
+      const distance = Math.max(Math.hypot(dx, dy), TWO_HAND_CONFIG.MIN_HAND_DISTANCE);
+      const angle = Math.atan2(dy, dx);
+
+      const grip = gripRef.current;
+      if (!grip) {
+        gripRef.current = { distance, angle, zoom: zoomRef.current };
+      } else {
+        // Wrap the twist so crossing ±π doesn't spin the garden around
+        const twist = Math.atan2(Math.sin(angle - grip.angle), Math.cos(angle - grip.angle));
+        rotateBy(twist * TWO_HAND_CONFIG.TWIST_MULTIPLIER);
+        grip.angle = angle;
+
+        zoomRef.current = THREE.MathUtils.clamp(
+          grip.zoom * (distance / grip.distance),
+          TWO_HAND_CONFIG.ZOOM_MIN,
+          TWO_HAND_CONFIG.ZOOM_MAX
+        );
+      }
+    } else {
+      gripRef.current = null;
+    }
+
+    const camera = sceneObjectsRef.current.camera;
+    if (camera) {
+      const offset = CAMERA_CONFIG.POSITION.clone().sub(CAMERA_CONFIG.LOOK_AT);
+      const target = CAMERA_CONFIG.LOOK_AT.clone().addScaledVector(offset, 1 / zoomRef.current);
+      camera.position.lerp(target, TWO_HAND_CONFIG.ZOOM_LERP_SPEED);
+    }
+
+    return isGripping;
+  };
+
+  return { updateTwoHandTransform };
+}
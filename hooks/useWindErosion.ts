@@ -0,0 +1,50 @@
+import { useRef, MutableRefObject } from 'react';
+import { SceneObjectsRef } from '@/types';
+import { EROSION_CONFIG, WIND_CONFIG } from '@/constants';
+import { erosionStep, getErosionSettings, windStrength } from '@/lib/three';
+
+type RequiredObjects = Pick<SceneObjectsRef, 'sand' | 'bonsai'>;
+
+/**
+ * The garden's wind: it always sways the bonsai, and with erosion on it
+ * softens the sand every so often (faster in gusts) and calls `onGust` as
+ * each gust picks up.
+ */
+export function useWindErosion(
+  sceneObjectsRef: MutableRefObject<RequiredObjects>,
+  onGust: (strength: number) => void
+) {
+  const lastErosionRef = useRef<number | null>(null);
+  const gustingRef = useRef(false);
+
+  const updateWind = (): void => {
+    const now = Date.now();
+    const wind = windStrength(now / 1000);
+    const { sand, bonsai } = sceneObjectsRef.current;
+    if (bonsai) {
+      bonsai.rotation.z =
+        WIND_CONFIG.SWAY_ANGLE * wind * Math.sin((now / 1000) * WIND_CONFIG.SWAY_SPEED);
+    }
+
+    if (!getErosionSettings().enabled) {
+      lastErosionRef.current = null;
+      gustingRef.current = false;
+      return;
+    }
+
+    const gusting = wind >= WIND_CONFIG.GUST_THRESHOLD;
+    if (gusting && !gustingRef.current) onGust(wind);
+    gustingRef.current = gusting;
+
+    if (lastErosionRef.current === null) lastErosionRef.current = now;
+    const elapsed = now - lastErosionRef.current;
+    if (elapsed < EROSION_CONFIG.INTERVAL_MS) return;
+    lastErosionRef.current = now;
+
+    const seconds = Math.min(elapsed, EROSION_CONFIG.MAX_STEP_MS) / 1000;
+    const { diffusion, settle } = erosionStep(wind, seconds);
+    sand?.erode(diffusion, settle);
+  };
+
+  return { updateWind };
+}
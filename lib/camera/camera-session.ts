@@ -0,0 +1,80 @@
+import { CameraErrorKind, CameraSettings } from '@/types';
+import { classifyCameraError, listCameras, openCamera } from './camera-stream';
+
+export interface CameraSessionHandlers {
+  onOpen: (stream: MediaStream) => void;
+  onLost: () => void;
+  onError: (kind: CameraErrorKind, error: unknown) => void;
+}
+
+export interface CameraSession {
+  stop: () => void;
+}
+
+function stopTracks(stream: MediaStream): void {
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+/**
+ * Keeps a camera open. If the device goes away (unplugged, or ended by the
+ * system) the session reports it lost, then reopens the same device as soon
+ * as it shows up again.
+ */
+export function startCameraSession(
+  settings: CameraSettings,
+  handlers: CameraSessionHandlers
+): CameraSession {
+  let stream: MediaStream | null = null;
+  let lostDeviceId: string | null = null;
+  let waiting = false; // Lost, and listening for the device to return
+  let stopped = false;
+
+  const open = async (deviceId: string | null) => {
+    try {
+      const opened = await openCamera({ ...settings, deviceId });
+      if (stopped) {
+        stopTracks(opened);
+        return;
+      }
+      stream = opened;
+      const [track] = opened.getVideoTracks();
+      track?.addEventListener('ended', () => handleEnded(track), { once: true });
+      handlers.onOpen(opened);
+    } catch (error) {
+      if (!stopped) handlers.onError(classifyCameraError(error), error);
+    }
+  };
+
+  const handleEnded = (track: MediaStreamTrack) => {
+    if (stopped) return;
+    lostDeviceId = track.getSettings().deviceId ?? settings.deviceId;
+    stream = null;
+    waiting = true;
+    handlers.onLost();
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+  };
+
+  const handleDeviceChange = async () => {
+    const cameras = await listCameras();
+    // Several device changes can arrive while cameras are being listed
+    if (stopped || !waiting) return;
+    const returned = lostDeviceId
+      ? cameras.some(({ deviceId }) => deviceId === lostDeviceId)
+      : cameras.length > 0;
+    if (!returned) return;
+
+    waiting = false;
+    navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    open(lostDeviceId);
+  };
+
+  const stop = (): void => {
+    stopped = true;
+    navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    if (stream) stopTracks(stream);
+    stream = null;
+  };
+
+  open(settings.deviceId);
+  return { stop };
+}
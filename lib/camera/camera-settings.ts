@@ -0,0 +1,27 @@
+import { WEBCAM_CONFIG, CAMERA_RESOLUTIONS, DEFAULT_CAMERA_SETTINGS } from '@/constants';
+import { CameraResolution, CameraSettings } from '@/types';
+import { createLocalStore } from '@/lib/storage';
+
+function parseCameraSettings(raw: unknown): CameraSettings {
+  const parsed = (raw ?? {}) as Partial<CameraSettings>;
+  return {
+    deviceId: typeof parsed.deviceId === 'string' ? parsed.deviceId : DEFAULT_CAMERA_SETTINGS.deviceId,
+    resolution:
+      parsed.resolution && parsed.resolution in CAMERA_RESOLUTIONS
+        ? (parsed.resolution as CameraResolution)
+        : DEFAULT_CAMERA_SETTINGS.resolution,
+    frameRate: (WEBCAM_CONFIG.FRAME_RATES as readonly number[]).includes(parsed.frameRate as number)
+      ? (parsed.frameRate as number)
+      : DEFAULT_CAMERA_SETTINGS.frameRate,
+  };
+}
+
+const store = createLocalStore(WEBCAM_CONFIG.STORAGE_KEY, DEFAULT_CAMERA_SETTINGS, parseCameraSettings);
+
+export const getCameraSettings = store.get;
+export const getServerCameraSettings = store.getServer;
+export const subscribeCameraSettings = store.subscribe;
+
+export function updateCameraSettings(changes: Partial<CameraSettings>): void {
+  store.set({ ...getCameraSettings(), ...changes });
+}
@@ -0,0 +1,54 @@
+import { CAMERA_RESOLUTIONS } from '@/constants';
+import { CameraDevice, CameraErrorKind, CameraSettings } from '@/types';
+
+/** Sorts getUserMedia failures into the cases the UI explains */
+export function classifyCameraError(error: unknown): CameraErrorKind {
+  // Not every browser's DOMException (or OverconstrainedError) extends Error
+  const name = typeof error === 'object' && error !== null && 'name' in error ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'permission-denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'no-camera';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'busy';
+    default:
+      return 'unknown';
+  }
+}
+
+export function buildVideoConstraints(settings: CameraSettings): MediaTrackConstraints {
+  const { width, height } = CAMERA_RESOLUTIONS[settings.resolution];
+  return {
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+    width: { ideal: width },
+    height: { ideal: height },
+    frameRate: { ideal: settings.frameRate },
+  };
+}
+
+/**
+ * Opens the chosen camera. A remembered camera that is no longer attached
+ * falls back to the browser's default rather than failing.
+ */
+export async function openCamera(settings: CameraSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(settings) });
+  } catch (error) {
+    if (!settings.deviceId || classifyCameraError(error) !== 'no-camera') throw error;
+    return navigator.mediaDevices.getUserMedia({
+      video: buildVideoConstraints({ ...settings, deviceId: null }),
+    });
+  }
+}
+
+/** Video inputs; labels are only available once camera permission is granted */
+export async function listCameras(): Promise<CameraDevice[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(({ kind }) => kind === 'videoinput')
+    .map(({ deviceId, label }, i) => ({ deviceId, label: label || `Camera ${i + 1}` }));
+}
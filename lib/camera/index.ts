@@ -0,0 +1,9 @@
+export {
+  getCameraSettings,
+  getServerCameraSettings,
+  subscribeCameraSettings,
+  updateCameraSettings,
+} from './camera-settings';
+export { classifyCameraError, buildVideoConstraints, openCamera, listCameras } from './camera-stream';
+export { startCameraSession } from './camera-session';
+export type { CameraSession, CameraSessionHandlers } from './camera-session';
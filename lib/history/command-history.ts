@@ -0,0 +1,74 @@
+import { HISTORY_CONFIG } from '@/constants';
+import { GardenCommand, HistoryState } from '@/types';
+
+export interface CommandHistory {
+  /** Adds an edit that has just been made; anything undone can no longer be redone */
+  record: (command: GardenCommand) => void;
+  /** Takes back the latest edit; false when there is none */
+  undo: () => boolean;
+  redo: () => boolean;
+  getState: () => HistoryState;
+  clear: () => void;
+}
+
+/**
+ * Undo and redo stacks of commands, keeping at most `limit` edits to undo.
+ * `onChange` hears every change to what can be undone or redone.
+ */
+export function createCommandHistory(
+  limit: number = HISTORY_CONFIG.MAX_ENTRIES,
+  onChange?: (state: HistoryState) => void
+): CommandHistory {
+  const done: GardenCommand[] = [];
+  const undone: GardenCommand[] = [];
+
+  const getState = (): HistoryState => ({
+    undoLabel: done[done.length - 1]?.label ?? null,
+    redoLabel: undone[undone.length - 1]?.label ?? null,
+  });
+
+  const changed = (): void => onChange?.(getState());
+
+  const record = (command: GardenCommand): void => {
+    done.push(command);
+    if (done.length > limit) done.shift()?.forget?.('done');
+    undone.splice(0).forEach((dropped) => dropped.forget?.('undone'));
+    changed();
+  };
+
+  const undo = (): boolean => {
+    const command = done.pop();
+    if (!command) return false;
+    command.undo();
+    undone.push(command);
+    changed();
+    return true;
+  };
+
+  const redo = (): boolean => {
+    const command = undone.pop();
+    if (!command) return false;
+    command.redo();
+    done.push(command);
+    changed();
+    return true;
+  };
+
+  const clear = (): void => {
+    done.splice(0).forEach((dropped) => dropped.forget?.('done'));
+    undone.splice(0).forEach((dropped) => dropped.forget?.('undone'));
+    changed();
+  };
+
+  return { record, undo, redo, getState, clear };
+}
+
+/** An edit that swapped one whole state for another */
+export function stateChangeCommand<T>(
+  label: string,
+  before: T,
+  after: T,
+  restore: (state: T) => void
+): GardenCommand {
+  return { label, undo: () => restore(before), redo: () => restore(after) };
+}
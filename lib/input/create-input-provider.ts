@@ -0,0 +1,24 @@
+import { InputProviderId } from '@/types';
+import { InputProvider } from './input-provider';
+import { createMouseProvider } from './mouse-provider';
+import { createTouchProvider } from './touch-provider';
+import { createKeyboardProvider } from './keyboard-provider';
+
+/** Hand tracking and replay have their own components; the rest are plain providers */
+export type FallbackInputProviderId = Exclude<InputProviderId, 'hand' | 'replay'>;
+
+export function createInputProvider(id: FallbackInputProviderId, target: HTMLElement): InputProvider {
+  switch (id) {
+    case 'mouse':
+      return createMouseProvider(target);
+    case 'touch':
+      return createTouchProvider(target);
+    case 'keyboard':
+      return createKeyboardProvider();
+  }
+}
+
+/** Best stand-in when the camera isn't available */
+export function getFallbackInputProvider(): FallbackInputProviderId {
+  return window.matchMedia('(pointer: coarse)').matches ? 'touch' : 'mouse';
+}
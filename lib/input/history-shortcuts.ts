@@ -0,0 +1,14 @@
+import { HISTORY_KEYS } from '@/constants';
+import { GardenAction } from '@/types';
+import { isTypingTarget } from './keyboard-provider';
+
+/**
+ * Undo for Ctrl+Z (⌘Z on macOS), redo for Ctrl+Shift+Z or Ctrl+Y. These
+ * work whichever input source is selected, so they live outside the providers.
+ */
+export function historyShortcutAction(event: KeyboardEvent): GardenAction | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey || isTypingTarget(event.target)) return null;
+  if (event.code === HISTORY_KEYS.UNDO) return event.shiftKey ? 'redo' : 'undo';
+  if (event.code === HISTORY_KEYS.REDO) return 'redo';
+  return null;
+}
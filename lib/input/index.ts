@@ -0,0 +1,11 @@
+export type { InputProvider } from './input-provider';
+export { createMouseProvider } from './mouse-provider';
+export { createTouchProvider } from './touch-provider';
+export { createKeyboardProvider } from './keyboard-provider';
+export { historyShortcutAction } from './history-shortcuts';
+export { createSyntheticHand, createReleasedGestures, startFrameLoop } from './synthetic-hand';
+export type { SyntheticHand, SyntheticHandInput, HeldGestures } from './synthetic-hand';
+export { createInputProvider, getFallbackInputProvider } from './create-input-provider';
+export type { FallbackInputProviderId } from './create-input-provider';
+export { createReplayProvider } from './replay-provider';
+export type { ReplayProvider, ReplayState } from './replay-provider';
@@ -0,0 +1,6 @@
+import { InputSink } from '@/types';
+
+export interface InputProvider {
+  start: (sink: InputSink) => void;
+  stop: () => void;
+}
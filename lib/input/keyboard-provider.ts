@@ -0,0 +1,102 @@
+import { INPUT_CONFIG, KEYBOARD_CONTROLS } from '@/constants';
+import { GardenAction, InputSink } from '@/types';
+import { InputProvider } from './input-provider';
+import { createSyntheticHand, startFrameLoop } from './synthetic-hand';
+
+const KEY_ACTIONS: Partial<Record<string, GardenAction>> = {
+  [KEYBOARD_CONTROLS.CLEAR_SAND]: 'clear-sand',
+  [KEYBOARD_CONTROLS.TURN_LEFT]: 'rotate-left',
+  [KEYBOARD_CONTROLS.TURN_RIGHT]: 'rotate-right',
+  [KEYBOARD_CONTROLS.NEXT_RAKE_TOOL]: 'next-rake-tool',
+  [KEYBOARD_CONTROLS.ADD_ELEMENT]: 'add-element',
+  [KEYBOARD_CONTROLS.NEXT_ELEMENT]: 'next-element',
+};
+
+const CONTROL_CODES = new Set<string>(Object.values(KEYBOARD_CONTROLS));
+
+export function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement
+  );
+}
+
+/**
+ * A virtual hand steered with the arrow keys. Poses and tilt are held
+ * keys; one-shot garden actions fire on key press.
+ */
+export function createKeyboardProvider(): InputProvider {
+  const hand = createSyntheticHand();
+  const pressed = new Set<string>();
+  let stopLoop: (() => void) | null = null;
+  let sink: InputSink | null = null;
+  let x = 0.5;
+  let y = 0.5;
+  let lastTick: number | null = null;
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (isTypingTarget(event.target) || !CONTROL_CODES.has(event.code)) return;
+    event.preventDefault();
+
+    const action = KEY_ACTIONS[event.code];
+    if (action) {
+      if (!event.repeat) sink?.onGardenAction(action);
+      return;
+    }
+    pressed.add(event.code);
+  };
+
+  const onKeyUp = (event: KeyboardEvent) => {
+    pressed.delete(event.code);
+  };
+
+  const onBlur = () => pressed.clear();
+
+  const axis = (negative: string, positive: string): number =>
+    (pressed.has(positive) ? 1 : 0) - (pressed.has(negative) ? 1 : 0);
+
+  const emit = (timestampMs: number) => {
+    const deltaSeconds = lastTick === null ? 0 : (timestampMs - lastTick) / 1000;
+    lastTick = timestampMs;
+
+    const step = INPUT_CONFIG.KEYBOARD_CURSOR_SPEED * deltaSeconds;
+    x = Math.max(0, Math.min(1, x + axis(KEYBOARD_CONTROLS.LEFT, KEYBOARD_CONTROLS.RIGHT) * step));
+    y = Math.max(0, Math.min(1, y + axis(KEYBOARD_CONTROLS.UP, KEYBOARD_CONTROLS.DOWN) * step));
+
+    sink?.onHandFrames([
+      hand.frame({
+        x,
+        y,
+        roll: axis(KEYBOARD_CONTROLS.ROLL_LEFT, KEYBOARD_CONTROLS.ROLL_RIGHT),
+        held: {
+          pinch: pressed.has(KEYBOARD_CONTROLS.PINCH),
+          peace: pressed.has(KEYBOARD_CONTROLS.PEACE),
+          fist: pressed.has(KEYBOARD_CONTROLS.FIST),
+        },
+      }),
+    ]);
+  };
+
+  const start = (nextSink: InputSink): void => {
+    sink = nextSink;
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    stopLoop = startFrameLoop(emit);
+  };
+
+  const stop = (): void => {
+    stopLoop?.();
+    stopLoop = null;
+    sink = null;
+    window.removeEventListener('keydown', onKeyDown);
+    window.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('blur', onBlur);
+    pressed.clear();
+    hand.reset();
+    lastTick = null;
+  };
+
+  return { start, stop };
+}
@@ -0,0 +1,92 @@
+import { INPUT_CONFIG } from '@/constants';
+import { InputSink } from '@/types';
+import { InputProvider } from './input-provider';
+import { createSyntheticHand, startFrameLoop, toNormalizedPoint } from './synthetic-hand';
+
+const LEFT_BUTTON = 1;
+const RIGHT_BUTTON = 2;
+
+/**
+ * Mouse over the garden acts as an open hand: drag to levitate, shift-drag
+ * or right-drag to rake, hold Alt for the fist, scroll to tilt.
+ */
+export function createMouseProvider(target: HTMLElement): InputProvider {
+  const hand = createSyntheticHand();
+  let stopLoop: (() => void) | null = null;
+  let point: { x: number; y: number } | null = null;
+  let buttons = 0;
+  let shiftKey = false;
+  let altKey = false;
+  let roll = 0;
+
+  const onMouseMove = (event: MouseEvent) => {
+    point = toNormalizedPoint(target, event.clientX, event.clientY);
+    buttons = event.buttons;
+    shiftKey = event.shiftKey;
+    altKey = event.altKey;
+  };
+
+  const onMouseLeave = () => {
+    point = null;
+    buttons = 0;
+  };
+
+  const onWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    roll = Math.max(-1, Math.min(1, roll - event.deltaY * INPUT_CONFIG.WHEEL_ROLL_SENSITIVITY));
+  };
+
+  const onContextMenu = (event: MouseEvent) => event.preventDefault();
+
+  const onKey = (event: KeyboardEvent) => {
+    shiftKey = event.shiftKey;
+    altKey = event.altKey;
+  };
+
+  const emit = (sink: InputSink) => {
+    roll *= INPUT_CONFIG.ROLL_DECAY;
+    if (!point) {
+      sink.onHandFrames(hand.release());
+      return;
+    }
+
+    const dragging = (buttons & LEFT_BUTTON) !== 0;
+    const raking = (buttons & RIGHT_BUTTON) !== 0 || (dragging && shiftKey);
+    sink.onHandFrames([
+      hand.frame({
+        ...point,
+        roll,
+        held: { pinch: dragging && !raking, peace: raking, fist: altKey && !dragging && !raking },
+      }),
+    ]);
+  };
+
+  const start = (sink: InputSink): void => {
+    target.addEventListener('mousemove', onMouseMove);
+    target.addEventListener('mousedown', onMouseMove);
+    target.addEventListener('mouseup', onMouseMove);
+    target.addEventListener('mouseleave', onMouseLeave);
+    target.addEventListener('wheel', onWheel, { passive: false });
+    target.addEventListener('contextmenu', onContextMenu);
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    stopLoop = startFrameLoop(() => emit(sink));
+  };
+
+  const stop = (): void => {
+    stopLoop?.();
+    stopLoop = null;
+    target.removeEventListener('mousemove', onMouseMove);
+    target.removeEventListener('mousedown', onMouseMove);
+    target.removeEventListener('mouseup', onMouseMove);
+    target.removeEventListener('mouseleave', onMouseLeave);
+    target.removeEventListener('wheel', onWheel);
+    target.removeEventListener('contextmenu', onContextMenu);
+    window.removeEventListener('keydown', onKey);
+    window.removeEventListener('keyup', onKey);
+    hand.reset();
+    point = null;
+  };
+
+  return { start, stop };
+}
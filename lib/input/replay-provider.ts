@@ -0,0 +1,143 @@
+import { RECORDING_CONFIG } from '@/constants';
+import { HandFrame, InputSink } from '@/types';
+import { createHandPipeline, getGestureBindings, getRecordingDuration } from '@/lib/mediapipe';
+import type { LandmarkRecording } from '@/lib/mediapipe';
+import { InputProvider } from './input-provider';
+import { startFrameLoop } from './synthetic-hand';
+
+export interface ReplayState {
+  positionMs: number;
+  durationMs: number;
+  playing: boolean;
+  speed: number;
+  divergedAtMs: number | null; // First point where replay stopped matching the recorded frames
+}
+
+export interface ReplayProvider extends InputProvider {
+  play: () => void;
+  pause: () => void;
+  seek: (positionMs: number) => void;
+  setSpeed: (speed: number) => void;
+  getState: () => ReplayState;
+}
+
+function sameFrames(a: HandFrame[], b: HandFrame[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Feeds a recording's raw detections back through the hand pipeline at their
+ * recorded timestamps, so playback reproduces the session frame for frame
+ * regardless of the display's frame rate. Seeking backwards replays from the
+ * start, since the filters and recognizers carry state.
+ */
+export function createReplayProvider(
+  recording: LandmarkRecording,
+  onProgress?: (state: ReplayState) => void
+): ReplayProvider {
+  const pipeline = createHandPipeline(recording.filter);
+  const { frames } = recording;
+  const startMs = frames[0]?.timestampMs ?? 0;
+  const durationMs = getRecordingDuration(recording);
+
+  let sink: InputSink | null = null;
+  let stopLoop: (() => void) | null = null;
+  let cursor = 0; // Next recorded frame to process
+  let positionMs = 0;
+  let playing = false;
+  let speed = 1;
+  let divergedAtMs: number | null = null;
+  let lastTick: number | null = null;
+  let lastProgress = -Infinity;
+
+  const getState = (): ReplayState => ({ positionMs, durationMs, playing, speed, divergedAtMs });
+
+  const reportProgress = (force = false) => {
+    if (!force && Math.abs(positionMs - lastProgress) < RECORDING_CONFIG.PROGRESS_INTERVAL_MS) return;
+    lastProgress = positionMs;
+    onProgress?.(getState());
+  };
+
+  // Processes every recorded frame up to the position; garden actions only fire during playback
+  const advance = (fireActions: boolean): boolean => {
+    let changed = false;
+    while (cursor < frames.length && frames[cursor].timestampMs - startMs <= positionMs) {
+      const recorded = frames[cursor];
+      const { hands, lost } = pipeline.track(recorded.detections, recorded.timestampMs);
+      const updates = pipeline.process(hands, recorded.timestampMs, recording.profile);
+      changed ||= hands.length > 0 || lost.length > 0;
+
+      if (fireActions) {
+        const { motions } = getGestureBindings();
+        for (const { motion } of updates) {
+          const action = motion ? motions[motion] : undefined;
+          if (action && action !== 'confirm') sink?.onGardenAction(action);
+        }
+      }
+      if (divergedAtMs === null && !sameFrames(pipeline.getFrames(), recorded.frames)) {
+        divergedAtMs = recorded.timestampMs - startMs;
+      }
+      cursor++;
+    }
+    return changed;
+  };
+
+  const tick = (timestampMs: number) => {
+    const deltaMs = lastTick === null ? 0 : timestampMs - lastTick;
+    lastTick = timestampMs;
+    if (!playing) return;
+
+    positionMs = Math.min(durationMs, positionMs + deltaMs * speed);
+    if (advance(true)) sink?.onHandFrames(pipeline.getFrames());
+    if (positionMs >= durationMs) {
+      playing = false;
+      reportProgress(true);
+    } else {
+      reportProgress();
+    }
+  };
+
+  const play = (): void => {
+    if (positionMs >= durationMs) seek(0);
+    playing = true;
+    reportProgress(true);
+  };
+
+  const pause = (): void => {
+    playing = false;
+    reportProgress(true);
+  };
+
+  const seek = (targetMs: number): void => {
+    const clamped = Math.max(0, Math.min(durationMs, targetMs));
+    if (clamped < positionMs || cursor === 0) {
+      pipeline.reset();
+      cursor = 0;
+    }
+    positionMs = clamped;
+    advance(false);
+    sink?.onHandFrames(pipeline.getFrames());
+    reportProgress(true);
+  };
+
+  const setSpeed = (nextSpeed: number): void => {
+    speed = nextSpeed;
+    reportProgress(true);
+  };
+
+  const start = (nextSink: InputSink): void => {
+    sink = nextSink;
+    lastTick = null;
+    stopLoop = startFrameLoop(tick);
+    seek(positionMs);
+  };
+
+  const stop = (): void => {
+    stopLoop?.();
+    stopLoop = null;
+    playing = false;
+    sink = null;
+  };
+
+  return { start, stop, play, pause, seek, setSpeed, getState };
+}
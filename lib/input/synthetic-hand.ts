@@ -0,0 +1,81 @@
+import { GestureName, GestureStates, HandFrame, Handedness } from '@/types';
+
+const GESTURE_NAMES: GestureName[] = ['pinch', 'fist', 'peace'];
+
+export type HeldGestures = Record<GestureName, boolean>;
+
+export interface SyntheticHandInput {
+  x: number;
+  y: number;
+  roll: number;
+  held: HeldGestures;
+}
+
+export interface SyntheticHand {
+  frame: (input: SyntheticHandInput) => HandFrame;
+  release: () => HandFrame[]; // Ends held gestures where they were, then reports no hand
+  reset: () => void;
+}
+
+export function createReleasedGestures(): HeldGestures {
+  return { pinch: false, fist: false, peace: false };
+}
+
+/**
+ * Builds HandFrames for a virtual hand driven by mouse, touch or keyboard.
+ * Held gestures are already unambiguous, so they skip the hysteresis the
+ * camera needs and go straight to start/hold/end phases.
+ */
+export function createSyntheticHand(handedness: Handedness = 'right'): SyntheticHand {
+  let previous = createReleasedGestures();
+  let last = { x: 0, y: 0 };
+
+  const frame = ({ x, y, roll, held }: SyntheticHandInput): HandFrame => {
+    const gestures = {} as GestureStates;
+    for (const name of GESTURE_NAMES) {
+      const active = held[name];
+      const wasActive = previous[name];
+      gestures[name] = {
+        active,
+        phase: active ? (wasActive ? 'hold' : 'start') : (wasActive ? 'end' : 'idle'),
+        confidence: active ? 1 : 0,
+      };
+    }
+    previous = { ...held };
+    last = { x, y };
+    return { handedness, x, y, roll, gestures };
+  };
+
+  const release = (): HandFrame[] => {
+    if (!GESTURE_NAMES.some((name) => previous[name])) return [];
+    return [frame({ ...last, roll: 0, held: createReleasedGestures() })];
+  };
+
+  const reset = (): void => {
+    previous = createReleasedGestures();
+  };
+
+  return { frame, release, reset };
+}
+
+/** Calls `tick` every animation frame until the returned function is called */
+export function startFrameLoop(tick: (timestampMs: number) => void): () => void {
+  let requestId = requestAnimationFrame(function loop(timestampMs) {
+    tick(timestampMs);
+    requestId = requestAnimationFrame(loop);
+  });
+  return () => cancelAnimationFrame(requestId);
+}
+
+/** Position of a client point within the element, 0..1 on each axis */
+export function toNormalizedPoint(
+  element: HTMLElement,
+  clientX: number,
+  clientY: number
+): { x: number; y: number } {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: (clientX - rect.left) / rect.width,
+    y: (clientY - rect.top) / rect.height,
+  };
+}
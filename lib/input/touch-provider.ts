@@ -0,0 +1,65 @@
+import { InputSink } from '@/types';
+import { InputProvider } from './input-provider';
+import { createSyntheticHand, startFrameLoop, toNormalizedPoint } from './synthetic-hand';
+
+/**
+ * Fingers on the garden stand in for poses at their centroid: one finger
+ * levitates, two fingers rake, three or more make a fist.
+ */
+export function createTouchProvider(target: HTMLElement): InputProvider {
+  const hand = createSyntheticHand();
+  let stopLoop: (() => void) | null = null;
+  let point: { x: number; y: number } | null = null;
+  let fingers = 0;
+
+  const onTouch = (event: TouchEvent) => {
+    event.preventDefault();
+    const touches = Array.from(event.targetTouches);
+    fingers = touches.length;
+    if (fingers === 0) {
+      point = null;
+      return;
+    }
+
+    const clientX = touches.reduce((sum, touch) => sum + touch.clientX, 0) / fingers;
+    const clientY = touches.reduce((sum, touch) => sum + touch.clientY, 0) / fingers;
+    point = toNormalizedPoint(target, clientX, clientY);
+  };
+
+  const emit = (sink: InputSink) => {
+    if (!point) {
+      sink.onHandFrames(hand.release());
+      return;
+    }
+
+    sink.onHandFrames([
+      hand.frame({
+        ...point,
+        roll: 0,
+        held: { pinch: fingers === 1, peace: fingers === 2, fist: fingers >= 3 },
+      }),
+    ]);
+  };
+
+  const start = (sink: InputSink): void => {
+    target.addEventListener('touchstart', onTouch, { passive: false });
+    target.addEventListener('touchmove', onTouch, { passive: false });
+    target.addEventListener('touchend', onTouch, { passive: false });
+    target.addEventListener('touchcancel', onTouch, { passive: false });
+    stopLoop = startFrameLoop(() => emit(sink));
+  };
+
+  const stop = (): void => {
+    stopLoop?.();
+    stopLoop = null;
+    target.removeEventListener('touchstart', onTouch);
+    target.removeEventListener('touchmove', onTouch);
+    target.removeEventListener('touchend', onTouch);
+    target.removeEventListener('touchcancel', onTouch);
+    hand.reset();
+    point = null;
+    fingers = 0;
+  };
+
+  return { start, stop };
+}
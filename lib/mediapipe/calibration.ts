@@ -0,0 +1,65 @@
+import { CALIBRATION_CONFIG, DEFAULT_GESTURE_PROFILE } from '@/constants';
+import { CalibrationPose, GestureProfile, HandPoseMeasurement } from '@/types';
+
+export type CalibrationSamples = Record<CalibrationPose, HandPoseMeasurement[]>;
+
+export function createEmptySamples(): CalibrationSamples {
+  return { open: [], pinch: [], fist: [], peace: [] };
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+/**
+ * Derive personal thresholds from the recorded poses. Each threshold pair
+ * falls back to the default profile if the recording can't separate it.
+ */
+export function deriveGestureProfile(name: string, samples: CalibrationSamples): GestureProfile {
+  const { LOW_PERCENTILE, HIGH_PERCENTILE } = CALIBRATION_CONFIG;
+  const profile: GestureProfile = { ...DEFAULT_GESTURE_PROFILE, name };
+
+  // Pinch: most pinch frames should read as full contact, most open frames as released
+  if (samples.pinch.length > 0 && samples.open.length > 0) {
+    const contact = percentile(samples.pinch.map((s) => s.pinchDistance), HIGH_PERCENTILE);
+    const release = percentile(samples.open.map((s) => s.pinchDistance), LOW_PERCENTILE);
+    if (release - contact >= CALIBRATION_CONFIG.MIN_PINCH_GAP) {
+      profile.pinchContactRatio = contact;
+      profile.pinchReleaseRatio = release;
+    }
+  }
+
+  // Extension: open hand and the peace sign's index/middle are extended;
+  // the fist and the peace sign's ring/pinky are curled
+  const extended = [
+    ...samples.open.flatMap((s) => s.fingerRatios),
+    ...samples.peace.flatMap((s) => s.fingerRatios.slice(0, 2)),
+  ];
+  const curled = [
+    ...samples.fist.flatMap((s) => s.fingerRatios),
+    ...samples.peace.flatMap((s) => s.fingerRatios.slice(2)),
+  ];
+  if (extended.length > 0 && curled.length > 0) {
+    const extendedRatio = percentile(extended, LOW_PERCENTILE);
+    const curledRatio = percentile(curled, HIGH_PERCENTILE);
+    if (extendedRatio - curledRatio >= CALIBRATION_CONFIG.MIN_EXTENSION_GAP) {
+      profile.extensionExtendedRatio = extendedRatio;
+      profile.extensionCurledRatio = curledRatio;
+    }
+  }
+
+  // Roll: the open hand step asks for a full tilt in both directions
+  if (samples.open.length > 0) {
+    const angles = samples.open.map((s) => s.rollAngle);
+    const rollMin = percentile(angles, CALIBRATION_CONFIG.ROLL_LOW_PERCENTILE);
+    const rollMax = percentile(angles, CALIBRATION_CONFIG.ROLL_HIGH_PERCENTILE);
+    if (rollMax - rollMin >= CALIBRATION_CONFIG.MIN_ROLL_SPAN) {
+      profile.rollMin = rollMin;
+      profile.rollMax = rollMax;
+    }
+  }
+
+  return profile;
+}
@@ -0,0 +1,153 @@
+import { BINDINGS_CONFIG, DEFAULT_GESTURE_BINDINGS, SCREEN_REGIONS } from '@/constants';
+import {
+  ActionStates,
+  BindableGesture,
+  GestureAction,
+  GestureBindings,
+  HandFrame,
+  MotionGestureName,
+  PoseAction,
+  PoseBinding,
+  ScreenRegion,
+} from '@/types';
+import { createLocalStore } from '@/lib/storage';
+
+export const POSE_ACTIONS = Object.keys(DEFAULT_GESTURE_BINDINGS.poses) as PoseAction[];
+export const BINDABLE_GESTURES: BindableGesture[] = ['open', 'pinch', 'fist', 'peace'];
+export const SCREEN_REGION_NAMES = Object.keys(SCREEN_REGIONS) as ScreenRegion[];
+export const MOTION_GESTURES: MotionGestureName[] = [
+  'swipe-left',
+  'swipe-right',
+  'swipe-up',
+  'swipe-down',
+  'circle-cw',
+  'circle-ccw',
+  'shake-horizontal',
+  'shake-vertical',
+  'dwell',
+];
+export const GESTURE_ACTIONS: GestureAction[] = [
+  'clear-sand',
+  'rotate-left',
+  'rotate-right',
+  'next-rake-tool',
+  'previous-rake-tool',
+  'undo',
+  'redo',
+  'add-element',
+  'next-element',
+  'previous-element',
+  'confirm',
+];
+
+export interface BindingConflict {
+  actions: [PoseAction, PoseAction];
+  gesture: BindableGesture;
+}
+
+export function isInRegion(x: number, y: number, region: ScreenRegion): boolean {
+  const bounds = SCREEN_REGIONS[region];
+  return x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY;
+}
+
+export function isGestureHeld(frame: HandFrame, gesture: BindableGesture): boolean {
+  const { pinch, fist, peace } = frame.gestures;
+  if (gesture === 'open') return !pinch.active && !fist.active && !peace.active;
+  return frame.gestures[gesture].active;
+}
+
+export function isBindingActive(frame: HandFrame, binding: PoseBinding): boolean {
+  return isGestureHeld(frame, binding.gesture) && isInRegion(frame.x, frame.y, binding.region);
+}
+
+/** 'start'/'end' on the frame where the bound pose begins or ends inside its region */
+export function bindingTransition(frame: HandFrame, binding: PoseBinding): 'start' | 'end' | null {
+  if (binding.gesture === 'open' || !isInRegion(frame.x, frame.y, binding.region)) return null;
+  const { phase } = frame.gestures[binding.gesture];
+  return phase === 'start' || phase === 'end' ? phase : null;
+}
+
+export function resolveActions(frame: HandFrame, bindings: GestureBindings): ActionStates {
+  const states = {} as ActionStates;
+  for (const action of POSE_ACTIONS) {
+    states[action] = isBindingActive(frame, bindings.poses[action]);
+  }
+  return states;
+}
+
+function regionsOverlap(a: ScreenRegion, b: ScreenRegion): boolean {
+  const ra = SCREEN_REGIONS[a];
+  const rb = SCREEN_REGIONS[b];
+  return ra.minX < rb.maxX && rb.minX < ra.maxX && ra.minY < rb.maxY && rb.minY < ra.maxY;
+}
+
+/** Pairs of actions that the same pose in the same place would trigger together */
+export function findBindingConflicts(bindings: GestureBindings): BindingConflict[] {
+  const conflicts: BindingConflict[] = [];
+  POSE_ACTIONS.forEach((a, i) => {
+    POSE_ACTIONS.slice(i + 1).forEach((b) => {
+      const ba = bindings.poses[a];
+      const bb = bindings.poses[b];
+      if (ba.gesture === bb.gesture && regionsOverlap(ba.region, bb.region)) {
+        conflicts.push({ actions: [a, b], gesture: ba.gesture });
+      }
+    });
+  });
+  return conflicts;
+}
+
+function parseBindings(raw: unknown): GestureBindings {
+  const parsed = (raw ?? {}) as Partial<GestureBindings>;
+  const poses = { ...DEFAULT_GESTURE_BINDINGS.poses };
+  for (const action of POSE_ACTIONS) {
+    const binding = parsed.poses?.[action];
+    if (
+      binding &&
+      BINDABLE_GESTURES.includes(binding.gesture) &&
+      SCREEN_REGION_NAMES.includes(binding.region)
+    ) {
+      poses[action] = { gesture: binding.gesture, region: binding.region };
+    }
+  }
+  // Bindings saved before smoothing existed kept the old default of open-palm
+  // rotation anywhere, which would also fire wherever a palm smooths the sand
+  const savedRotate = parsed.poses?.rotate;
+  const oldDefaultRotate = savedRotate?.gesture === 'open' && savedRotate.region === 'anywhere';
+  if (!parsed.poses?.smooth && oldDefaultRotate) {
+    poses.rotate = DEFAULT_GESTURE_BINDINGS.poses.rotate;
+  }
+
+  // Saved motions go over the defaults, so a motion added later gets its
+  // default binding rather than being left unbound
+  const motions = { ...DEFAULT_GESTURE_BINDINGS.motions };
+  if (parsed.motions && typeof parsed.motions === 'object') {
+    for (const [motion, action] of Object.entries(parsed.motions)) {
+      if (!MOTION_GESTURES.includes(motion as MotionGestureName)) continue;
+      if (action === null || GESTURE_ACTIONS.includes(action as GestureAction)) {
+        motions[motion as MotionGestureName] = action;
+      }
+    }
+  }
+
+  return { poses, motions };
+}
+
+const store = createLocalStore(BINDINGS_CONFIG.STORAGE_KEY, DEFAULT_GESTURE_BINDINGS, parseBindings);
+
+export const getGestureBindings = store.get;
+export const getServerGestureBindings = store.getServer;
+export const subscribeGestureBindings = store.subscribe;
+
+export function setPoseBinding(action: PoseAction, binding: PoseBinding): void {
+  const bindings = getGestureBindings();
+  store.set({ ...bindings, poses: { ...bindings.poses, [action]: binding } });
+}
+
+export function setMotionBinding(motion: MotionGestureName, action: GestureAction | null): void {
+  const bindings = getGestureBindings();
+  store.set({ ...bindings, motions: { ...bindings.motions, [motion]: action } });
+}
+
+export function resetGestureBindings(): void {
+  store.set(DEFAULT_GESTURE_BINDINGS);
+}
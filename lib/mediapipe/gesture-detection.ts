@@ -1,45 +1,129 @@
-import { GESTURE_CONFIG, HAND_LANDMARK_INDICES } from '@/constants';
-import { Landmark, HandFrame } from '@/types';
+import { DEFAULT_GESTURE_PROFILE, GESTURE_CONFIG, HAND_LANDMARK_INDICES } from '@/constants';
+import {
+  Landmark,
+  HandFrame,
+  GestureConfidences,
+  GestureProfile,
+  HandPoseMeasurement,
+} from '@/types';
+import { GestureRecognizer } from './gesture-recognizer';
+import type { TrackedHand } from './hand-tracking';
 
-function calculateRoll(landmarks: Landmark[]): number {
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function distance3D(a: Landmark, b: Landmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, (a.z ?? 0) - (b.z ?? 0));
+}
+
+function rollAngle(landmarks: Landmark[]): number {
   const indexMCP = landmarks[HAND_LANDMARK_INDICES.INDEX_MCP];
   const pinkyMCP = landmarks[HAND_LANDMARK_INDICES.PINKY_MCP];
-  const dx = pinkyMCP.x - indexMCP.x;
-  const dy = pinkyMCP.y - indexMCP.y;
-  const rollVal = Math.atan2(dy, dx);
-  return Math.max(-1, Math.min(1, -rollVal * GESTURE_CONFIG.ROLL_MULTIPLIER));
+  // Use the knuckle line's direction-agnostic angle so left and right hands tilt alike
+  const flip = pinkyMCP.x < indexMCP.x ? -1 : 1;
+  const dx = (pinkyMCP.x - indexMCP.x) * flip;
+  const dy = (pinkyMCP.y - indexMCP.y) * flip;
+  return Math.atan2(dy, dx);
 }
 
-function isFingerExtended(tip: Landmark, pip: Landmark, wrist: Landmark): boolean {
-  const dTip = Math.hypot(tip.x - wrist.x, tip.y - wrist.y);
-  const dPip = Math.hypot(pip.x - wrist.x, pip.y - wrist.y);
-  return dTip > dPip * GESTURE_CONFIG.EXTENSION_MULTIPLIER;
+/** Maps the knuckle-line angle onto -1..1 using the profile's tilt range */
+export function calculateRoll(angle: number, profile: GestureProfile): number {
+  const center = (profile.rollMin + profile.rollMax) / 2;
+  const halfSpan = (profile.rollMax - profile.rollMin) / 2;
+  return Math.max(-1, Math.min(1, -(angle - center) / halfSpan));
 }
 
-function detectPinch(thumbTip: Landmark, indexTip: Landmark): boolean {
-  const distance = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
-  return distance < GESTURE_CONFIG.PINCH_DISTANCE_THRESHOLD;
+/** How near the camera the hand is, -1..1, from its size in the image */
+export function calculateDepth(landmarks: Landmark[]): number {
+  const wrist = landmarks[HAND_LANDMARK_INDICES.WRIST];
+  const knuckle = landmarks[HAND_LANDMARK_INDICES.MIDDLE_MCP];
+  const size = Math.hypot(knuckle.x - wrist.x, knuckle.y - wrist.y);
+  const growth = size / GESTURE_CONFIG.DEPTH_REFERENCE_SIZE - 1;
+  return Math.max(-1, Math.min(1, growth / GESTURE_CONFIG.DEPTH_RANGE));
 }
 
-export function processLandmarks(landmarks: Landmark[]): HandFrame {
-  const wrist = landmarks[HAND_LANDMARK_INDICES.WRIST];
-  const thumbTip = landmarks[HAND_LANDMARK_INDICES.THUMB_TIP];
-  const indexTip = landmarks[HAND_LANDMARK_INDICES.INDEX_TIP];
-  const middleTip = landmarks[HAND_LANDMARK_INDICES.MIDDLE_TIP];
-  const ringTip = landmarks[HAND_LANDMARK_INDICES.RING_TIP];
-  const pinkyTip = landmarks[HAND_LANDMARK_INDICES.PINKY_TIP];
+function extensionRatio(tip: Landmark, pip: Landmark, wrist: Landmark): number {
+  const dPip = distance3D(pip, wrist);
+  return dPip > 0 ? distance3D(tip, wrist) / dPip : 0;
+}
+
+// 0 = fully curled, 1 = fully extended
+function fingerExtension(ratio: number, profile: GestureProfile): number {
+  return clamp01(
+    (ratio - profile.extensionCurledRatio) /
+      (profile.extensionExtendedRatio - profile.extensionCurledRatio)
+  );
+}
+
+function pinchConfidence(distance: number, profile: GestureProfile): number {
+  return clamp01(
+    (profile.pinchReleaseRatio - distance) /
+      (profile.pinchReleaseRatio - profile.pinchContactRatio)
+  );
+}
+
+/**
+ * Measures the hand in 3D, preferring MediaPipe's metric world landmarks
+ * (which don't foreshorten with distance or palm angle) and falling back to
+ * the normalized image landmarks with their relative depth.
+ */
+export function measureHandPose(
+  landmarks: Landmark[],
+  worldLandmarks?: Landmark[]
+): HandPoseMeasurement {
+  const points = worldLandmarks?.length ? worldLandmarks : landmarks;
+  const wrist = points[HAND_LANDMARK_INDICES.WRIST];
+  const thumbTip = points[HAND_LANDMARK_INDICES.THUMB_TIP];
+  const indexTip = points[HAND_LANDMARK_INDICES.INDEX_TIP];
+  const middleTip = points[HAND_LANDMARK_INDICES.MIDDLE_TIP];
+  const ringTip = points[HAND_LANDMARK_INDICES.RING_TIP];
+  const pinkyTip = points[HAND_LANDMARK_INDICES.PINKY_TIP];
+  const handSize = distance3D(wrist, points[HAND_LANDMARK_INDICES.MIDDLE_MCP]);
+
+  return {
+    pinchDistance: handSize > 0 ? distance3D(thumbTip, indexTip) / handSize : Infinity,
+    fingerRatios: [
+      extensionRatio(indexTip, points[HAND_LANDMARK_INDICES.INDEX_PIP], wrist),
+      extensionRatio(middleTip, points[HAND_LANDMARK_INDICES.MIDDLE_PIP], wrist),
+      extensionRatio(ringTip, points[HAND_LANDMARK_INDICES.RING_PIP], wrist),
+      extensionRatio(pinkyTip, points[HAND_LANDMARK_INDICES.PINKY_PIP], wrist),
+    ],
+    // Roll is a screen-space tilt, so it always uses the image landmarks
+    rollAngle: rollAngle(landmarks),
+  };
+}
+
+export function measureGestures(
+  measurement: HandPoseMeasurement,
+  profile: GestureProfile = DEFAULT_GESTURE_PROFILE
+): GestureConfidences {
+  const [indexExt, middleExt, ringExt, pinkyExt] = measurement.fingerRatios.map(
+    (ratio) => fingerExtension(ratio, profile)
+  );
+
+  return {
+    pinch: pinchConfidence(measurement.pinchDistance, profile),
+    fist: Math.min(1 - indexExt, 1 - middleExt, 1 - ringExt, 1 - pinkyExt),
+    peace: Math.min(indexExt, middleExt, 1 - pinkyExt),
+  };
+}
 
-  const indexExt = isFingerExtended(indexTip, landmarks[HAND_LANDMARK_INDICES.INDEX_PIP], wrist);
-  const middleExt = isFingerExtended(middleTip, landmarks[HAND_LANDMARK_INDICES.MIDDLE_PIP], wrist);
-  const ringExt = isFingerExtended(ringTip, landmarks[HAND_LANDMARK_INDICES.RING_PIP], wrist);
-  const pinkyExt = isFingerExtended(pinkyTip, landmarks[HAND_LANDMARK_INDICES.PINKY_PIP], wrist);
+export function processLandmarks(
+  hand: TrackedHand,
+  recognizer: GestureRecognizer,
+  timestampMs: number,
+  profile: GestureProfile = DEFAULT_GESTURE_PROFILE
+): HandFrame {
+  const wrist = hand.landmarks[HAND_LANDMARK_INDICES.WRIST];
+  const measurement = measureHandPose(hand.landmarks, hand.worldLandmarks);
 
   return {
+    handedness: hand.handedness,
     x: wrist.x,
     y: wrist.y,
-    roll: calculateRoll(landmarks),
-    pinch: detectPinch(thumbTip, indexTip),
-    fist: !indexExt && !middleExt && !ringExt && !pinkyExt,
-    peace: indexExt && middleExt && !pinkyExt,
+    roll: calculateRoll(measurement.rollAngle, profile),
+    depth: calculateDepth(hand.landmarks),
+    gestures: recognizer.update(measureGestures(measurement, profile), timestampMs),
   };
 }
@@ -0,0 +1,79 @@
+import { GESTURE_STATE_CONFIG } from '@/constants';
+import {
+  GestureName,
+  GestureState,
+  GestureStates,
+  GestureConfidences,
+} from '@/types';
+
+const GESTURE_NAMES: GestureName[] = ['pinch', 'fist', 'peace'];
+
+interface GestureTracker {
+  active: boolean;
+  pendingSince: number | null; // When confidence first crossed the opposite threshold
+}
+
+export interface GestureRecognizer {
+  update: (confidences: GestureConfidences, timestampMs: number) => GestureStates;
+  reset: () => void;
+}
+
+export function createIdleGestures(): GestureStates {
+  const idle = (): GestureState => ({ active: false, phase: 'idle', confidence: 0 });
+  return { pinch: idle(), fist: idle(), peace: idle() };
+}
+
+function createTrackers(): Record<GestureName, GestureTracker> {
+  const tracker = (): GestureTracker => ({ active: false, pendingSince: null });
+  return { pinch: tracker(), fist: tracker(), peace: tracker() };
+}
+
+function updateTracker(
+  tracker: GestureTracker,
+  name: GestureName,
+  confidence: number,
+  timestampMs: number
+): GestureState {
+  const config = GESTURE_STATE_CONFIG[name];
+  const crossing = tracker.active
+    ? confidence <= config.EXIT_CONFIDENCE
+    : confidence >= config.ENTER_CONFIDENCE;
+
+  if (!crossing) {
+    tracker.pendingSince = null;
+    return { active: tracker.active, phase: tracker.active ? 'hold' : 'idle', confidence };
+  }
+
+  if (tracker.pendingSince === null) tracker.pendingSince = timestampMs;
+  const minDuration = tracker.active ? config.MIN_EXIT_MS : config.MIN_ENTER_MS;
+
+  if (timestampMs - tracker.pendingSince < minDuration) {
+    return { active: tracker.active, phase: tracker.active ? 'hold' : 'idle', confidence };
+  }
+
+  tracker.active = !tracker.active;
+  tracker.pendingSince = null;
+  return { active: tracker.active, phase: tracker.active ? 'start' : 'end', confidence };
+}
+
+/**
+ * Turns noisy per-frame confidences into stable gesture states using
+ * separate enter/exit thresholds and minimum hold durations.
+ */
+export function createGestureRecognizer(): GestureRecognizer {
+  let trackers = createTrackers();
+
+  const update = (confidences: GestureConfidences, timestampMs: number): GestureStates => {
+    const states = createIdleGestures();
+    for (const name of GESTURE_NAMES) {
+      states[name] = updateTracker(trackers[name], name, confidences[name], timestampMs);
+    }
+    return states;
+  };
+
+  const reset = (): void => {
+    trackers = createTrackers();
+  };
+
+  return { update, reset };
+}
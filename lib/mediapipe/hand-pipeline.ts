@@ -0,0 +1,113 @@
+import { DEFAULT_FILTER_SETTINGS, DEFAULT_GESTURE_PROFILE } from '@/constants';
+import {
+  GestureProfile,
+  HandFrame,
+  Handedness,
+  LandmarkFilterSettings,
+  MotionGestureName,
+} from '@/types';
+import { processLandmarks } from './gesture-detection';
+import { createGestureRecognizer } from './gesture-recognizer';
+import { createHandIdentityTracker, HandDetection, TrackedHand } from './hand-tracking';
+import { createLandmarkFilter } from './landmark-filters';
+import { createMotionGestureRecognizer, isPosing } from './motion-gestures';
+
+export interface HandUpdate {
+  frame: HandFrame;
+  motion: MotionGestureName | null;
+}
+
+export interface HandPipeline {
+  /** Identifies and smooths this video frame's hands, forgetting any that were lost */
+  track: (
+    detections: HandDetection[],
+    timestampMs: number
+  ) => { hands: TrackedHand[]; lost: Handedness[] };
+  process: (hands: TrackedHand[], timestampMs: number, profile?: GestureProfile) => HandUpdate[];
+  getFrames: () => HandFrame[];
+  clearFrames: () => void;
+  /** Swaps the landmark smoothing; tracked hands start smoothing afresh */
+  setFilterSettings: (settings: LandmarkFilterSettings) => void;
+  reset: () => void;
+}
+
+/**
+ * Everything between MediaPipe's raw detections and HandFrames. Given the
+ * same detections and timestamps it produces the same frames, which is what
+ * makes recorded sessions replayable.
+ */
+export function createHandPipeline(
+  filterSettings: LandmarkFilterSettings = DEFAULT_FILTER_SETTINGS
+): HandPipeline {
+  const tracker = createHandIdentityTracker();
+  const recognizers = { left: createGestureRecognizer(), right: createGestureRecognizer() };
+  const createFilters = (settings: LandmarkFilterSettings) => ({
+    left: createLandmarkFilter(settings),
+    right: createLandmarkFilter(settings),
+  });
+  let filters = createFilters(filterSettings);
+  const motionRecognizers = {
+    left: createMotionGestureRecognizer(),
+    right: createMotionGestureRecognizer(),
+  };
+  let frames: Partial<Record<Handedness, HandFrame>> = {};
+
+  const forget = (handedness: Handedness): void => {
+    recognizers[handedness].reset();
+    filters[handedness].reset();
+    motionRecognizers[handedness].reset();
+    delete frames[handedness];
+  };
+
+  const track = (detections: HandDetection[], timestampMs: number) => {
+    const hands = tracker.assign(detections, timestampMs).map((hand) => ({
+      ...hand,
+      landmarks: filters[hand.handedness].apply(hand.landmarks, timestampMs),
+    }));
+    const lost = tracker.pruneLost(timestampMs);
+    lost.forEach(forget);
+    return { hands, lost };
+  };
+
+  const process = (
+    hands: TrackedHand[],
+    timestampMs: number,
+    profile: GestureProfile = DEFAULT_GESTURE_PROFILE
+  ): HandUpdate[] => {
+    const handFrames = hands.map((hand) =>
+      processLandmarks(hand, recognizers[hand.handedness], timestampMs, profile)
+    );
+    // While either hand pinches, grips or rakes, the other's movement is part of
+    // that interaction (steadying, rotating, carrying), not a motion gesture
+    const interacting = handFrames.some(isPosing);
+
+    return hands.map((hand, i) => {
+      const frame = handFrames[i];
+      const motion = motionRecognizers[hand.handedness].update(
+        frame,
+        hand.landmarks,
+        timestampMs,
+        interacting
+      );
+      frames[hand.handedness] = frame;
+      return { frame, motion };
+    });
+  };
+
+  const getFrames = (): HandFrame[] => Object.values(frames);
+
+  const clearFrames = (): void => {
+    frames = {};
+  };
+
+  const setFilterSettings = (settings: LandmarkFilterSettings): void => {
+    filters = createFilters(settings);
+  };
+
+  const reset = (): void => {
+    tracker.reset();
+    (['left', 'right'] as Handedness[]).forEach(forget);
+  };
+
+  return { track, process, getFrames, clearFrames, setFilterSettings, reset };
+}
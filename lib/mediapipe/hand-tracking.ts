@@ -0,0 +1,109 @@
+import { MEDIAPIPE_CONFIG, HAND_TRACKING_CONFIG, HAND_LANDMARK_INDICES } from '@/constants';
+import { Handedness, Landmark } from '@/types';
+
+const HANDEDNESS: Handedness[] = ['left', 'right'];
+
+export interface HandDetection {
+  landmarks: Landmark[];
+  worldLandmarks?: Landmark[]; // Metric, hand-centered 3D landmarks
+  handedness: Handedness; // Label reported by MediaPipe
+  score: number;          // 0..1 (Label confidence)
+}
+
+export interface TrackedHand {
+  handedness: Handedness; // Stable identity
+  landmarks: Landmark[];
+  worldLandmarks?: Landmark[];
+}
+
+interface HandSlot {
+  lastSeen: number;
+  wrist: Landmark | null;
+}
+
+export interface HandIdentityTracker {
+  assign: (detections: HandDetection[], timestampMs: number) => TrackedHand[];
+  pruneLost: (timestampMs: number) => Handedness[];
+  reset: () => void;
+}
+
+export function toHandedness(categoryName: string | undefined): Handedness {
+  const isLeft = categoryName === 'Left';
+  return isLeft !== MEDIAPIPE_CONFIG.MIRROR_HANDEDNESS ? 'left' : 'right';
+}
+
+function createSlots(): Record<Handedness, HandSlot> {
+  return {
+    left: { lastSeen: 0, wrist: null },
+    right: { lastSeen: 0, wrist: null },
+  };
+}
+
+function assignmentCost(detection: HandDetection, slot: HandSlot, handedness: Handedness): number {
+  const wrist = detection.landmarks[HAND_LANDMARK_INDICES.WRIST];
+  const positionCost = slot.wrist
+    ? Math.hypot(wrist.x - slot.wrist.x, wrist.y - slot.wrist.y)
+    : HAND_TRACKING_CONFIG.UNSEEN_SLOT_COST;
+  const labelCost = detection.handedness === handedness
+    ? 0
+    : HAND_TRACKING_CONFIG.LABEL_MISMATCH_COST * detection.score;
+  return positionCost + labelCost;
+}
+
+/**
+ * Keeps hand identities stable across frames. MediaPipe's handedness label
+ * can flicker (especially when hands cross), so detections are matched to the
+ * previously tracked hands by wrist proximity, with the label as a tiebreaker.
+ */
+export function createHandIdentityTracker(): HandIdentityTracker {
+  let slots = createSlots();
+
+  const assign = (detections: HandDetection[], timestampMs: number): TrackedHand[] => {
+    const candidates = detections.slice(0, HANDEDNESS.length);
+    if (candidates.length === 0) return [];
+
+    // Try every detection -> slot permutation and keep the cheapest
+    const orders: Handedness[][] =
+      candidates.length === 1 ? [['left'], ['right']] : [['left', 'right'], ['right', 'left']];
+
+    let bestOrder = orders[0];
+    let bestCost = Infinity;
+    for (const order of orders) {
+      const cost = candidates.reduce(
+        (sum, detection, i) => sum + assignmentCost(detection, slots[order[i]], order[i]),
+        0
+      );
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestOrder = order;
+      }
+    }
+
+    return candidates.map((detection, i) => {
+      const handedness = bestOrder[i];
+      slots[handedness] = {
+        lastSeen: timestampMs,
+        wrist: detection.landmarks[HAND_LANDMARK_INDICES.WRIST],
+      };
+      return { handedness, landmarks: detection.landmarks, worldLandmarks: detection.worldLandmarks };
+    });
+  };
+
+  const pruneLost = (timestampMs: number): Handedness[] => {
+    const lost = HANDEDNESS.filter(
+      (handedness) =>
+        slots[handedness].wrist !== null &&
+        timestampMs - slots[handedness].lastSeen > HAND_TRACKING_CONFIG.LOST_TIMEOUT_MS
+    );
+    lost.forEach((handedness) => {
+      slots[handedness] = { lastSeen: 0, wrist: null };
+    });
+    return lost;
+  };
+
+  const reset = (): void => {
+    slots = createSlots();
+  };
+
+  return { assign, pruneLost, reset };
+}
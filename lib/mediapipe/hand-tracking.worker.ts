@@ -0,0 +1,178 @@
+import {
+  DrawingUtils,
+  HandLandmarker,
+  type HandLandmarkerResult,
+  type NormalizedLandmark,
+} from '@mediapipe/tasks-vision';
+import { DEFAULT_FILTER_SETTINGS, DRAWING_STYLES } from '@/constants';
+import type { Landmark, TrackingDelegate } from '@/types';
+import { createHandPipeline } from './hand-pipeline';
+import { HandDetection, toHandedness } from './hand-tracking';
+import { createHandLandmarker, type LoadedLandmarker } from './landmarker-loader';
+import type { TrackingWorkerRequest, TrackingWorkerResponse } from './tracking-worker-protocol';
+
+// MediaPipe loads its WASM glue with importScripts, which module workers
+// don't support. Synchronous XHR plus a global eval does the same job.
+(self as unknown as { importScripts: (...urls: string[]) => void }).importScripts = (...urls) => {
+  for (const url of urls) {
+    const request = new XMLHttpRequest();
+    request.open('GET', url, false);
+    request.send();
+    if (request.status !== 200) throw new Error(`Failed to load ${url} (HTTP ${request.status})`);
+    (0, eval)(request.responseText);
+  }
+};
+
+// Until the page sends the filter chosen in its settings, ahead of any frame
+const pipeline = createHandPipeline(DEFAULT_FILTER_SETTINGS);
+let loaded: LoadedLandmarker | null = null;
+let overlay: { canvas: OffscreenCanvas; context: OffscreenCanvasRenderingContext2D } | null = null;
+
+function post(message: TrackingWorkerResponse): void {
+  self.postMessage(message);
+}
+
+function drawLandmarks(hands: NormalizedLandmark[][]): void {
+  if (!overlay) return;
+  const { canvas, context } = overlay;
+  context.clearRect(0, 0, canvas.width, canvas.height);
+
+  const drawingUtils = new DrawingUtils(context);
+  for (const landmarks of hands) {
+    drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, {
+      color: DRAWING_STYLES.CONNECTOR_COLOR,
+      lineWidth: DRAWING_STYLES.CONNECTOR_WIDTH,
+    });
+    drawingUtils.drawLandmarks(landmarks, {
+      color: DRAWING_STYLES.LANDMARK_COLOR,
+      lineWidth: DRAWING_STYLES.LANDMARK_WIDTH,
+    });
+  }
+}
+
+async function init(canvas: OffscreenCanvas): Promise<void> {
+  const context = canvas.getContext('2d');
+  if (context) overlay = { canvas, context };
+
+  try {
+    loaded = await createHandLandmarker((status) => post({ type: 'status', status }));
+    post({ type: 'ready', delegate: loaded.delegate });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+// The old landmarker keeps tracking until its replacement is ready. The
+// replacement reuses the model and runtime the first one downloaded.
+async function switchDelegate(delegate: TrackingDelegate): Promise<void> {
+  if (!loaded) return; // Nothing is measured, so nothing asks to switch, before the first is ready
+  try {
+    const replacement = await loaded.recreate(delegate);
+    loaded.landmarker.close();
+    loaded = replacement;
+  } catch (error) {
+    console.warn(`Could not switch hand tracking to the ${delegate}:`, error);
+  }
+  post({ type: 'delegate', delegate: loaded.delegate });
+}
+
+/** A frame with no hands in it, for when there is nothing to track or detection failed */
+function postEmptyResult(timestampMs: number): void {
+  post({
+    type: 'result',
+    timestampMs,
+    inferenceMs: null,
+    frames: [],
+    updated: [],
+    motions: [],
+    changed: false,
+  });
+}
+
+function processFrame(request: Extract<TrackingWorkerRequest, { type: 'frame' }>): void {
+  const { bitmap, timestampMs, profile, calibrating, recording } = request;
+  if (!loaded) {
+    bitmap.close();
+    postEmptyResult(timestampMs);
+    return;
+  }
+
+  // A single frame MediaPipe can't read (a bad timestamp, a lost GPU context
+  // it recovers from) is skipped; tracking carries on with the next one
+  const inferenceStart = performance.now();
+  let results: HandLandmarkerResult;
+  try {
+    results = loaded.landmarker.detectForVideo(bitmap, timestampMs);
+  } catch (error) {
+    console.warn('Hand detection failed for a frame:', error);
+    postEmptyResult(timestampMs);
+    return;
+  } finally {
+    bitmap.close();
+  }
+  const inferenceMs = performance.now() - inferenceStart;
+  drawLandmarks(results.landmarks ?? []);
+
+  const detections: HandDetection[] = (results.landmarks ?? []).map((landmarks, i) => ({
+    landmarks: landmarks as Landmark[],
+    worldLandmarks: results.worldLandmarks?.[i] as Landmark[] | undefined,
+    handedness: toHandedness(results.handedness?.[i]?.[0]?.categoryName),
+    score: results.handedness?.[i]?.[0]?.score ?? 0,
+  }));
+  const { hands, lost } = pipeline.track(detections, timestampMs);
+
+  // Calibration records the first hand and holds the garden still
+  if (calibrating) {
+    const hadFrames = pipeline.getFrames().length > 0;
+    pipeline.clearFrames();
+    post({
+      type: 'result',
+      timestampMs,
+      inferenceMs,
+      frames: [],
+      updated: [],
+      motions: [],
+      changed: hadFrames,
+      calibrationHand: hands[0],
+    });
+    return;
+  }
+
+  const updates = pipeline.process(hands, timestampMs, profile);
+  post({
+    type: 'result',
+    timestampMs,
+    inferenceMs,
+    frames: pipeline.getFrames(),
+    updated: updates.map(({ frame }) => frame),
+    motions: updates.flatMap(({ frame, motion }) =>
+      motion ? [{ handedness: frame.handedness, motion }] : []
+    ),
+    changed: hands.length > 0 || lost.length > 0,
+    detections: recording ? detections : undefined,
+  });
+}
+
+self.onmessage = (event: MessageEvent<TrackingWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'init') {
+    init(request.canvas);
+    return;
+  }
+  if (request.type === 'delegate') {
+    switchDelegate(request.delegate);
+    return;
+  }
+  if (request.type === 'filter') {
+    pipeline.setFilterSettings(request.settings);
+    return;
+  }
+  // Like a frame MediaPipe can't read, a frame the pipeline fails on is
+  // dropped; 'error' is kept for hand tracking failing to start
+  try {
+    processFrame(request);
+  } catch (error) {
+    console.warn('Hand tracking failed for a frame:', error);
+    postEmptyResult(request.timestampMs);
+  }
+};
@@ -1 +1,70 @@
-export { processLandmarks } from './gesture-detection';
+export { processLandmarks, measureGestures, measureHandPose, calculateRoll, calculateDepth } from './gesture-detection';
+export { createGestureRecognizer, createIdleGestures } from './gesture-recognizer';
+export type { GestureRecognizer } from './gesture-recognizer';
+export { createHandIdentityTracker, toHandedness } from './hand-tracking';
+export type { HandDetection, TrackedHand, HandIdentityTracker } from './hand-tracking';
+export { deriveGestureProfile, createEmptySamples } from './calibration';
+export type { CalibrationSamples } from './calibration';
+export {
+  getStoredProfiles,
+  getServerProfiles,
+  subscribeProfiles,
+  getActiveProfile,
+  saveProfile,
+  deleteProfile,
+  setActiveProfile,
+} from './profile-storage';
+export type { StoredProfiles } from './profile-storage';
+export {
+  createLandmarkFilter,
+  createOneEuroFilter,
+  createKalmanFilter,
+  getLandmarkFilterSettings,
+  getServerLandmarkFilterSettings,
+  subscribeLandmarkFilterSettings,
+  selectLandmarkFilter,
+  updateLandmarkFilterSettings,
+} from './landmark-filters';
+export type { LandmarkFilter, ScalarFilter } from './landmark-filters';
+export { createMotionGestureRecognizer } from './motion-gestures';
+export type { MotionGestureRecognizer } from './motion-gestures';
+export {
+  POSE_ACTIONS,
+  BINDABLE_GESTURES,
+  SCREEN_REGION_NAMES,
+  MOTION_GESTURES,
+  GESTURE_ACTIONS,
+  isInRegion,
+  isGestureHeld,
+  isBindingActive,
+  bindingTransition,
+  resolveActions,
+  findBindingConflicts,
+  getGestureBindings,
+  getServerGestureBindings,
+  subscribeGestureBindings,
+  setPoseBinding,
+  setMotionBinding,
+  resetGestureBindings,
+} from './gesture-bindings';
+export type { BindingConflict } from './gesture-bindings';
+export { createHandPipeline } from './hand-pipeline';
+export type { HandPipeline, HandUpdate } from './hand-pipeline';
+export {
+  createSessionRecorder,
+  getRecordingDuration,
+  serializeRecording,
+  parseRecording,
+} from './session-recording';
+export type { RecordedFrame, LandmarkRecording, SessionRecorder } from './session-recording';
+export { createHandLandmarker, fetchWithProgress } from './landmarker-loader';
+export type { LoadingStatus, LoadedLandmarker } from './landmarker-loader';
+export { createPerformanceGovernor } from './performance-governor';
+export type { PerformanceGovernor, PerformanceSample } from './performance-governor';
+export { createTrackingWorker, isTrackingWorkerSupported } from './tracking-worker-client';
+export type { TrackingWorkerClient } from './tracking-worker-client';
+export type {
+  TrackingWorkerRequest,
+  TrackingWorkerResponse,
+  HandMotion,
+} from './tracking-worker-protocol';
@@ -0,0 +1,197 @@
+import { DEFAULT_FILTER_SETTINGS, FILTER_CONFIG, LANDMARK_FILTERS } from '@/constants';
+import {
+  Landmark,
+  LandmarkFilterKind,
+  LandmarkFilterParameter,
+  LandmarkFilterSettings,
+} from '@/types';
+import { createLocalStore } from '@/lib/storage';
+
+type OneEuroSettings = Extract<LandmarkFilterSettings, { kind: 'one-euro' }>;
+type KalmanSettings = Extract<LandmarkFilterSettings, { kind: 'kalman' }>;
+
+export interface ScalarFilter {
+  filter: (value: number, timestampMs: number) => number;
+  reset: () => void;
+}
+
+export interface LandmarkFilter {
+  apply: (landmarks: Landmark[], timestampMs: number) => Landmark[];
+  reset: () => void;
+}
+
+function smoothingFactor(cutoffHz: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff
+ * rises with speed, so slow motion is smoothed and fast motion isn't lagged.
+ */
+export function createOneEuroFilter(settings: OneEuroSettings): ScalarFilter {
+  let last: { value: number; derivative: number; timestampMs: number } | null = null;
+
+  const filter = (value: number, timestampMs: number): number => {
+    const dt = last ? (timestampMs - last.timestampMs) / 1000 : 0;
+    if (!last || dt <= 0 || dt * 1000 > FILTER_CONFIG.MAX_GAP_MS) {
+      last = { value, derivative: 0, timestampMs };
+      return value;
+    }
+
+    const rawDerivative = (value - last.value) / dt;
+    const alphaD = smoothingFactor(settings.derivativeCutoff, dt);
+    const derivative = last.derivative + alphaD * (rawDerivative - last.derivative);
+
+    const cutoff = settings.minCutoff + settings.beta * Math.abs(derivative);
+    const alpha = smoothingFactor(cutoff, dt);
+    const filtered = last.value + alpha * (value - last.value);
+
+    last = { value: filtered, derivative, timestampMs };
+    return filtered;
+  };
+
+  const reset = (): void => {
+    last = null;
+  };
+
+  return { filter, reset };
+}
+
+/**
+ * Constant-velocity Kalman filter over [position, velocity] with
+ * white-noise acceleration as the process model.
+ */
+export function createKalmanFilter(settings: KalmanSettings): ScalarFilter {
+  let state: {
+    position: number;
+    velocity: number;
+    p00: number; p01: number; p11: number; // Symmetric covariance
+    timestampMs: number;
+  } | null = null;
+
+  const filter = (value: number, timestampMs: number): number => {
+    const dt = state ? (timestampMs - state.timestampMs) / 1000 : 0;
+    if (!state || dt <= 0 || dt * 1000 > FILTER_CONFIG.MAX_GAP_MS) {
+      state = {
+        position: value,
+        velocity: 0,
+        p00: settings.measurementNoise,
+        p01: 0,
+        p11: settings.processNoise,
+        timestampMs,
+      };
+      return value;
+    }
+
+    // Predict
+    const q = settings.processNoise;
+    const position = state.position + state.velocity * dt;
+    const velocity = state.velocity;
+    const p00 = state.p00 + 2 * dt * state.p01 + dt * dt * state.p11 + (q * dt ** 4) / 4;
+    const p01 = state.p01 + dt * state.p11 + (q * dt ** 3) / 2;
+    const p11 = state.p11 + q * dt * dt;
+
+    // Update with the measured position
+    const innovation = value - position;
+    const s = p00 + settings.measurementNoise;
+    const k0 = p00 / s;
+    const k1 = p01 / s;
+
+    state = {
+      position: position + k0 * innovation,
+      velocity: velocity + k1 * innovation,
+      p00: (1 - k0) * p00,
+      p01: (1 - k0) * p01,
+      p11: p11 - k1 * p01,
+      timestampMs,
+    };
+    return state.position;
+  };
+
+  const reset = (): void => {
+    state = null;
+  };
+
+  return { filter, reset };
+}
+
+function createScalarFilter(settings: LandmarkFilterSettings): ScalarFilter | null {
+  switch (settings.kind) {
+    case 'one-euro':
+      return createOneEuroFilter(settings);
+    case 'kalman':
+      return createKalmanFilter(settings);
+    case 'none':
+      return null;
+  }
+}
+
+/**
+ * Smooths every coordinate of every landmark independently.
+ */
+export function createLandmarkFilter(settings: LandmarkFilterSettings): LandmarkFilter {
+  let filters: (ScalarFilter | null)[][] = [];
+
+  const filterAt = (index: number, axis: number): ScalarFilter | null => {
+    filters[index] ??= [];
+    if (filters[index][axis] === undefined) filters[index][axis] = createScalarFilter(settings);
+    return filters[index][axis];
+  };
+
+  const smooth = (index: number, axis: number, value: number, timestampMs: number): number =>
+    filterAt(index, axis)?.filter(value, timestampMs) ?? value;
+
+  const apply = (landmarks: Landmark[], timestampMs: number): Landmark[] =>
+    landmarks.map((landmark, i) => ({
+      x: smooth(i, 0, landmark.x, timestampMs),
+      y: smooth(i, 1, landmark.y, timestampMs),
+      ...(landmark.z !== undefined && { z: smooth(i, 2, landmark.z, timestampMs) }),
+    }));
+
+  const reset = (): void => {
+    filters = [];
+  };
+
+  return { apply, reset };
+}
+
+/** Stored settings for a known filter, with any missing or unusable parameter at its default */
+function parseLandmarkFilterSettings(raw: unknown): LandmarkFilterSettings {
+  const parsed = (raw ?? {}) as Record<string, unknown>;
+  const filter = LANDMARK_FILTERS.find(({ kind }) => kind === parsed.kind);
+  if (!filter) return DEFAULT_FILTER_SETTINGS;
+
+  const settings: Record<string, unknown> = { ...filter.defaults };
+  for (const key of Object.keys(filter.defaults)) {
+    const value = parsed[key];
+    if (key !== 'kind' && typeof value === 'number' && value > 0 && Number.isFinite(value)) {
+      settings[key] = value;
+    }
+  }
+  return settings as LandmarkFilterSettings;
+}
+
+const store = createLocalStore(
+  FILTER_CONFIG.STORAGE_KEY,
+  DEFAULT_FILTER_SETTINGS,
+  parseLandmarkFilterSettings
+);
+
+export const getLandmarkFilterSettings = store.get;
+export const getServerLandmarkFilterSettings = store.getServer;
+export const subscribeLandmarkFilterSettings = store.subscribe;
+
+/** Switches to another filter, starting from its default parameters */
+export function selectLandmarkFilter(kind: LandmarkFilterKind): void {
+  if (kind === getLandmarkFilterSettings().kind) return;
+  const filter = LANDMARK_FILTERS.find((candidate) => candidate.kind === kind);
+  if (filter) store.set(filter.defaults);
+}
+
+/** Tunes the current filter; parameters must be positive */
+export function updateLandmarkFilterSettings(
+  changes: Partial<Record<LandmarkFilterParameter, number>>
+): void {
+  store.set(parseLandmarkFilterSettings({ ...getLandmarkFilterSettings(), ...changes }));
+}
@@ -0,0 +1,131 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { MEDIAPIPE_CONFIG, MEDIAPIPE_ASSET_SOURCES } from '@/constants';
+import { HandTrackingStatus, MediaPipeAssetSource, TrackingDelegate } from '@/types';
+
+export type LoadingStatus = Extract<HandTrackingStatus, { stage: 'loading' }>;
+
+// Not exported by the package
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+export interface LoadedLandmarker {
+  landmarker: HandLandmarker;
+  delegate: TrackingDelegate; // The GPU may have been unavailable
+  /** Another landmarker from the same model and runtime, without downloading either again */
+  recreate: (delegate: TrackingDelegate) => Promise<LoadedLandmarker>;
+}
+
+interface AssetManifest {
+  version: string;
+  model: { file: string; bytes: number } | null;
+}
+
+/** Downloads a file, reporting 0..1 progress when the size is known */
+export async function fetchWithProgress(
+  url: string,
+  onProgress: (progress: number | null) => void
+): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} returned HTTP ${response.status}`);
+
+  const total = Number(response.headers.get('Content-Length')) || null;
+  if (!response.body) return new Uint8Array(await response.arrayBuffer());
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress(total ? Math.min(1, loaded / total) : null);
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/** Throws unless the source was built from the MediaPipe version this app expects */
+async function checkVersion(manifestUrl: string): Promise<void> {
+  const response = await fetch(manifestUrl);
+  if (!response.ok) throw new Error(`no asset manifest (HTTP ${response.status})`);
+
+  const manifest = (await response.json()) as AssetManifest;
+  if (manifest.version !== MEDIAPIPE_CONFIG.VERSION) {
+    throw new Error(`assets are MediaPipe ${manifest.version}, expected ${MEDIAPIPE_CONFIG.VERSION}`);
+  }
+  if (!manifest.model) throw new Error('hand model was not bundled');
+}
+
+async function loadFromSource(
+  source: MediaPipeAssetSource,
+  onStatus: (status: LoadingStatus) => void,
+  delegate: TrackingDelegate
+): Promise<LoadedLandmarker> {
+  const report = (step: LoadingStatus['step'], progress: number | null = null) =>
+    onStatus({ stage: 'loading', source: source.name, step, progress });
+
+  if (source.manifestUrl) {
+    report('version');
+    await checkVersion(source.manifestUrl);
+  }
+
+  report('model', 0);
+  const model = await fetchWithProgress(source.modelUrl, (progress) => report('model', progress));
+
+  report('runtime');
+  const vision = await FilesetResolver.forVisionTasks(source.wasmPath);
+  return createFromAssets(vision, model, delegate);
+}
+
+/** A GPU that fails to initialize is retried on the CPU */
+async function createFromAssets(
+  vision: WasmFileset,
+  model: Uint8Array,
+  delegate: TrackingDelegate
+): Promise<LoadedLandmarker> {
+  const recreate = (next: TrackingDelegate) => createFromAssets(vision, model, next);
+  const create = (delegate: TrackingDelegate) =>
+    HandLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetBuffer: model, delegate },
+      runningMode: MEDIAPIPE_CONFIG.RUNNING_MODE,
+      numHands: MEDIAPIPE_CONFIG.NUM_HANDS,
+    });
+
+  if (delegate === 'CPU') return { landmarker: await create('CPU'), delegate, recreate };
+  try {
+    return { landmarker: await create('GPU'), delegate, recreate };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`GPU delegate failed, using the CPU: ${reason}`);
+    return { landmarker: await create('CPU'), delegate: 'CPU', recreate };
+  }
+}
+
+/**
+ * Creates the HandLandmarker from the first asset source that works,
+ * falling through the chain on network, version or initialization errors.
+ * A GPU that fails to initialize is retried on the CPU before moving on.
+ */
+export async function createHandLandmarker(
+  onStatus: (status: LoadingStatus) => void,
+  sources: MediaPipeAssetSource[] = MEDIAPIPE_ASSET_SOURCES,
+  delegate: TrackingDelegate = MEDIAPIPE_CONFIG.DELEGATE
+): Promise<LoadedLandmarker> {
+  const failures: string[] = [];
+  for (const source of sources) {
+    try {
+      return await loadFromSource(source, onStatus, delegate);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`MediaPipe source "${source.name}" failed: ${reason}`);
+      failures.push(`${source.name}: ${reason}`);
+    }
+  }
+  throw new Error(`Hand tracking could not load (${failures.join('; ')})`);
+}
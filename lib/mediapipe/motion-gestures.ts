@@ -0,0 +1,186 @@
+import { MOTION_GESTURE_CONFIG, HAND_LANDMARK_INDICES } from '@/constants';
+import { HandFrame, Landmark, MotionGestureName } from '@/types';
+
+interface MotionSample {
+  x: number; // Palm center
+  y: number;
+  timestampMs: number;
+  frame: HandFrame;
+  landmarks: Landmark[];
+}
+
+export interface MotionGestureRecognizer {
+  /** `paused` while the other hand is interacting; the history is dropped as for this hand's own poses */
+  update: (
+    frame: HandFrame,
+    landmarks: Landmark[],
+    timestampMs: number,
+    paused?: boolean
+  ) => MotionGestureName | null;
+  reset: () => void;
+}
+
+function samplesSince(history: MotionSample[], timestampMs: number): MotionSample[] {
+  return history.filter((sample) => sample.timestampMs >= timestampMs);
+}
+
+function pathLength(samples: MotionSample[]): number {
+  let length = 0;
+  for (let i = 1; i < samples.length; i++) {
+    length += Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y);
+  }
+  return length;
+}
+
+function detectSwipe(samples: MotionSample[]): MotionGestureName | null {
+  if (samples.length < 2) return null;
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const dx = last.x - first.x;
+  const dy = last.y - first.y;
+  const distance = Math.hypot(dx, dy);
+
+  if (distance < MOTION_GESTURE_CONFIG.SWIPE_MIN_DISTANCE) return null;
+  if (distance / pathLength(samples) < MOTION_GESTURE_CONFIG.SWIPE_MIN_STRAIGHTNESS) return null;
+
+  if (Math.abs(dx) >= Math.abs(dy) * MOTION_GESTURE_CONFIG.SWIPE_AXIS_RATIO) {
+    return dx < 0 ? 'swipe-left' : 'swipe-right';
+  }
+  if (Math.abs(dy) >= Math.abs(dx) * MOTION_GESTURE_CONFIG.SWIPE_AXIS_RATIO) {
+    return dy < 0 ? 'swipe-up' : 'swipe-down';
+  }
+  return null;
+}
+
+function detectCircle(samples: MotionSample[]): MotionGestureName | null {
+  if (samples.length < 8) return null;
+
+  const cx = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+  const cy = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+  const radii = samples.map((s) => Math.hypot(s.x - cx, s.y - cy));
+  const meanRadius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+  if (meanRadius < MOTION_GESTURE_CONFIG.CIRCLE_MIN_RADIUS) return null;
+
+  const spread = (Math.max(...radii) - Math.min(...radii)) / meanRadius;
+  if (spread > MOTION_GESTURE_CONFIG.CIRCLE_MAX_RADIUS_SPREAD) return null;
+
+  // Accumulate the signed turn around the centroid
+  let turn = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const a0 = Math.atan2(samples[i - 1].y - cy, samples[i - 1].x - cx);
+    const a1 = Math.atan2(samples[i].y - cy, samples[i].x - cx);
+    turn += Math.atan2(Math.sin(a1 - a0), Math.cos(a1 - a0));
+  }
+
+  if (Math.abs(turn) < MOTION_GESTURE_CONFIG.CIRCLE_MIN_TURN) return null;
+  // Screen y points down, so a positive turn is clockwise on screen
+  return turn > 0 ? 'circle-cw' : 'circle-ccw';
+}
+
+/** Back-and-forth legs along one axis; none if any finished leg is long enough to be a swipe */
+function countShakeLegs(values: number[]): number {
+  const { SHAKE_MIN_LEG, SHAKE_MAX_LEG } = MOTION_GESTURE_CONFIG;
+  let legs = 0;
+  let direction = 0;
+  let legStart = values[0];
+  let extreme = values[0];
+  for (const value of values) {
+    if (direction !== 0 && (value - extreme) * direction > 0) {
+      extreme = value;
+    } else if (Math.abs(value - extreme) >= SHAKE_MIN_LEG) {
+      if (Math.abs(extreme - legStart) > SHAKE_MAX_LEG) return 0;
+      direction = Math.sign(value - extreme);
+      legStart = extreme;
+      extreme = value;
+      legs += 1;
+    }
+  }
+  return legs;
+}
+
+function detectShake(samples: MotionSample[]): MotionGestureName | null {
+  if (samples.length < MOTION_GESTURE_CONFIG.SHAKE_MIN_LEGS * 2) return null;
+  const xs = samples.map((s) => s.x);
+  const ys = samples.map((s) => s.y);
+  const spanX = Math.max(...xs) - Math.min(...xs);
+  const spanY = Math.max(...ys) - Math.min(...ys);
+
+  if (spanX >= spanY * MOTION_GESTURE_CONFIG.SWIPE_AXIS_RATIO) {
+    return countShakeLegs(xs) >= MOTION_GESTURE_CONFIG.SHAKE_MIN_LEGS ? 'shake-horizontal' : null;
+  }
+  if (spanY >= spanX * MOTION_GESTURE_CONFIG.SWIPE_AXIS_RATIO) {
+    return countShakeLegs(ys) >= MOTION_GESTURE_CONFIG.SHAKE_MIN_LEGS ? 'shake-vertical' : null;
+  }
+  return null;
+}
+
+function isStill(samples: MotionSample[]): boolean {
+  const last = samples[samples.length - 1];
+  return samples.every(
+    (s) => Math.hypot(s.x - last.x, s.y - last.y) <= MOTION_GESTURE_CONFIG.DWELL_RADIUS
+  );
+}
+
+/** Whether the hand holds a pose (pinch, fist, rake) that interacts with the garden */
+export function isPosing(frame: HandFrame): boolean {
+  const { pinch, fist, peace } = frame.gestures;
+  return pinch.active || fist.active || peace.active;
+}
+
+/**
+ * Recognizes swipes, shakes, circles and dwell from a rolling history of one hand.
+ * Any active pose (pinch, fist, rake) clears the history, so motion made
+ * while interacting never fires.
+ */
+export function createMotionGestureRecognizer(): MotionGestureRecognizer {
+  let history: MotionSample[] = [];
+  let cooldownUntil = 0;
+  let dwellArmed = true;
+
+  const update = (
+    frame: HandFrame,
+    landmarks: Landmark[],
+    timestampMs: number,
+    paused = false
+  ): MotionGestureName | null => {
+    if (paused || isPosing(frame)) {
+      history = [];
+      return null;
+    }
+
+    const palm = landmarks[HAND_LANDMARK_INDICES.MIDDLE_MCP];
+    history.push({ x: palm.x, y: palm.y, timestampMs, frame, landmarks });
+    history = samplesSince(history, timestampMs - MOTION_GESTURE_CONFIG.HISTORY_MS);
+
+    const dwellSamples = samplesSince(history, timestampMs - MOTION_GESTURE_CONFIG.DWELL_MS);
+    const isDwelling =
+      history[0].timestampMs <= timestampMs - MOTION_GESTURE_CONFIG.DWELL_MS &&
+      isStill(dwellSamples);
+    if (!isStill(samplesSince(history, timestampMs - MOTION_GESTURE_CONFIG.SWIPE_WINDOW_MS))) {
+      dwellArmed = true;
+    }
+
+    if (timestampMs < cooldownUntil) return null;
+
+    const gesture =
+      detectSwipe(samplesSince(history, timestampMs - MOTION_GESTURE_CONFIG.SWIPE_WINDOW_MS)) ??
+      detectShake(samplesSince(history, timestampMs - MOTION_GESTURE_CONFIG.SHAKE_WINDOW_MS)) ??
+      detectCircle(samplesSince(history, timestampMs - MOTION_GESTURE_CONFIG.CIRCLE_WINDOW_MS)) ??
+      (isDwelling && dwellArmed ? 'dwell' : null);
+
+    if (gesture) {
+      history = [];
+      cooldownUntil = timestampMs + MOTION_GESTURE_CONFIG.COOLDOWN_MS;
+      if (gesture === 'dwell') dwellArmed = false;
+    }
+    return gesture;
+  };
+
+  const reset = (): void => {
+    history = [];
+    cooldownUntil = 0;
+    dwellArmed = true;
+  };
+
+  return { update, reset };
+}
@@ -0,0 +1,113 @@
+import { MEDIAPIPE_CONFIG, TRACKING_PERFORMANCE_CONFIG } from '@/constants';
+import {
+  TrackingDelegate,
+  TrackingPerformanceSettings,
+  TrackingPerformanceStats,
+} from '@/types';
+
+export interface PerformanceSample {
+  inferenceMs: number;
+  frameMs: number;
+}
+
+export interface PerformanceGovernor {
+  /** Records one detection; returns the new settings when they change */
+  record: (sample: PerformanceSample, timestampMs: number) => TrackingPerformanceSettings | null;
+  /** Adopts the delegate the landmarker actually runs on */
+  setDelegate: (delegate: TrackingDelegate) => void;
+  getSettings: () => TrackingPerformanceSettings;
+  getStats: () => TrackingPerformanceStats;
+  reset: () => void;
+}
+
+const { TIERS } = TRACKING_PERFORMANCE_CONFIG;
+
+function settingsFor(tier: number, delegate: TrackingDelegate): TrackingPerformanceSettings {
+  return {
+    delegate,
+    tier,
+    detectionIntervalMs: TIERS[tier].DETECTION_INTERVAL_MS,
+    inputScale: TIERS[tier].INPUT_SCALE,
+  };
+}
+
+function smooth(average: number | null, value: number): number {
+  return average === null
+    ? value
+    : average + (value - average) * TRACKING_PERFORMANCE_CONFIG.SMOOTHING;
+}
+
+/**
+ * Trades tracking quality for frame time. After each change it watches a
+ * window of detections, then lowers the detection rate and input size while
+ * frames run over budget and raises them again once there is headroom. When
+ * the GPU is still over budget at the lowest quality, it asks (once) for the
+ * CPU, starting again from full quality.
+ */
+export function createPerformanceGovernor(
+  delegate: TrackingDelegate = MEDIAPIPE_CONFIG.DELEGATE
+): PerformanceGovernor {
+  let settings = settingsFor(0, delegate);
+  let inferenceMs: number | null = null;
+  let frameMs: number | null = null;
+  let intervalMs: number | null = null;
+  let lastTimestamp: number | null = null;
+  let samples = 0;
+  let triedCpu = delegate === 'CPU';
+
+  const change = (next: TrackingPerformanceSettings): TrackingPerformanceSettings => {
+    settings = next;
+    samples = 0;
+    // Timings from the old settings say nothing about the new ones
+    inferenceMs = null;
+    frameMs = null;
+    return settings;
+  };
+
+  const record = (
+    sample: PerformanceSample,
+    timestampMs: number
+  ): TrackingPerformanceSettings | null => {
+    inferenceMs = smooth(inferenceMs, sample.inferenceMs);
+    frameMs = smooth(frameMs, sample.frameMs);
+    if (lastTimestamp !== null) intervalMs = smooth(intervalMs, timestampMs - lastTimestamp);
+    lastTimestamp = timestampMs;
+
+    samples += 1;
+    if (samples < TRACKING_PERFORMANCE_CONFIG.SAMPLE_WINDOW) return null;
+
+    const { FRAME_BUDGET_MS, HEADROOM_RATIO } = TRACKING_PERFORMANCE_CONFIG;
+    if (frameMs > FRAME_BUDGET_MS) {
+      if (settings.tier < TIERS.length - 1) return change(settingsFor(settings.tier + 1, settings.delegate));
+      if (settings.delegate === 'GPU' && !triedCpu) {
+        triedCpu = true;
+        return change(settingsFor(0, 'CPU'));
+      }
+    } else if (frameMs < FRAME_BUDGET_MS * HEADROOM_RATIO && settings.tier > 0) {
+      return change(settingsFor(settings.tier - 1, settings.delegate));
+    }
+    return null;
+  };
+
+  const setDelegate = (next: TrackingDelegate): void => {
+    if (next !== settings.delegate) change(settingsFor(0, next));
+  };
+
+  const getStats = (): TrackingPerformanceStats => ({
+    inferenceMs: inferenceMs ?? 0,
+    frameMs: frameMs ?? 0,
+    detectionRate: intervalMs ? 1000 / intervalMs : 0,
+  });
+
+  const reset = (): void => {
+    settings = settingsFor(0, delegate);
+    inferenceMs = null;
+    frameMs = null;
+    intervalMs = null;
+    lastTimestamp = null;
+    samples = 0;
+    triedCpu = delegate === 'CPU';
+  };
+
+  return { record, setDelegate, getSettings: () => settings, getStats, reset };
+}
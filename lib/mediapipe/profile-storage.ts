@@ -0,0 +1,105 @@
+import { CALIBRATION_CONFIG, DEFAULT_GESTURE_PROFILE } from '@/constants';
+import { GestureProfile } from '@/types';
+import { createLocalStore } from '@/lib/storage';
+
+export interface StoredProfiles {
+  version: number;
+  profiles: GestureProfile[];
+  activeName: string | null; // null = default profile
+  outdated: string[]; // Profiles carried over from an older version, to calibrate again
+}
+
+const { PROFILE_VERSION } = CALIBRATION_CONFIG;
+
+const EMPTY_PROFILES: StoredProfiles = {
+  version: PROFILE_VERSION,
+  profiles: [],
+  activeName: null,
+  outdated: [],
+};
+
+function isGestureProfile(value: unknown): value is GestureProfile {
+  if (!value || typeof value !== 'object') return false;
+  const profile = value as Record<string, unknown>;
+  return (
+    typeof profile.name === 'string' &&
+    Object.keys(DEFAULT_GESTURE_PROFILE)
+      .filter((key) => key !== 'name')
+      .every((key) => typeof profile[key] === 'number' && Number.isFinite(profile[key]))
+  );
+}
+
+/**
+ * Version 1 measured pinches in image widths and finger extension in 2D, so
+ * those thresholds can't be carried over; the roll range still holds. The
+ * profile keeps working on the default thresholds until it is calibrated again.
+ */
+function migrateProfile(value: unknown): unknown {
+  if (!value || typeof value !== 'object') return value;
+  const { name, rollMin, rollMax } = value as Record<string, unknown>;
+  return { ...DEFAULT_GESTURE_PROFILE, name, rollMin, rollMax };
+}
+
+function parseProfiles(raw: unknown): StoredProfiles {
+  const parsed = (raw ?? {}) as Partial<StoredProfiles>;
+  const saved: unknown[] = Array.isArray(parsed.profiles) ? parsed.profiles : [];
+  // Saves from before the version field are version 1, though profiles
+  // calibrated since the measurement changed already have the new thresholds
+  const migrating = (parsed.version ?? 1) < PROFILE_VERSION;
+  const profiles: GestureProfile[] = [];
+  const outdated: string[] = migrating || !Array.isArray(parsed.outdated) ? [] : parsed.outdated;
+
+  for (const value of saved) {
+    const profile = migrating && !isGestureProfile(value) ? migrateProfile(value) : value;
+    if (!isGestureProfile(profile)) continue;
+    profiles.push(profile);
+    if (profile !== value) outdated.push(profile.name);
+  }
+
+  const names = profiles.map((p) => p.name);
+  const activeName = names.includes(parsed.activeName as string)
+    ? (parsed.activeName as string)
+    : null;
+  return {
+    version: PROFILE_VERSION,
+    profiles,
+    activeName,
+    outdated: outdated.filter((name) => names.includes(name)),
+  };
+}
+
+const store = createLocalStore(CALIBRATION_CONFIG.STORAGE_KEY, EMPTY_PROFILES, parseProfiles);
+
+export const getStoredProfiles = store.get;
+export const getServerProfiles = store.getServer;
+export const subscribeProfiles = store.subscribe;
+
+export function getActiveProfile(): GestureProfile {
+  const { profiles, activeName } = getStoredProfiles();
+  return profiles.find((p) => p.name === activeName) ?? DEFAULT_GESTURE_PROFILE;
+}
+
+/** Saves (or replaces) a profile by name and makes it active */
+export function saveProfile(profile: GestureProfile): void {
+  const { profiles, outdated } = getStoredProfiles();
+  store.set({
+    version: PROFILE_VERSION,
+    profiles: [...profiles.filter((p) => p.name !== profile.name), profile],
+    activeName: profile.name,
+    outdated: outdated.filter((name) => name !== profile.name),
+  });
+}
+
+export function deleteProfile(name: string): void {
+  const { profiles, activeName, outdated } = getStoredProfiles();
+  store.set({
+    version: PROFILE_VERSION,
+    profiles: profiles.filter((p) => p.name !== name),
+    activeName: activeName === name ? null : activeName,
+    outdated: outdated.filter((outdatedName) => outdatedName !== name),
+  });
+}
+
+export function setActiveProfile(name: string | null): void {
+  store.set({ ...getStoredProfiles(), activeName: name });
+}
@@ -0,0 +1,75 @@
+import { RECORDING_CONFIG } from '@/constants';
+import { GestureProfile, HandFrame, LandmarkFilterSettings } from '@/types';
+import type { HandDetection } from './hand-tracking';
+
+export interface RecordedFrame {
+  timestampMs: number;
+  detections: HandDetection[]; // Raw, before identity tracking and smoothing
+  frames: HandFrame[];         // What the live pipeline produced
+}
+
+export interface LandmarkRecording {
+  version: number;
+  recordedAt: string; // ISO date
+  profile: GestureProfile;
+  filter: LandmarkFilterSettings;
+  frames: RecordedFrame[];
+}
+
+export interface SessionRecorder {
+  start: (profile: GestureProfile, filter: LandmarkFilterSettings) => void;
+  capture: (timestampMs: number, detections: HandDetection[], frames: HandFrame[]) => void;
+  stop: () => LandmarkRecording | null;
+  isRecording: () => boolean;
+}
+
+export function createSessionRecorder(): SessionRecorder {
+  let recording: LandmarkRecording | null = null;
+
+  const start = (profile: GestureProfile, filter: LandmarkFilterSettings): void => {
+    recording = {
+      version: RECORDING_CONFIG.VERSION,
+      recordedAt: new Date().toISOString(),
+      profile,
+      filter,
+      frames: [],
+    };
+  };
+
+  const capture = (timestampMs: number, detections: HandDetection[], frames: HandFrame[]): void => {
+    recording?.frames.push({ timestampMs, detections, frames });
+  };
+
+  const stop = (): LandmarkRecording | null => {
+    const finished = recording;
+    recording = null;
+    return finished;
+  };
+
+  const isRecording = (): boolean => recording !== null;
+
+  return { start, capture, stop, isRecording };
+}
+
+export function getRecordingDuration(recording: LandmarkRecording): number {
+  const { frames } = recording;
+  return frames.length > 1 ? frames[frames.length - 1].timestampMs - frames[0].timestampMs : 0;
+}
+
+export function serializeRecording(recording: LandmarkRecording): string {
+  return JSON.stringify(recording);
+}
+
+/** Throws if the file isn't a recording this version can replay */
+export function parseRecording(json: string): LandmarkRecording {
+  const parsed = JSON.parse(json) as Partial<LandmarkRecording>;
+  if (parsed.version !== RECORDING_CONFIG.VERSION) {
+    throw new Error(
+      `Unsupported recording version ${parsed.version} (expected ${RECORDING_CONFIG.VERSION})`
+    );
+  }
+  if (!Array.isArray(parsed.frames) || !parsed.profile || !parsed.filter) {
+    throw new Error('Recording is missing frames, profile or filter settings');
+  }
+  return parsed as LandmarkRecording;
+}
@@ -0,0 +1,100 @@
+import type { LandmarkFilterSettings, TrackingDelegate } from '@/types';
+import type { TrackingWorkerRequest, TrackingWorkerResponse } from './tracking-worker-protocol';
+
+type FrameSettings = Omit<Extract<TrackingWorkerRequest, { type: 'frame' }>, 'type' | 'bitmap' | 'timestampMs'>;
+
+export interface TrackingWorkerClient {
+  /**
+   * Sends a video frame, downscaled by `inputScale`, unless the previous
+   * one is still being processed
+   */
+  sendFrame: (
+    video: HTMLVideoElement,
+    timestampMs: number,
+    settings: FrameSettings,
+    inputScale?: number
+  ) => Promise<boolean>;
+  setDelegate: (delegate: TrackingDelegate) => void;
+  setFilterSettings: (settings: LandmarkFilterSettings) => void;
+  terminate: () => void;
+}
+
+export function isTrackingWorkerSupported(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype
+  );
+}
+
+/**
+ * Runs hand tracking off the main thread. At most one frame is in flight,
+ * so when inference is slow frames are skipped rather than queued and the
+ * main thread never waits on it.
+ */
+export function createTrackingWorker(
+  canvas: HTMLCanvasElement,
+  onMessage: (message: TrackingWorkerResponse) => void
+): TrackingWorkerClient {
+  const worker = new Worker(new URL('./hand-tracking.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+  let busy = false;
+
+  // Every frame is answered with a result, empty if processing it failed
+  worker.onmessage = (event: MessageEvent<TrackingWorkerResponse>) => {
+    if (event.data.type === 'result') busy = false;
+    onMessage(event.data);
+  };
+  worker.onerror = (event) => {
+    busy = false;
+    onMessage({ type: 'error', message: event.message || 'Hand tracking worker crashed' });
+  };
+
+  const offscreen = canvas.transferControlToOffscreen();
+  const init: TrackingWorkerRequest = { type: 'init', canvas: offscreen };
+  worker.postMessage(init, [offscreen]);
+
+  const sendFrame = async (
+    video: HTMLVideoElement,
+    timestampMs: number,
+    settings: FrameSettings,
+    inputScale = 1
+  ): Promise<boolean> => {
+    if (busy) return false;
+    busy = true;
+    try {
+      const bitmap = await createImageBitmap(
+        video,
+        inputScale < 1
+          ? {
+              resizeWidth: Math.round(video.videoWidth * inputScale),
+              resizeHeight: Math.round(video.videoHeight * inputScale),
+              resizeQuality: 'low',
+            }
+          : undefined
+      );
+      const request: TrackingWorkerRequest = { type: 'frame', bitmap, timestampMs, ...settings };
+      worker.postMessage(request, [bitmap]);
+      return true;
+    } catch (error) {
+      busy = false;
+      throw error;
+    }
+  };
+
+  const setDelegate = (delegate: TrackingDelegate): void => {
+    const request: TrackingWorkerRequest = { type: 'delegate', delegate };
+    worker.postMessage(request);
+  };
+
+  const setFilterSettings = (settings: LandmarkFilterSettings): void => {
+    const request: TrackingWorkerRequest = { type: 'filter', settings };
+    worker.postMessage(request);
+  };
+
+  const terminate = (): void => worker.terminate();
+
+  return { sendFrame, setDelegate, setFilterSettings, terminate };
+}
@@ -0,0 +1,47 @@
+import {
+  GestureProfile,
+  HandFrame,
+  Handedness,
+  LandmarkFilterSettings,
+  MotionGestureName,
+  TrackingDelegate,
+} from '@/types';
+import type { HandDetection, TrackedHand } from './hand-tracking';
+import type { LoadingStatus } from './landmarker-loader';
+
+/** Main thread -> tracking worker */
+export type TrackingWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | {
+      type: 'frame';
+      bitmap: ImageBitmap; // Transferred; the worker closes it
+      timestampMs: number;
+      profile: GestureProfile;
+      calibrating: boolean; // Report the first hand for calibration instead of frames
+      recording: boolean;   // Include raw detections for the session recorder
+    }
+  | { type: 'delegate'; delegate: TrackingDelegate } // Recreate the landmarker
+  | { type: 'filter'; settings: LandmarkFilterSettings }; // Swap the landmark smoothing
+
+export interface HandMotion {
+  handedness: Handedness;
+  motion: MotionGestureName;
+}
+
+/** Tracking worker -> main thread */
+export type TrackingWorkerResponse =
+  | { type: 'status'; status: LoadingStatus }
+  | { type: 'ready'; delegate: TrackingDelegate }
+  | { type: 'delegate'; delegate: TrackingDelegate } // Answers a delegate request with the one in use
+  | { type: 'error'; message: string } // Hand tracking couldn't start or the worker crashed
+  | {
+      type: 'result';
+      timestampMs: number;
+      inferenceMs: number | null; // detectForVideo latency; null before the model is ready
+      frames: HandFrame[];
+      updated: HandFrame[]; // Frames for hands seen in this video frame
+      motions: HandMotion[];
+      changed: boolean;     // A hand was seen or lost, so `frames` should be delivered
+      calibrationHand?: TrackedHand;
+      detections?: HandDetection[];
+    };
@@ -0,0 +1,52 @@
+export interface LocalStore<T> {
+  get: () => T;
+  getServer: () => T;
+  set: (next: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * A JSON value persisted in localStorage, shaped for useSyncExternalStore.
+ * `parse` validates whatever is stored and returns a usable value.
+ */
+export function createLocalStore<T>(
+  key: string,
+  fallback: T,
+  parse: (raw: unknown) => T
+): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  let cached: T | null = null;
+
+  const read = (): T => {
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? parse(JSON.parse(raw)) : fallback;
+    } catch (e) {
+      console.error(`Failed to read ${key}:`, e);
+      return fallback;
+    }
+  };
+
+  const get = (): T => {
+    if (typeof window === 'undefined') return fallback;
+    if (cached === null) cached = read();
+    return cached;
+  };
+
+  const set = (next: T): void => {
+    cached = next;
+    try {
+      window.localStorage.setItem(key, JSON.stringify(next));
+    } catch (e) {
+      console.error(`Failed to save ${key}:`, e);
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  };
+
+  return { get, getServer: () => fallback, set, subscribe };
+}
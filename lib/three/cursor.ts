@@ -4,6 +4,7 @@ import { CURSOR_CONFIG } from '@/constants';
 export interface CursorState {
   isPinching: boolean;
   isHoveringStone: boolean;
+  isSmoothing: boolean;
 }
 
 export function updateCursor(
@@ -20,7 +21,11 @@ export function updateCursor(
   const ringMat = ring.material as THREE.MeshBasicMaterial;
   const dotMat = dot.material as THREE.MeshBasicMaterial;
 
-  if (state.isPinching) {
+  if (state.isSmoothing) {
+    ringMat.color.setHex(CURSOR_CONFIG.COLOR_SMOOTH);
+    dotMat.color.setHex(CURSOR_CONFIG.COLOR_SMOOTH);
+    cursor.scale.setScalar(CURSOR_CONFIG.SCALE_SMOOTH);
+  } else if (state.isPinching) {
     ringMat.color.setHex(CURSOR_CONFIG.COLOR_GRAB);
     dotMat.color.setHex(CURSOR_CONFIG.COLOR_GRAB);
     cursor.scale.setScalar(CURSOR_CONFIG.SCALE_GRAB);
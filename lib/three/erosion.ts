@@ -0,0 +1,49 @@
+import { DEFAULT_EROSION_SETTINGS, EROSION_CONFIG, WIND_CONFIG } from '@/constants';
+import { ErosionSettings } from '@/types';
+import { createLocalStore } from '@/lib/storage';
+
+/**
+ * Wind strength (0..1) at a moment: a steady breeze plus gusts that rise
+ * and fall as two slow waves drift in and out of step
+ */
+export function windStrength(timeSeconds: number): number {
+  const [first, second] = WIND_CONFIG.GUST_PERIODS;
+  const waves =
+    (Math.sin((2 * Math.PI * timeSeconds) / first) + Math.sin((2 * Math.PI * timeSeconds) / second)) / 2;
+  return WIND_CONFIG.BASE_STRENGTH + (1 - WIND_CONFIG.BASE_STRENGTH) * Math.max(0, waves);
+}
+
+/**
+ * How much `seconds` of erosion in this wind blurs and flattens the sand.
+ * Erosion decays continuously, so one long step takes away as much as many
+ * short ones and never the whole garden at once.
+ */
+export function erosionStep(wind: number, seconds: number): { diffusion: number; settle: number } {
+  const { DIFFUSION_RATE, WIND_DIFFUSION_RATE, SETTLE_RATE, WIND_SETTLE_RATE } = EROSION_CONFIG;
+  return {
+    diffusion: 1 - Math.exp(-(DIFFUSION_RATE + WIND_DIFFUSION_RATE * wind) * seconds),
+    settle: 1 - Math.exp(-(SETTLE_RATE + WIND_SETTLE_RATE * wind) * seconds),
+  };
+}
+
+function parseErosionSettings(raw: unknown): ErosionSettings {
+  const parsed = (raw ?? {}) as Partial<ErosionSettings>;
+  return {
+    enabled:
+      typeof parsed.enabled === 'boolean' ? parsed.enabled : DEFAULT_EROSION_SETTINGS.enabled,
+  };
+}
+
+const store = createLocalStore(
+  EROSION_CONFIG.STORAGE_KEY,
+  DEFAULT_EROSION_SETTINGS,
+  parseErosionSettings
+);
+
+export const getErosionSettings = store.get;
+export const getServerErosionSettings = store.getServer;
+export const subscribeErosionSettings = store.subscribe;
+
+export function updateErosionSettings(changes: Partial<ErosionSettings>): void {
+  store.set({ ...getErosionSettings(), ...changes });
+}
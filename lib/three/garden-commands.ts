@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import {
+  ElementPlacement,
+  GardenCommand,
+  SandStroke,
+  SandSurface,
+  StoneMove,
+  StonePose,
+} from '@/types';
+import { gardenElementLabel } from './garden-elements';
+import { disposeObject } from './scene-setup';
+
+/** A copy of a stone's current pose */
+export function stonePose(stone: THREE.Object3D): StonePose {
+  return { position: stone.position.clone(), quaternion: stone.quaternion.clone() };
+}
+
+function setPose(stone: THREE.Object3D, { position, quaternion }: StonePose): void {
+  stone.position.copy(position);
+  stone.quaternion.copy(quaternion);
+}
+
+export function stoneMoveCommand({ stone, from, to }: StoneMove): GardenCommand {
+  return {
+    label: 'Move stone',
+    undo: () => setPose(stone, from),
+    redo: () => setPose(stone, to),
+  };
+}
+
+/** An element put into the garden; undoing takes it out again */
+export function addElementCommand(
+  garden: ElementPlacement,
+  element: THREE.Object3D
+): GardenCommand {
+  const pose = stonePose(element);
+  return {
+    label: `Add ${gardenElementLabel(element).toLowerCase()}`,
+    undo: () => garden.removeElement(element),
+    redo: () => {
+      setPose(element, pose);
+      garden.placeElement(element);
+    },
+    // Undone and no longer redoable, so it can't come back
+    forget: (state) => {
+      if (state === 'undone') disposeObject(element);
+    },
+  };
+}
+
+/** An element taken out of the garden; undoing puts it back where it was picked up */
+export function removeElementCommand(
+  garden: ElementPlacement,
+  element: THREE.Object3D,
+  from: StonePose
+): GardenCommand {
+  return {
+    label: `Remove ${gardenElementLabel(element).toLowerCase()}`,
+    undo: () => {
+      setPose(element, from);
+      garden.placeElement(element);
+    },
+    redo: () => garden.removeElement(element),
+    // Out of the garden with no undo left to put it back
+    forget: (state) => {
+      if (state === 'done') disposeObject(element);
+    },
+  };
+}
+
+/** A finished stroke; undoing it re-carves the sand without it */
+export function strokeCommand(sand: SandSurface, stroke: SandStroke): GardenCommand {
+  return {
+    label: stroke.toolId === 'smoother' ? 'Smooth sand' : 'Rake stroke',
+    undo: () => sand.setStrokes(sand.getStrokes().filter((other) => other !== stroke)),
+    redo: () => sand.setStrokes([...sand.getStrokes(), stroke]),
+  };
+}
@@ -0,0 +1,212 @@
+import * as THREE from 'three';
+import {
+  DEFAULT_ELEMENT_PALETTE_SETTINGS,
+  GARDEN_ELEMENT_CONFIG,
+  GARDEN_ELEMENTS,
+} from '@/constants';
+import { ElementPaletteSettings, GardenElementId } from '@/types';
+import { createLocalStore } from '@/lib/storage';
+import { createStone } from './garden-objects';
+
+const { LANTERN, MOSS, BRIDGE, FENCE, BASIN } = GARDEN_ELEMENT_CONFIG;
+
+function part(
+  geometry: THREE.BufferGeometry,
+  color: number,
+  options: THREE.MeshStandardMaterialParameters = {}
+): THREE.Mesh {
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color, ...options }));
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+  return mesh;
+}
+
+/** A stone lantern: base, post, lit firebox and a four-sided roof */
+function createLantern(): THREE.Group {
+  const { LIGHT_SIZE } = LANTERN;
+  const group = new THREE.Group();
+  const base = part(
+    new THREE.CylinderGeometry(LANTERN.BASE_RADIUS, LANTERN.BASE_RADIUS, LANTERN.BASE_HEIGHT, 6),
+    LANTERN.COLOR
+  );
+  base.position.y = LANTERN.BASE_HEIGHT / 2;
+
+  const post = part(
+    new THREE.CylinderGeometry(LANTERN.POST_RADIUS, LANTERN.POST_RADIUS, LANTERN.POST_HEIGHT, 6),
+    LANTERN.COLOR
+  );
+  post.position.y = LANTERN.BASE_HEIGHT + LANTERN.POST_HEIGHT / 2;
+
+  const light = part(
+    new THREE.BoxGeometry(LIGHT_SIZE, LIGHT_SIZE, LIGHT_SIZE),
+    LANTERN.COLOR
+  );
+  light.position.y = LANTERN.BASE_HEIGHT + LANTERN.POST_HEIGHT + LIGHT_SIZE / 2;
+  // Windows through the firebox, lit from within
+  const glow = new THREE.Mesh(
+    new THREE.BoxGeometry(LIGHT_SIZE * 1.01, LIGHT_SIZE * 0.5, LIGHT_SIZE * 0.6),
+    new THREE.MeshBasicMaterial({ color: LANTERN.LIGHT_COLOR })
+  );
+  light.add(glow);
+
+  const roof = part(
+    new THREE.ConeGeometry(LANTERN.ROOF_RADIUS, LANTERN.ROOF_HEIGHT, 4),
+    LANTERN.COLOR
+  );
+  roof.position.y = light.position.y + LIGHT_SIZE / 2 + LANTERN.ROOF_HEIGHT / 2;
+  roof.rotation.y = Math.PI / 4;
+
+  group.add(base, post, light, roof);
+  return group;
+}
+
+/** A low, soft mound of moss */
+function createMoss(): THREE.Mesh {
+  // The top half of a sphere, squashed flat
+  const moss = part(
+    new THREE.SphereGeometry(MOSS.RADIUS, 16, 6, 0, Math.PI * 2, 0, Math.PI / 2),
+    MOSS.COLOR,
+    { roughness: 1, flatShading: true }
+  );
+  moss.scale.y = MOSS.HEIGHT / MOSS.RADIUS;
+  return moss;
+}
+
+/** An arched footbridge of planks, its ends on the sand */
+function createBridge(): THREE.Group {
+  const group = new THREE.Group();
+  const plankLength = BRIDGE.LENGTH / BRIDGE.PLANKS;
+  for (let i = 0; i < BRIDGE.PLANKS; i++) {
+    // -1..1 along the bridge; the deck follows a parabola
+    const t = ((i + 0.5) / BRIDGE.PLANKS) * 2 - 1;
+    const plank = part(
+      new THREE.BoxGeometry(plankLength * 1.05, BRIDGE.PLANK_THICKNESS, BRIDGE.WIDTH),
+      BRIDGE.COLOR
+    );
+    plank.position.set(
+      (t * BRIDGE.LENGTH) / 2,
+      BRIDGE.RISE * (1 - t * t) + BRIDGE.PLANK_THICKNESS / 2,
+      0
+    );
+    // Tilted along the slope of the arch
+    plank.rotation.z = Math.atan((-2 * t * BRIDGE.RISE) / (BRIDGE.LENGTH / 2));
+    group.add(plank);
+  }
+  return group;
+}
+
+/** A bamboo fence of upright posts tied to horizontal rails */
+function createFence(): THREE.Group {
+  const group = new THREE.Group();
+  const pole = (length: number) =>
+    part(new THREE.CylinderGeometry(FENCE.POLE_RADIUS, FENCE.POLE_RADIUS, length, 8), FENCE.COLOR);
+
+  for (let i = 0; i < FENCE.POSTS; i++) {
+    const post = pole(FENCE.HEIGHT);
+    post.position.set((i / (FENCE.POSTS - 1) - 0.5) * FENCE.LENGTH, FENCE.HEIGHT / 2, 0);
+    group.add(post);
+  }
+  for (let i = 0; i < FENCE.RAILS; i++) {
+    const rail = pole(FENCE.LENGTH + FENCE.POLE_RADIUS * 4);
+    rail.rotation.z = Math.PI / 2;
+    rail.position.set(0, (FENCE.HEIGHT * (i + 1)) / (FENCE.RAILS + 1), FENCE.POLE_RADIUS * 2);
+    group.add(rail);
+  }
+  return group;
+}
+
+/** A stone water basin, filled to just below its rim */
+function createBasin(): THREE.Group {
+  const group = new THREE.Group();
+  const bowl = part(
+    new THREE.CylinderGeometry(BASIN.RADIUS, BASIN.RADIUS * 1.1, BASIN.HEIGHT, 12),
+    BASIN.COLOR,
+    { flatShading: true }
+  );
+  bowl.position.y = BASIN.HEIGHT / 2;
+
+  const water = part(new THREE.CircleGeometry(BASIN.WATER_RADIUS, 24), BASIN.WATER_COLOR, {
+    roughness: 0.1,
+    metalness: 0.3,
+  });
+  water.rotation.x = -Math.PI / 2;
+  water.position.y = BASIN.HEIGHT + 0.001;
+
+  group.add(bowl, water);
+  return group;
+}
+
+/**
+ * Builds a palette element, resting on the sand at the origin. Like the
+ * stones, every element can be picked up and carried. Stones are grown from
+ * `seed` when given, and from a new one otherwise.
+ */
+export function createGardenElement(id: GardenElementId, seed?: number): THREE.Object3D {
+  let element: THREE.Object3D;
+  switch (id) {
+    case 'small-stone':
+    case 'medium-stone':
+    case 'large-stone':
+      element = createStone(GARDEN_ELEMENT_CONFIG.STONE_SCALES[id], seed);
+      break;
+    case 'lantern':
+      element = createLantern();
+      break;
+    case 'moss':
+      element = createMoss();
+      break;
+    case 'bridge':
+      element = createBridge();
+      break;
+    case 'fence':
+      element = createFence();
+      break;
+    case 'basin':
+      element = createBasin();
+      break;
+  }
+  element.userData = { ...element.userData, isDraggable: true, elementId: id };
+  return element;
+}
+
+/** What the palette (and the history) calls an element; the starting stones are just stones */
+export function gardenElementLabel(element: THREE.Object3D): string {
+  const id = element.userData.elementId as GardenElementId | undefined;
+  return GARDEN_ELEMENTS.find((candidate) => candidate.id === id)?.label ?? 'Stone';
+}
+
+/** The element `step` places along the palette from `id`, wrapping around */
+export function cycleGardenElement(id: GardenElementId, step: number): GardenElementId {
+  const index = GARDEN_ELEMENTS.findIndex((element) => element.id === id);
+  const count = GARDEN_ELEMENTS.length;
+  return GARDEN_ELEMENTS[(((index + step) % count) + count) % count].id;
+}
+
+function parseElementPaletteSettings(raw: unknown): ElementPaletteSettings {
+  const parsed = (raw ?? {}) as Partial<ElementPaletteSettings>;
+  return {
+    elementId: GARDEN_ELEMENTS.some((element) => element.id === parsed.elementId)
+      ? (parsed.elementId as GardenElementId)
+      : DEFAULT_ELEMENT_PALETTE_SETTINGS.elementId,
+  };
+}
+
+const store = createLocalStore(
+  GARDEN_ELEMENT_CONFIG.STORAGE_KEY,
+  DEFAULT_ELEMENT_PALETTE_SETTINGS,
+  parseElementPaletteSettings
+);
+
+export const getElementPaletteSettings = store.get;
+export const getServerElementPaletteSettings = store.getServer;
+export const subscribeElementPaletteSettings = store.subscribe;
+
+export function updateElementPaletteSettings(changes: Partial<ElementPaletteSettings>): void {
+  store.set({ ...getElementPaletteSettings(), ...changes });
+}
+
+export function selectNextGardenElement(step: number): void {
+  updateElementPaletteSettings({
+    elementId: cycleGardenElement(getElementPaletteSettings().elementId, step),
+  });
+}
@@ -2,20 +2,23 @@ import * as THREE from 'three';
 import {
   SOIL_CONFIG,
   DRAG_PLANE_CONFIG,
-  STONE_CONFIG,
   INITIAL_STONES,
   BONSAI_CONFIG,
   INITIAL_LEAVES,
-  TRAIL_CONFIG,
   CURSOR_CONFIG,
 } from '@/constants';
+import { stoneBounds } from './stone-placement';
+import { createStoneGeometry, createStoneMaterial, randomStoneSeed } from './stone-generator';
 
+/** The soil's sides; the sand surface (createSandSurface) is its top */
 export function createSoil(): THREE.Mesh {
   const geometry = new THREE.CylinderGeometry(
     SOIL_CONFIG.RADIUS,
     SOIL_CONFIG.RADIUS,
     SOIL_CONFIG.HEIGHT,
-    SOIL_CONFIG.RADIAL_SEGMENTS
+    SOIL_CONFIG.RADIAL_SEGMENTS,
+    1,
+    true
   );
   const material = new THREE.MeshStandardMaterial({
     color: SOIL_CONFIG.COLOR,
@@ -38,23 +41,25 @@ export function createDragPlane(): THREE.Mesh {
   return plane;
 }
 
-export function createStones(): THREE.Mesh[] {
-  const geometry = new THREE.DodecahedronGeometry(
-    STONE_CONFIG.RADIUS,
-    STONE_CONFIG.DETAIL
-  );
-  const baseMaterial = new THREE.MeshStandardMaterial({
-    color: STONE_CONFIG.COLOR,
-    flatShading: true,
-  });
+/**
+ * The stone grown from `seed`, `scale` times the standard size, resting on
+ * the sand at the origin. It keeps its seed, so the same stone can be grown again.
+ */
+export function createStone(scale: number = 1, seed: number = randomStoneSeed()): THREE.Mesh {
+  const stone = new THREE.Mesh(createStoneGeometry(seed), createStoneMaterial(seed));
+  stone.scale.setScalar(scale);
+  stone.position.y = stoneBounds(stone).restHeight;
+  stone.castShadow = true;
+  stone.receiveShadow = true;
+  stone.userData = { isDraggable: true, seed };
+  return stone;
+}
 
+export function createStones(): THREE.Mesh[] {
   return INITIAL_STONES.map((config) => {
-    const stone = new THREE.Mesh(geometry, baseMaterial.clone());
-    stone.position.set(config.x, STONE_CONFIG.GROUND_HEIGHT, config.z);
-    stone.scale.setScalar(config.s);
-    stone.castShadow = true;
-    stone.receiveShadow = true;
-    stone.userData = { isDraggable: true };
+    const stone = createStone(config.s, config.seed);
+    stone.position.x = config.x;
+    stone.position.z = config.z;
     return stone;
   });
 }
@@ -97,15 +102,6 @@ export function createBonsai(): {
   return { group, leaves };
 }
 
-export function createTrailLine(): THREE.Line {
-  const geometry = new THREE.BufferGeometry();
-  const material = new THREE.LineBasicMaterial({
-    color: TRAIL_CONFIG.COLOR,
-    linewidth: TRAIL_CONFIG.LINE_WIDTH,
-  });
-  return new THREE.Line(geometry, material);
-}
-
 export function createHandCursor(): THREE.Group {
   const group = new THREE.Group();
 
@@ -1,5 +1,16 @@
 export * from './scene-setup';
 export * from './garden-objects';
+export * from './stone-generator';
+export * from './garden-elements';
 export * from './raycasting';
 export * from './day-night';
 export * from './cursor';
+export * from './sand-heightmap';
+export * from './sand-strokes';
+export * from './rake-tools';
+export * from './sand-surface';
+export * from './sand-patterns';
+export * from './stone-placement';
+export * from './stone-stacking';
+export * from './garden-commands';
+export * from './erosion';
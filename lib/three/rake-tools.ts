@@ -0,0 +1,51 @@
+import { DEFAULT_RAKE_TOOL_SETTINGS, RAKE_TOOL_CONFIG, RAKE_TOOLS, SMOOTHING_TOOL } from '@/constants';
+import { RakeTool, RakeToolId, RakeToolSettings } from '@/types';
+import { createLocalStore } from '@/lib/storage';
+
+export function getRakeTool(id: RakeToolId): RakeTool {
+  if (id === SMOOTHING_TOOL.id) return SMOOTHING_TOOL;
+  return RAKE_TOOLS.find((tool) => tool.id === id) ?? RAKE_TOOLS[0];
+}
+
+/** The tool `step` places along the list from `id`, wrapping around */
+export function cycleRakeTool(id: RakeToolId, step: number): RakeToolId {
+  const index = RAKE_TOOLS.findIndex((tool) => tool.id === id);
+  const count = RAKE_TOOLS.length;
+  return RAKE_TOOLS[(((index + step) % count) + count) % count].id;
+}
+
+/** How far the rake turns for a hand roll of -1..1, when twisting is on */
+export function rakeTwist(roll: number, settings: RakeToolSettings): number {
+  return settings.twistWithRoll ? roll * RAKE_TOOL_CONFIG.MAX_TWIST : 0;
+}
+
+function parseRakeToolSettings(raw: unknown): RakeToolSettings {
+  const parsed = (raw ?? {}) as Partial<RakeToolSettings>;
+  return {
+    toolId: RAKE_TOOLS.some((tool) => tool.id === parsed.toolId)
+      ? (parsed.toolId as RakeToolId)
+      : DEFAULT_RAKE_TOOL_SETTINGS.toolId,
+    twistWithRoll:
+      typeof parsed.twistWithRoll === 'boolean'
+        ? parsed.twistWithRoll
+        : DEFAULT_RAKE_TOOL_SETTINGS.twistWithRoll,
+  };
+}
+
+const store = createLocalStore(
+  RAKE_TOOL_CONFIG.STORAGE_KEY,
+  DEFAULT_RAKE_TOOL_SETTINGS,
+  parseRakeToolSettings
+);
+
+export const getRakeToolSettings = store.get;
+export const getServerRakeToolSettings = store.getServer;
+export const subscribeRakeToolSettings = store.subscribe;
+
+export function updateRakeToolSettings(changes: Partial<RakeToolSettings>): void {
+  store.set({ ...getRakeToolSettings(), ...changes });
+}
+
+export function selectNextRakeTool(step: number): void {
+  updateRakeToolSettings({ toolId: cycleRakeTool(getRakeToolSettings().toolId, step) });
+}
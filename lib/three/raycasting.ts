@@ -14,6 +14,17 @@ export function getNormalizedDeviceCoords(
   return ndc;
 }
 
+/** The one of `objects` that `object` is, or is a part of */
+export function findOwner(
+  object: THREE.Object3D,
+  objects: THREE.Object3D[]
+): THREE.Object3D | null {
+  for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+    if (objects.includes(node)) return node;
+  }
+  return null;
+}
+
 export function findIntersection(
   raycaster: THREE.Raycaster,
   object: THREE.Object3D | THREE.Object3D[]
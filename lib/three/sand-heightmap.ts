@@ -0,0 +1,260 @@
+import { SAND_CONFIG, SOIL_CONFIG } from '@/constants';
+import { RakeTool, SandPoint } from '@/types';
+
+/** Inclusive texel bounds of a heightmap change */
+export interface TexelRect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface SandHeightmap {
+  resolution: number;
+  heights: Float32Array; // Row-major; x across, z down the rows
+  /**
+   * Drags a rake from one garden-space point to another, turned `twist`
+   * radians from square to the stroke. A smoother also flattens the sand
+   * under a single point.
+   */
+  rake: (from: SandPoint, to: SandPoint, tool: RakeTool, twist?: number) => TexelRect | null;
+  /** Presses a stamp's rings into the sand around a garden-space point */
+  stamp: (center: SandPoint, tool: RakeTool) => TexelRect;
+  /**
+   * Blurs every height towards its neighbours' by `diffusion` and sinks it
+   * towards flat by `settle`; null once the sand is flat
+   */
+  erode: (diffusion: number, settle: number) => TexelRect | null;
+  heightAt: (x: number, z: number) => number;
+  clear: () => TexelRect;
+}
+
+// Heights closer to flat than this are snapped to it, so erosion finishes
+const FLAT_EPSILON = 1e-5;
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Height `distance` from a tine's path: a groove as wide as the tine, with
+ * a lip of pushed-up sand beside it that falls away over the same width
+ */
+function grooveProfile(distance: number, tool: RakeTool): number {
+  const half = tool.grooveWidth / 2;
+  if (distance <= half) {
+    return -tool.grooveDepth + (tool.grooveDepth + tool.ridgeHeight) * smoothstep(distance / half);
+  }
+  return tool.ridgeHeight * (1 - smoothstep(Math.min(1, (distance - half) / half)));
+}
+
+/** Height of a rake's cross-section `across` units from its centre line */
+function rakeProfile(across: number, tool: RakeTool, spacing: number): number {
+  if (tool.tines === 1 || spacing === 0) return grooveProfile(Math.abs(across), tool);
+  const offset = across / spacing + (tool.tines - 1) / 2;
+  const nearestTine = Math.min(tool.tines - 1, Math.max(0, Math.round(offset)));
+  return grooveProfile(Math.abs(offset - nearestTine) * spacing, tool);
+}
+
+/** Height of a stamp `radius` units from its centre; ring k sits at (k + 1) spacings */
+function stampProfile(radius: number, tool: RakeTool): number {
+  const nearestRing = Math.min(tool.tines - 1, Math.max(0, Math.round(radius / tool.tineSpacing) - 1));
+  return grooveProfile(Math.abs(radius - (nearestRing + 1) * tool.tineSpacing), tool);
+}
+
+/**
+ * Outside a tool's outer groove it only heaps sand up into a lip, leaving
+ * grooves it passes beside (say, from the last pass) alone
+ */
+function lip(height: number, target: number): number | null {
+  return height < 0 || height >= target ? null : target;
+}
+
+/**
+ * The sand's surface as a square grid of heights covering the soil disc,
+ * centred on the garden origin
+ */
+export function createSandHeightmap(
+  resolution: number = SAND_CONFIG.RESOLUTION,
+  radius: number = SOIL_CONFIG.RADIUS
+): SandHeightmap {
+  const heights = new Float32Array(resolution * resolution);
+  const cellSize = (radius * 2) / resolution;
+
+  const toTexel = (coordinate: number): number => (coordinate + radius) / cellSize - 0.5;
+  const toCoordinate = (texel: number): number => (texel + 0.5) * cellSize - radius;
+  const clampTexel = (texel: number): number => Math.min(resolution - 1, Math.max(0, texel));
+
+  const boundsOf = (from: SandPoint, to: SandPoint, margin: number): TexelRect => ({
+    minX: clampTexel(Math.floor(toTexel(Math.min(from.x, to.x) - margin))),
+    maxX: clampTexel(Math.ceil(toTexel(Math.max(from.x, to.x) + margin))),
+    minY: clampTexel(Math.floor(toTexel(Math.min(from.z, to.z) - margin))),
+    maxY: clampTexel(Math.ceil(toTexel(Math.max(from.z, to.z) + margin))),
+  });
+
+  /** Eases each texel `profile` covers toward the height it gives */
+  const shape = (
+    rect: TexelRect,
+    profile: (x: number, z: number, height: number) => number | null,
+    strength: number = SAND_CONFIG.RAKE_STRENGTH
+  ): void => {
+    for (let row = rect.minY; row <= rect.maxY; row++) {
+      const z = toCoordinate(row);
+      for (let column = rect.minX; column <= rect.maxX; column++) {
+        const x = toCoordinate(column);
+        const i = row * resolution + column;
+        const target = profile(x, z, heights[i]);
+        if (target === null) continue;
+
+        // Sand near the rim is left alone so the surface meets the soil's edge
+        const edge = Math.min(1, (radius - Math.hypot(x, z)) / SAND_CONFIG.EDGE_MARGIN);
+        if (edge <= 0) continue;
+
+        heights[i] += (target - heights[i]) * strength * edge;
+      }
+    }
+  };
+
+  /** Flattens the sand within half the tool's width of the segment, feathered at the edge */
+  const smooth = (from: SandPoint, to: SandPoint, tool: RakeTool): TexelRect => {
+    const reach = tool.grooveWidth / 2;
+    const segmentX = to.x - from.x;
+    const segmentZ = to.z - from.z;
+    const lengthSq = segmentX * segmentX + segmentZ * segmentZ;
+
+    const rect = boundsOf(from, to, reach);
+    const profile = (x: number, z: number, height: number): number | null => {
+      const dx = x - from.x;
+      const dz = z - from.z;
+      // Distance to the nearest point of the segment
+      const t = lengthSq === 0 ? 0 : Math.min(1, Math.max(0, (dx * segmentX + dz * segmentZ) / lengthSq));
+      const distance = Math.hypot(dx - t * segmentX, dz - t * segmentZ);
+      return distance > reach ? null : height * smoothstep(distance / reach);
+    };
+    // The palm presses flat in one go rather than easing like a tine
+    shape(rect, profile, 1);
+    return rect;
+  };
+
+  const rake: SandHeightmap['rake'] = (from, to, tool, twist = 0) => {
+    if (tool.kind === 'smooth') return smooth(from, to, tool);
+    const length = Math.hypot(to.x - from.x, to.z - from.z);
+    if (length === 0) return null;
+    const alongX = (to.x - from.x) / length;
+    const alongZ = (to.z - from.z) / length;
+    // A turned rake's tines trace lines closer together
+    const spacing = tool.tineSpacing * Math.abs(Math.cos(twist));
+    const outerGroove = ((tool.tines - 1) * spacing) / 2 + tool.grooveWidth / 2;
+    const halfWidth = outerGroove + tool.grooveWidth / 2;
+
+    const rect = boundsOf(from, to, halfWidth);
+    shape(rect, (x, z, height) => {
+      const dx = x - from.x;
+      const dz = z - from.z;
+      const along = dx * alongX + dz * alongZ;
+      const across = dz * alongX - dx * alongZ;
+      if (along < 0 || along > length || Math.abs(across) > halfWidth) return null;
+      const target = rakeProfile(across, tool, spacing);
+      return Math.abs(across) > outerGroove ? lip(height, target) : target;
+    });
+    return rect;
+  };
+
+  const stamp: SandHeightmap['stamp'] = (center, tool) => {
+    const outerGroove = tool.tines * tool.tineSpacing + tool.grooveWidth / 2;
+    const reach = outerGroove + tool.grooveWidth / 2;
+    const rect = boundsOf(center, center, reach);
+    shape(rect, (x, z, height) => {
+      const distance = Math.hypot(x - center.x, z - center.z);
+      if (distance > reach) return null;
+      const target = stampProfile(distance, tool);
+      return distance > outerGroove ? lip(height, target) : target;
+    });
+    return rect;
+  };
+
+  const scratch = new Float32Array(heights.length);
+
+  const erode: SandHeightmap['erode'] = (diffusion, settle) => {
+    scratch.set(heights);
+    let changed = false;
+    for (let row = 0; row < resolution; row++) {
+      const above = Math.max(0, row - 1) * resolution;
+      const below = Math.min(resolution - 1, row + 1) * resolution;
+      const start = row * resolution;
+      for (let column = 0; column < resolution; column++) {
+        const i = start + column;
+        const neighbours =
+          (scratch[above + column] +
+            scratch[below + column] +
+            scratch[start + Math.max(0, column - 1)] +
+            scratch[start + Math.min(resolution - 1, column + 1)]) /
+          4;
+        const height = (scratch[i] + (neighbours - scratch[i]) * diffusion) * (1 - settle);
+        heights[i] = Math.abs(height) < FLAT_EPSILON ? 0 : height;
+        if (heights[i] !== scratch[i]) changed = true;
+      }
+    }
+    return changed ? { minX: 0, minY: 0, maxX: resolution - 1, maxY: resolution - 1 } : null;
+  };
+
+  const heightAt = (x: number, z: number): number => {
+    const column = clampTexel(Math.round(toTexel(x)));
+    const row = clampTexel(Math.round(toTexel(z)));
+    return heights[row * resolution + column];
+  };
+
+  const clear = (): TexelRect => {
+    heights.fill(0);
+    return { minX: 0, minY: 0, maxX: resolution - 1, maxY: resolution - 1 };
+  };
+
+  return { resolution, heights, rake, stamp, erode, heightAt, clear };
+}
+
+/** Writes heights as 8-bit RGBA over SAND_CONFIG's height range, for a displacement map */
+export function encodeHeights(heightmap: SandHeightmap, rect: TexelRect, out: Uint8Array): void {
+  const { resolution, heights } = heightmap;
+  const range = SAND_CONFIG.MAX_HEIGHT - SAND_CONFIG.MIN_HEIGHT;
+  for (let row = rect.minY; row <= rect.maxY; row++) {
+    for (let column = rect.minX; column <= rect.maxX; column++) {
+      const i = row * resolution + column;
+      const value = Math.round(((heights[i] - SAND_CONFIG.MIN_HEIGHT) / range) * 255);
+      out.fill(Math.min(255, Math.max(0, value)), i * 4, i * 4 + 4);
+    }
+  }
+}
+
+/**
+ * Writes tangent-space normals (u along +x, v along +z) as 8-bit RGBA.
+ * Normals depend on neighbouring heights, so pass the changed rect grown by one.
+ */
+export function encodeNormals(
+  heightmap: SandHeightmap,
+  rect: TexelRect,
+  cellSize: number,
+  out: Uint8Array
+): void {
+  const { resolution, heights } = heightmap;
+  const height = (column: number, row: number): number =>
+    heights[
+      Math.min(resolution - 1, Math.max(0, row)) * resolution +
+        Math.min(resolution - 1, Math.max(0, column))
+    ];
+
+  for (let row = rect.minY; row <= rect.maxY; row++) {
+    for (let column = rect.minX; column <= rect.maxX; column++) {
+      const slopeX = (height(column + 1, row) - height(column - 1, row)) / (2 * cellSize);
+      const slopeZ = (height(column, row + 1) - height(column, row - 1)) / (2 * cellSize);
+      const nx = -slopeX * SAND_CONFIG.NORMAL_STRENGTH;
+      const ny = -slopeZ * SAND_CONFIG.NORMAL_STRENGTH;
+      const length = Math.hypot(nx, ny, 1);
+
+      const i = (row * resolution + column) * 4;
+      out[i] = Math.round((nx / length + 1) * 127.5);
+      out[i + 1] = Math.round((ny / length + 1) * 127.5);
+      out[i + 2] = Math.round((1 / length + 1) * 127.5);
+      out[i + 3] = 255;
+    }
+  }
+}
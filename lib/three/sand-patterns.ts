@@ -0,0 +1,105 @@
+import { SAND_PATTERN_CONFIG, SOIL_CONFIG } from '@/constants';
+import { SandPatternId, SandPoint, SandStroke, StoneFootprint } from '@/types';
+import { getRakeTool } from './rake-tools';
+
+/** Splits a path into the runs of points `keep` accepts */
+function clipPath(points: SandPoint[], keep: (point: SandPoint) => boolean): SandPoint[][] {
+  const runs: SandPoint[][] = [];
+  let run: SandPoint[] = [];
+  for (const point of points) {
+    if (keep(point)) {
+      run.push(point);
+      continue;
+    }
+    if (run.length > 1) runs.push(run);
+    run = [];
+  }
+  if (run.length > 1) runs.push(run);
+  return runs;
+}
+
+function circle(center: SandPoint, radius: number): SandPoint[] {
+  const steps = Math.max(8, Math.ceil((2 * Math.PI * radius) / SAND_PATTERN_CONFIG.SEGMENT_LENGTH));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = (i / steps) * 2 * Math.PI;
+    return { x: center.x + Math.cos(angle) * radius, z: center.z + Math.sin(angle) * radius };
+  });
+}
+
+/** Rows across the disc, `swath` apart, each bent by `offset(x)` */
+function rows(radius: number, swath: number, offset: (x: number) => number): SandPoint[][] {
+  const paths: SandPoint[][] = [];
+  const steps = Math.ceil((radius * 2) / SAND_PATTERN_CONFIG.SEGMENT_LENGTH);
+  for (let z = -radius + swath / 2; z < radius; z += swath) {
+    paths.push(
+      Array.from({ length: steps + 1 }, (_, i) => {
+        const x = -radius + (i / steps) * radius * 2;
+        return { x, z: z + offset(x) };
+      })
+    );
+  }
+  return paths;
+}
+
+/** An Archimedean spiral out from the centre, `swath` between turns */
+function spiral(radius: number, swath: number): SandPoint[] {
+  const points: SandPoint[] = [];
+  let angle = 0;
+  for (let r = 0; r < radius; r = (swath * angle) / (2 * Math.PI)) {
+    points.push({ x: Math.cos(angle) * r, z: Math.sin(angle) * r });
+    angle += SAND_PATTERN_CONFIG.SEGMENT_LENGTH / Math.max(r, swath);
+  }
+  return points;
+}
+
+/**
+ * Rakes a karesansui pattern over the sand: the chosen background, broken
+ * off around each stone, with concentric ripples ringing the stones.
+ */
+export function generateSandPattern(
+  pattern: SandPatternId,
+  stones: StoneFootprint[],
+  radius: number = SOIL_CONFIG.RADIUS
+): SandStroke[] {
+  const tool = getRakeTool(SAND_PATTERN_CONFIG.TOOL);
+  // Width one pass rakes, so neighbouring passes' grooves sit evenly apart
+  const swath = tool.tines * tool.tineSpacing;
+  const { RIPPLE_RINGS, RIPPLE_GAP, WAVE_AMPLITUDE, WAVE_LENGTH } = SAND_PATTERN_CONFIG;
+  const firstRipple = (stone: StoneFootprint) => stone.radius + RIPPLE_GAP + swath / 2;
+
+  const onSand = (point: SandPoint) => Math.hypot(point.x, point.z) < radius;
+  const clearOfRipples = (point: SandPoint) =>
+    stones.every(
+      (stone) =>
+        Math.hypot(point.x - stone.x, point.z - stone.z) >= firstRipple(stone) + (RIPPLE_RINGS - 0.5) * swath
+    );
+
+  let background: SandPoint[][] = [];
+  if (pattern === 'lines') background = rows(radius, swath, () => 0);
+  if (pattern === 'waves') {
+    background = rows(radius, swath, (x) => Math.sin((x / WAVE_LENGTH) * 2 * Math.PI) * WAVE_AMPLITUDE);
+  }
+  if (pattern === 'spiral') background = [spiral(radius, swath)];
+
+  // Where two stones' ripples meet, each keeps the side nearer its own edge
+  const edgeDistance = (point: SandPoint, stone: StoneFootprint) =>
+    Math.hypot(point.x - stone.x, point.z - stone.z) - stone.radius;
+  const nearestTo = (stone: StoneFootprint) => (point: SandPoint) =>
+    stones.every((other) => other === stone || edgeDistance(point, stone) <= edgeDistance(point, other));
+
+  const ripples = stones.flatMap((stone) =>
+    Array.from({ length: RIPPLE_RINGS }, (_, ring) =>
+      clipPath(circle(stone, firstRipple(stone) + ring * swath), nearestTo(stone))
+    ).flat()
+  );
+
+  const paths = [
+    ...background.flatMap((path) => clipPath(path, (point) => onSand(point) && clearOfRipples(point))),
+    // Ripples go on last, over the background
+    ...ripples.flatMap((path) => clipPath(path, onSand)),
+  ];
+  return paths.map((points) => ({
+    toolId: tool.id,
+    points: points.map((point) => ({ ...point, twist: 0 })),
+  }));
+}
@@ -0,0 +1,56 @@
+import { SandPoint } from '@/types';
+
+export interface StrokeSampler {
+  /** Starts a new path; the start point is always a sample */
+  start: (point: SandPoint) => SandPoint;
+  /** Follows the path to `point`, returning the samples passed on the way */
+  moveTo: (point: SandPoint) => SandPoint[];
+  /** Ends the path, returning its end if it lies beyond the last sample */
+  finish: () => SandPoint | null;
+}
+
+function lerp(from: SandPoint, to: SandPoint, t: number): SandPoint {
+  return { x: from.x + (to.x - from.x) * t, z: from.z + (to.z - from.z) * t };
+}
+
+/**
+ * Resamples a path by distance travelled, so a stroke has the same points
+ * however many frames it took to draw
+ */
+export function createStrokeSampler(spacing: number): StrokeSampler {
+  let cursor: SandPoint | null = null;
+  // Distance along the path since the last sample
+  let travelled = 0;
+
+  const start = (point: SandPoint): SandPoint => {
+    cursor = { x: point.x, z: point.z };
+    travelled = 0;
+    return cursor;
+  };
+
+  const moveTo = (point: SandPoint): SandPoint[] => {
+    if (!cursor) return [];
+    const target = { x: point.x, z: point.z };
+    const samples: SandPoint[] = [];
+    let from = cursor;
+    let length = Math.hypot(target.x - from.x, target.z - from.z);
+    while (travelled + length >= spacing) {
+      from = lerp(from, target, (spacing - travelled) / length);
+      samples.push(from);
+      length = Math.hypot(target.x - from.x, target.z - from.z);
+      travelled = 0;
+    }
+    travelled += length;
+    cursor = target;
+    return samples;
+  };
+
+  const finish = (): SandPoint | null => {
+    const end = travelled > 0 ? cursor : null;
+    cursor = null;
+    travelled = 0;
+    return end;
+  };
+
+  return { start, moveTo, finish };
+}
@@ -0,0 +1,290 @@
+import * as THREE from 'three';
+import { EROSION_CONFIG, SAND_CONFIG, SOIL_CONFIG } from '@/constants';
+import {
+  RakeTool,
+  SandPoint,
+  SandStroke,
+  SandSurface,
+  SandWeathering,
+  StrokePoint,
+} from '@/types';
+import { createSandHeightmap, encodeHeights, encodeNormals, TexelRect } from './sand-heightmap';
+import { createStrokeSampler } from './sand-strokes';
+import { getRakeTool } from './rake-tools';
+
+/** A flat grid trimmed to the soil disc, with UVs running along +x and +z */
+function createDiscGeometry(radius: number, segments: number): THREE.BufferGeometry {
+  const geometry = new THREE.PlaneGeometry(radius * 2, radius * 2, segments, segments);
+  geometry.rotateX(-Math.PI / 2);
+
+  const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+  const uv = geometry.getAttribute('uv') as THREE.BufferAttribute;
+  for (let i = 0; i < position.count; i++) {
+    let x = position.getX(i);
+    let z = position.getZ(i);
+    // Corners are pulled in onto the rim rather than cut away
+    const scale = Math.min(1, radius / Math.hypot(x, z));
+    x *= scale;
+    z *= scale;
+    position.setXYZ(i, x, 0, z);
+    uv.setXY(i, (x + radius) / (radius * 2), (z + radius) / (radius * 2));
+  }
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+function createDataTexture(data: Uint8Array, resolution: number): THREE.DataTexture {
+  const texture = new THREE.DataTexture(data, resolution, resolution);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.generateMipmaps = false;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/** Marks the rows of `rect` for upload instead of the whole texture */
+function queueUpload(texture: THREE.DataTexture, rect: TexelRect, resolution: number): void {
+  for (let row = rect.minY; row <= rect.maxY; row++) {
+    texture.addUpdateRange((row * resolution + rect.minX) * 4, (rect.maxX - rect.minX + 1) * 4);
+  }
+  texture.needsUpdate = true;
+}
+
+function mergeRects(a: TexelRect | null, b: TexelRect): TexelRect {
+  if (!a) return b;
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  };
+}
+
+/**
+ * The sand as a subdivided surface displaced by a heightmap. Strokes carve
+ * the heightmap segment by segment, and only the changed texels of the
+ * displacement and normal maps are re-encoded and uploaded, so the garden
+ * stays one mesh however many strokes it holds. A generated pattern lies
+ * underneath the raked strokes; replacing it replays them on top.
+ * Erosion is kept too, so re-carving the sand doesn't undo the weathering.
+ * `onStroke` hears about each stroke as it is finished.
+ */
+export function createSandSurface(onStroke?: (stroke: SandStroke) => void): SandSurface {
+  const radius = SOIL_CONFIG.RADIUS;
+  const heightmap = createSandHeightmap(SAND_CONFIG.RESOLUTION, radius);
+  const { resolution } = heightmap;
+  const cellSize = (radius * 2) / resolution;
+  const full: TexelRect = { minX: 0, minY: 0, maxX: resolution - 1, maxY: resolution - 1 };
+
+  const heightData = new Uint8Array(resolution * resolution * 4);
+  const normalData = new Uint8Array(resolution * resolution * 4);
+  encodeHeights(heightmap, full, heightData);
+  encodeNormals(heightmap, full, cellSize, normalData);
+  const heightTexture = createDataTexture(heightData, resolution);
+  const normalTexture = createDataTexture(normalData, resolution);
+
+  const material = new THREE.MeshStandardMaterial({
+    color: SAND_CONFIG.COLOR,
+    roughness: SAND_CONFIG.ROUGHNESS,
+    displacementMap: heightTexture,
+    displacementScale: SAND_CONFIG.MAX_HEIGHT - SAND_CONFIG.MIN_HEIGHT,
+    displacementBias: SAND_CONFIG.MIN_HEIGHT,
+    normalMap: normalTexture,
+  });
+  const mesh = new THREE.Mesh(createDiscGeometry(radius, SAND_CONFIG.SEGMENTS), material);
+  mesh.position.y = SOIL_CONFIG.Y_POSITION + SOIL_CONFIG.HEIGHT / 2;
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+
+  const update = (rect: TexelRect): void => {
+    const grown: TexelRect = {
+      minX: Math.max(0, rect.minX - 1),
+      minY: Math.max(0, rect.minY - 1),
+      maxX: Math.min(resolution - 1, rect.maxX + 1),
+      maxY: Math.min(resolution - 1, rect.maxY + 1),
+    };
+    encodeHeights(heightmap, rect, heightData);
+    encodeNormals(heightmap, grown, cellSize, normalData);
+    queueUpload(heightTexture, rect, resolution);
+    queueUpload(normalTexture, grown, resolution);
+  };
+
+  const sampler = createStrokeSampler(SAND_CONFIG.STROKE_SPACING);
+  const strokes: SandStroke[] = [];
+  let current: SandStroke | null = null;
+
+  let currentTool: RakeTool | null = null;
+
+  const carve = (stroke: SandStroke, tool: RakeTool, points: StrokePoint[]): void => {
+    let changed: TexelRect | null = null;
+    for (const point of points) {
+      const rect = heightmap.rake(stroke.points[stroke.points.length - 1], point, tool, point.twist);
+      if (rect) changed = mergeRects(changed, rect);
+      stroke.points.push(point);
+    }
+    if (changed) update(changed);
+  };
+
+  const liftRake = (): void => {
+    if (!current || !currentTool) return;
+    const end = sampler.finish();
+    if (end && currentTool.kind !== 'stamp') {
+      carve(current, currentTool, [{ ...end, twist: current.points[current.points.length - 1].twist }]);
+    }
+    // A rake touched down without a drag leaves no mark
+    if (currentTool.kind !== 'rake' || current.points.length > 1) {
+      strokes.push(current);
+      onStroke?.(current);
+    }
+    current = null;
+    currentTool = null;
+  };
+
+  const rakeTo = (point: SandPoint, tool: RakeTool, twist = 0): void => {
+    if (current && currentTool !== tool) liftRake();
+
+    if (!current) {
+      current = { toolId: tool.id, points: [{ ...sampler.start(point), twist }] };
+      currentTool = tool;
+      // A stamp is pressed once, where it touches down
+      if (tool.kind === 'stamp') update(heightmap.stamp(point, tool));
+      // A smoother flattens where it touches down, before it moves
+      const dab = tool.kind === 'smooth' ? heightmap.rake(point, point, tool) : null;
+      if (dab) update(dab);
+    } else if (tool.kind !== 'stamp') {
+      carve(current, tool, sampler.moveTo(point).map((sample) => ({ ...sample, twist })));
+    }
+  };
+
+  let pattern: SandStroke[] = [];
+
+  /** Carves a stroke again without uploading anything */
+  const replay = (stroke: SandStroke): void => {
+    const tool = getRakeTool(stroke.toolId);
+    if (tool.kind === 'stamp') {
+      heightmap.stamp(stroke.points[0], tool);
+      return;
+    }
+    if (tool.kind === 'smooth') heightmap.rake(stroke.points[0], stroke.points[0], tool);
+    for (let i = 1; i < stroke.points.length; i++) {
+      heightmap.rake(stroke.points[i - 1], stroke.points[i], tool, stroke.points[i].twist);
+    }
+  };
+
+  const uploadAll = (): void => {
+    encodeHeights(heightmap, full, heightData);
+    encodeNormals(heightmap, full, cellSize, normalData);
+    // No update ranges: the whole texture is uploaded
+    heightTexture.clearUpdateRanges();
+    normalTexture.clearUpdateRanges();
+    heightTexture.needsUpdate = true;
+    normalTexture.needsUpdate = true;
+  };
+
+  // The erosion so far, and the sand as it stood after the last erosion step:
+  // re-carving starts from that base and adds only the strokes made since
+  let weathering: SandWeathering = { diffusion: 0, settle: 0, strokes: [] };
+  const base = new Float32Array(heightmap.heights.length);
+  let basePattern: SandStroke[] | null = null;
+  let baseStrokes: SandStroke[] = [];
+
+  /** All the erosion so far at once, in as few passes as stay stable */
+  const weather = (): void => {
+    if (weathering.diffusion === 0 && weathering.settle === 0) return;
+    const passes = Math.min(EROSION_CONFIG.MAX_REPLAY_PASSES, Math.max(1, Math.ceil(weathering.diffusion)));
+    const diffusion = Math.min(1, weathering.diffusion / passes);
+    const settle = 1 - (1 - weathering.settle) ** (1 / passes);
+    for (let i = 0; i < passes; i++) heightmap.erode(diffusion, settle);
+  };
+
+  const keepBase = (carved: SandStroke[]): void => {
+    base.set(heightmap.heights);
+    basePattern = pattern;
+    baseStrokes = carved;
+  };
+
+  /**
+   * Carves the whole sand again from the pattern and strokes. While the
+   * weathered strokes in the base are the ones still there it is reused;
+   * otherwise (one was undone or redone, or the pattern moved with a stone)
+   * they are carved afresh and weathered again all at once.
+   */
+  const rebuild = (): void => {
+    const marks = [...strokes, ...(current ? [current] : [])];
+    const weathered = marks.filter((stroke) => weathering.strokes.includes(stroke));
+    const sameBase =
+      basePattern === pattern &&
+      weathered.length === baseStrokes.length &&
+      weathered.every((stroke, i) => stroke === baseStrokes[i]);
+    if (sameBase) {
+      heightmap.heights.set(base);
+    } else {
+      heightmap.clear();
+      [...pattern, ...weathered].forEach(replay);
+      weather();
+      keepBase(weathered);
+    }
+    marks.filter((stroke) => !weathered.includes(stroke)).forEach(replay);
+    uploadAll();
+  };
+
+  const setPattern = (next: SandStroke[]): void => {
+    pattern = next;
+    rebuild();
+  };
+
+  const setStrokes = (next: readonly SandStroke[], restored?: SandWeathering): void => {
+    strokes.splice(0, strokes.length, ...next);
+    if (restored) {
+      weathering = restored;
+      basePattern = null;
+    }
+    rebuild();
+  };
+
+  const erode = (diffusion: number, settle: number): void => {
+    weathering = {
+      diffusion: weathering.diffusion + diffusion,
+      settle: 1 - (1 - weathering.settle) * (1 - settle),
+      // Undone strokes stay listed, so a redo brings them back weathered
+      strokes: [...new Set([...weathering.strokes, ...strokes])],
+    };
+    const changed = heightmap.erode(diffusion, settle);
+    // A stroke still being raked is only partly carved into the sand, so it
+    // can't serve as a base until the next step
+    if (current) basePattern = null;
+    else keepBase([...strokes]);
+    if (changed) uploadAll();
+  };
+
+  const clear = (): void => {
+    sampler.finish();
+    current = null;
+    currentTool = null;
+    strokes.length = 0;
+    pattern = [];
+    weathering = { diffusion: 0, settle: 0, strokes: [] };
+    heightmap.clear();
+    keepBase([]);
+    uploadAll();
+  };
+
+  const dispose = (): void => {
+    heightTexture.dispose();
+    normalTexture.dispose();
+  };
+
+  return {
+    mesh,
+    rakeTo,
+    liftRake,
+    getStrokes: () => strokes,
+    setStrokes,
+    setPattern,
+    erode,
+    getWeathering: () => weathering,
+    heightAt: heightmap.heightAt,
+    clear,
+    dispose,
+  };
+}
@@ -58,6 +58,7 @@ export function createLights(): {
   dirLight.castShadow = true;
   dirLight.shadow.mapSize.width = RENDERER_CONFIG.SHADOW_MAP_SIZE;
   dirLight.shadow.mapSize.height = RENDERER_CONFIG.SHADOW_MAP_SIZE;
+  dirLight.shadow.normalBias = LIGHTING_CONFIG.SHADOW_NORMAL_BIAS;
 
   return { hemiLight, dirLight };
 }
@@ -70,3 +71,17 @@ export function handleResize(
   camera.updateProjectionMatrix();
   renderer.setSize(window.innerWidth, window.innerHeight);
 }
+
+/** Frees the GPU copies of the geometries and materials of every mesh in `root` */
+export function disposeObject(root: THREE.Object3D): void {
+  root.traverse((object) => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry.dispose();
+      if (Array.isArray(object.material)) {
+        object.material.forEach((mat) => mat.dispose());
+      } else {
+        object.material.dispose();
+      }
+    }
+  });
+}
@@ -0,0 +1,209 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { STONE_CONFIG, STONE_GENERATOR_CONFIG } from '@/constants';
+import { StoneArchetype, StoneMaterialKind, StoneStyle } from '@/types';
+
+const {
+  ARCHETYPES,
+  MATERIALS,
+  NOISE_FREQUENCY,
+  NOISE_AMPLITUDE,
+  NOISE_OCTAVES,
+  NOISE_PERSISTENCE,
+  PIT_FREQUENCY,
+  PIT_DEPTH,
+} = STONE_GENERATOR_CONFIG;
+const ARCHETYPE_IDS = Object.keys(ARCHETYPES) as StoneArchetype[];
+const MATERIAL_KINDS = Object.keys(MATERIALS) as StoneMaterialKind[];
+
+/** Mulberry32: a small, fast generator that repeats exactly for the same seed */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const nextSeed = (random: () => number): number => Math.floor(random() * 4294967296);
+
+/** A value in 0..1 fixed for each lattice point and seed */
+function hash(seed: number, x: number, y: number, z: number): number {
+  let h = seed ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1) ^ Math.imul(z, 0x1b873593);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+const fade = (t: number): number => t * t * (3 - 2 * t);
+
+/** Smooth noise in -1..1, blended between random values at the lattice points */
+function valueNoise(seed: number, x: number, y: number, z: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const z0 = Math.floor(z);
+  const u = fade(x - x0);
+  const v = fade(y - y0);
+  const w = fade(z - z0);
+  const corner = (dx: number, dy: number, dz: number) => hash(seed, x0 + dx, y0 + dy, z0 + dz);
+  const lerp = THREE.MathUtils.lerp;
+  const value = lerp(
+    lerp(lerp(corner(0, 0, 0), corner(1, 0, 0), u), lerp(corner(0, 1, 0), corner(1, 1, 0), u), v),
+    lerp(lerp(corner(0, 0, 1), corner(1, 0, 1), u), lerp(corner(0, 1, 1), corner(1, 1, 1), u), v),
+    w
+  );
+  return value * 2 - 1;
+}
+
+/** Octaves of value noise, each finer and fainter than the last, still in -1..1 */
+function fractalNoise(seed: number, point: THREE.Vector3): number {
+  let total = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let range = 0;
+  for (let octave = 0; octave < NOISE_OCTAVES; octave++) {
+    total +=
+      amplitude *
+      valueNoise(seed + octave, point.x * frequency, point.y * frequency, point.z * frequency);
+    range += amplitude;
+    amplitude *= NOISE_PERSISTENCE;
+    frequency *= 2;
+  }
+  return total / range;
+}
+
+function pickStyle(random: () => number): StoneStyle {
+  return {
+    archetype: ARCHETYPE_IDS[Math.floor(random() * ARCHETYPE_IDS.length)],
+    material: MATERIAL_KINDS[Math.floor(random() * MATERIAL_KINDS.length)],
+  };
+}
+
+/** The archetype and rock a seed grows into */
+export function stoneStyle(seed: number): StoneStyle {
+  return pickStyle(createRandom(seed));
+}
+
+/** A seed for a stone nobody has grown before */
+export function randomStoneSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+const direction = new THREE.Vector3();
+const point = new THREE.Vector3();
+const grain = new THREE.Vector3();
+const color = new THREE.Color();
+const base = new THREE.Color();
+const dark = new THREE.Color();
+const light = new THREE.Color();
+
+/** Vertex colours for the rock: flecked granite or layered slate, darker in the hollows */
+function paintStone(
+  geometry: THREE.BufferGeometry,
+  material: StoneMaterialKind,
+  hollows: Float32Array,
+  random: () => number
+): void {
+  const { FLECK_FREQUENCY, FLECK_SHARE, LAYER_FREQUENCY, CREVICE_SHADE } = STONE_GENERATOR_CONFIG;
+  base.setHex(MATERIALS[material].BASE);
+  dark.setHex(MATERIALS[material].DARK);
+  light.setHex(MATERIALS.granite.LIGHT);
+  // Each stone a little lighter or darker than the rest of its kind
+  const tone = 0.9 + random() * 0.2;
+  const grainSeed = nextSeed(random);
+
+  const position = geometry.getAttribute('position');
+  const colors = new Float32Array(position.count * 3);
+  for (let i = 0; i < position.count; i++) {
+    point.fromBufferAttribute(position, i).divideScalar(STONE_CONFIG.RADIUS);
+    if (material === 'granite') {
+      grain.copy(point).multiplyScalar(FLECK_FREQUENCY).floor();
+      const fleck = hash(grainSeed, grain.x, grain.y, grain.z);
+      if (fleck < FLECK_SHARE / 2) color.copy(dark);
+      else if (fleck > 1 - FLECK_SHARE / 2) color.copy(light);
+      else color.copy(base);
+    } else {
+      // Layers along the stone's height, wavering a little
+      const wobble = 0.15 * valueNoise(grainSeed, point.x * 2, point.y * 2, point.z * 2);
+      const layer = 0.5 + 0.5 * Math.sin((point.y + wobble) * LAYER_FREQUENCY * Math.PI * 2);
+      color.lerpColors(base, dark, layer);
+    }
+    color.multiplyScalar(tone * (1 - CREVICE_SHADE * hollows[i]));
+    color.toArray(colors, i * 3);
+  }
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+}
+
+/**
+ * Grows the stone a seed stands for, centred on the origin: a sphere
+ * stretched to its archetype, lumped by fractal noise, pitted, leant, worn
+ * flat underneath and painted with its rock. The same seed always gives the
+ * same stone.
+ */
+export function createStoneGeometry(seed: number): THREE.BufferGeometry {
+  const { PROPORTION_JITTER, DETAIL, BASE_FLATTEN } = STONE_GENERATOR_CONFIG;
+  const random = createRandom(seed);
+  const { archetype, material } = pickStyle(random);
+  const shape = ARCHETYPES[archetype];
+  const jitter = () => 1 + (random() * 2 - 1) * PROPORTION_JITTER;
+  const stretch = new THREE.Vector3(
+    shape.SCALE.x * jitter(),
+    shape.SCALE.y * jitter(),
+    shape.SCALE.z * jitter()
+  ).multiplyScalar(STONE_CONFIG.RADIUS);
+  const lumpSeed = nextSeed(random);
+  const pitSeed = nextSeed(random);
+
+  // Shared vertices, so the displaced surface stays closed and shades smoothly
+  const sphere = new THREE.IcosahedronGeometry(1, DETAIL);
+  sphere.deleteAttribute('normal');
+  sphere.deleteAttribute('uv');
+  const geometry = mergeVertices(sphere);
+  sphere.dispose();
+
+  const position = geometry.getAttribute('position');
+  // How far below its unweathered surface each vertex ended up, 0..1
+  const hollows = new Float32Array(position.count);
+  for (let i = 0; i < position.count; i++) {
+    direction.fromBufferAttribute(position, i);
+    const lump = fractalNoise(lumpSeed, point.copy(direction).multiplyScalar(NOISE_FREQUENCY));
+    const pit = Math.max(
+      0,
+      valueNoise(
+        pitSeed,
+        direction.x * PIT_FREQUENCY,
+        direction.y * PIT_FREQUENCY,
+        direction.z * PIT_FREQUENCY
+      )
+    );
+    const radius = 1 + NOISE_AMPLITUDE * lump - PIT_DEPTH * pit;
+    hollows[i] = THREE.MathUtils.clamp((1 - radius) / (NOISE_AMPLITUDE + PIT_DEPTH), 0, 1);
+
+    point.copy(direction).multiplyScalar(radius).multiply(stretch);
+    point.y += shape.ARCH * STONE_CONFIG.RADIUS * (1 - direction.x * direction.x);
+    position.setXYZ(i, point.x, point.y, point.z);
+  }
+  geometry.rotateZ(shape.LEAN * (random() < 0.5 ? -1 : 1));
+
+  let lowest = 0;
+  for (let i = 0; i < position.count; i++) lowest = Math.min(lowest, position.getY(i));
+  const floor = lowest * BASE_FLATTEN;
+  for (let i = 0; i < position.count; i++) position.setY(i, Math.max(position.getY(i), floor));
+
+  paintStone(geometry, material, hollows, random);
+  // Facing any way round, so stones of one archetype don't all line up
+  geometry.rotateY(random() * Math.PI * 2);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/** The surface of a stone's rock; its colours come from the geometry */
+export function createStoneMaterial(seed: number): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    vertexColors: true,
+    roughness: MATERIALS[stoneStyle(seed).material].ROUGHNESS,
+  });
+}
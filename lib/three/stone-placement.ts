@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import { BONSAI_CONFIG, PLACEMENT_CONFIG, SOIL_CONFIG } from '@/constants';
+import { SandPoint, StoneFootprint } from '@/types';
+
+const vertex = new THREE.Vector3();
+const partMatrix = new THREE.Matrix4();
+
+interface StoneBounds {
+  radius: number;
+  restHeight: number;
+}
+
+// Measured bounds, kept until the stone is turned or scaled; an element's
+// parts never move within it
+const boundsCache = new WeakMap<
+  THREE.Object3D,
+  { scale: THREE.Vector3; quaternion: THREE.Quaternion; bounds: StoneBounds }
+>();
+
+function measureBounds(stone: THREE.Object3D): StoneBounds {
+  let radius = 0;
+  let lowest = 0;
+  stone.traverse((part) => {
+    if (!(part instanceof THREE.Mesh)) return;
+    // Where the part sits within the stone
+    partMatrix.identity();
+    for (let node: THREE.Object3D = part; node !== stone && node.parent; node = node.parent) {
+      node.updateMatrix();
+      partMatrix.premultiply(node.matrix);
+    }
+    const position = part.geometry.getAttribute('position');
+    for (let i = 0; i < position.count; i++) {
+      vertex
+        .fromBufferAttribute(position, i)
+        .applyMatrix4(partMatrix)
+        .multiply(stone.scale)
+        .applyQuaternion(stone.quaternion);
+      radius = Math.max(radius, Math.hypot(vertex.x, vertex.z));
+      lowest = Math.min(lowest, vertex.y);
+    }
+  });
+  return { radius, restHeight: -lowest };
+}
+
+/**
+ * How far a stone reaches across the sand from its centre, and how high its
+ * centre sits when it rests on the sand, from its vertices as it is turned
+ * and scaled. Garden elements built from several meshes count every part.
+ */
+export function stoneBounds(stone: THREE.Object3D): StoneBounds {
+  const cached = boundsCache.get(stone);
+  if (cached && cached.scale.equals(stone.scale) && cached.quaternion.equals(stone.quaternion)) {
+    return cached.bounds;
+  }
+  const bounds = measureBounds(stone);
+  boundsCache.set(stone, {
+    scale: stone.scale.clone(),
+    quaternion: stone.quaternion.clone(),
+    bounds,
+  });
+  return bounds;
+}
+
+export function stoneFootprint(stone: THREE.Object3D): StoneFootprint {
+  return { x: stone.position.x, z: stone.position.z, radius: stoneBounds(stone).radius };
+}
+
+/** The bonsai's trunk, which stones go around */
+export function bonsaiFootprint(bonsai: THREE.Object3D): StoneFootprint {
+  return { x: bonsai.position.x, z: bonsai.position.z, radius: BONSAI_CONFIG.TRUNK.RADIUS_BOTTOM };
+}
+
+/** Pulls a point back inside the soil far enough for a stone of `radius` to fit */
+function keepOnSoil(point: SandPoint, radius: number): SandPoint {
+  const limit = Math.max(0, SOIL_CONFIG.RADIUS - PLACEMENT_CONFIG.RIM_MARGIN - radius);
+  const distance = Math.hypot(point.x, point.z);
+  if (distance <= limit) return point;
+  return { x: (point.x / distance) * limit, z: (point.z / distance) * limit };
+}
+
+/** Pushes a point out of an obstacle so the two just touch; null if they don't overlap */
+function pushOut(point: SandPoint, radius: number, obstacle: StoneFootprint): SandPoint | null {
+  const dx = point.x - obstacle.x;
+  const dz = point.z - obstacle.z;
+  const distance = Math.hypot(dx, dz);
+  const reach = radius + obstacle.radius;
+  if (distance >= reach) return null;
+  // Dead centre has no direction to go, so pick one
+  if (distance === 0) return { x: obstacle.x + reach, z: obstacle.z };
+  return { x: obstacle.x + (dx / distance) * reach, z: obstacle.z + (dz / distance) * reach };
+}
+
+/**
+ * The nearest spot to `point` where a stone of `radius` sits on the soil
+ * clear of the obstacles. A stone dragged into another slides round it.
+ * Squeezed between several, it settles for the best of a few passes.
+ */
+export function resolvePlacement(
+  point: SandPoint,
+  radius: number,
+  obstacles: StoneFootprint[]
+): SandPoint {
+  let placed = keepOnSoil(point, radius);
+  for (let pass = 0; pass < PLACEMENT_CONFIG.ITERATIONS; pass++) {
+    let moved = false;
+    for (const obstacle of obstacles) {
+      const pushed = pushOut(placed, radius, obstacle);
+      if (!pushed) continue;
+      placed = keepOnSoil(pushed, radius);
+      moved = true;
+    }
+    if (!moved) break;
+  }
+  return placed;
+}
+
+/**
+ * Pushes overlapping stones apart, each moving half the overlap, then keeps
+ * each on the soil and clear of the fixed obstacles. Returns the new centres.
+ */
+export function separateStones(stones: StoneFootprint[], obstacles: StoneFootprint[]): SandPoint[] {
+  const centres = stones.map(({ x, z }) => ({ x, z }));
+  for (let i = 0; i < stones.length; i++) {
+    for (let j = i + 1; j < stones.length; j++) {
+      const a = centres[i];
+      const b = centres[j];
+      const dx = b.x - a.x;
+      const dz = b.z - a.z;
+      const distance = Math.hypot(dx, dz);
+      const overlap = stones[i].radius + stones[j].radius - distance;
+      if (overlap <= 0) continue;
+      const [nx, nz] = distance === 0 ? [1, 0] : [dx / distance, dz / distance];
+      centres[i] = { x: a.x - (nx * overlap) / 2, z: a.z - (nz * overlap) / 2 };
+      centres[j] = { x: b.x + (nx * overlap) / 2, z: b.z + (nz * overlap) / 2 };
+    }
+  }
+  return centres.map((centre, i) => resolvePlacement(centre, stones[i].radius, obstacles));
+}
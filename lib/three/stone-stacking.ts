@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import { STACKING_CONFIG } from '@/constants';
+import { SandPoint, StoneFootprint } from '@/types';
+import { stoneBounds } from './stone-placement';
+import { findOwner } from './raycasting';
+
+export interface StoneSupport {
+  /** The stone underneath, or null for the sand */
+  stone: THREE.Object3D | null;
+  /** Height, in the stone's parent space, its centre comes to rest at */
+  height: number;
+}
+
+export interface Topple {
+  /** Index in the stack of the stone that gives way; every stone above it falls */
+  level: number;
+  /** Which way, across the sand, the stones above it fall */
+  direction: SandPoint;
+  /** How far they slide before the lowest of them clears its edge */
+  distance: number;
+}
+
+const raycaster = new THREE.Raycaster();
+const DOWN = new THREE.Vector3(0, -1, 0);
+
+/**
+ * What a stone would come to rest on if let go where it is: the highest of
+ * `candidates` hit by a ray cast straight down through its centre, or the sand
+ */
+export function findSupport(stone: THREE.Object3D, candidates: THREE.Object3D[]): StoneSupport {
+  const { restHeight } = stoneBounds(stone);
+  const origin = new THREE.Vector3(stone.position.x, STACKING_CONFIG.RAY_HEIGHT, stone.position.z);
+  stone.parent?.localToWorld(origin);
+  raycaster.set(origin, DOWN);
+
+  const [hit] = raycaster.intersectObjects(candidates);
+  if (!hit) return { stone: null, height: restHeight };
+  const top = stone.parent ? stone.parent.worldToLocal(hit.point.clone()).y : hit.point.y;
+  return { stone: findOwner(hit.object, candidates), height: top + restHeight };
+}
+
+/**
+ * Checks a stack, listed top down with each stone resting on the next, for
+ * a stone whose load (everything above it, weighted by size) sits too far
+ * off its centre. Returns the lowest such stone, or null if the stack stands.
+ */
+export function findTopple(stack: StoneFootprint[]): Topple | null {
+  let topple: Topple | null = null;
+  let weight = 0;
+  let loadX = 0;
+  let loadZ = 0;
+  for (let level = 1; level < stack.length; level++) {
+    const above = stack[level - 1];
+    const aboveWeight = above.radius ** 3;
+    loadX = (loadX * weight + above.x * aboveWeight) / (weight + aboveWeight);
+    loadZ = (loadZ * weight + above.z * aboveWeight) / (weight + aboveWeight);
+    weight += aboveWeight;
+
+    const support = stack[level];
+    const offset = Math.hypot(loadX - support.x, loadZ - support.z);
+    if (offset <= support.radius * STACKING_CONFIG.BALANCE_RATIO) continue;
+    topple = {
+      level,
+      direction: { x: (loadX - support.x) / offset, z: (loadZ - support.z) / offset },
+      distance:
+        support.radius + above.radius - Math.hypot(above.x - support.x, above.z - support.z),
+    };
+  }
+  return topple;
+}
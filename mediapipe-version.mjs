@@ -0,0 +1,8 @@
+import fs from 'fs';
+import path from 'path';
+
+/** The installed @mediapipe/tasks-vision version (its package exports hide package.json) */
+export function mediapipeVersion() {
+    const file = path.join(process.cwd(), 'node_modules', '@mediapipe', 'tasks-vision', 'package.json');
+    return JSON.parse(fs.readFileSync(file, 'utf8')).version;
+}
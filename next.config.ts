@@ -1,8 +1,12 @@
 import type { NextConfig } from "next";
+import { mediapipeVersion } from "./mediapipe-version.mjs";
 
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  env: {
+    NEXT_PUBLIC_MEDIAPIPE_VERSION: mediapipeVersion(),
+  },
 };
 
 export default nextConfig;
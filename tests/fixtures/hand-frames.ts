@@ -0,0 +1,29 @@
+import type { GestureName, GestureState, HandFrame, Handedness } from '@/types';
+
+interface FrameOptions {
+  handedness?: Handedness;
+  roll?: number;
+  depth?: number;
+  gesture?: GestureName; // Held in its 'hold' phase
+}
+
+function state(active: boolean): GestureState {
+  return { active, phase: active ? 'hold' : 'idle', confidence: active ? 1 : 0 };
+}
+
+/** A HandFrame at (x, y) holding at most one pose */
+export function handFrame(x: number, y: number, options: FrameOptions = {}): HandFrame {
+  const { handedness = 'right', roll = 0, depth, gesture } = options;
+  return {
+    handedness,
+    x,
+    y,
+    roll,
+    depth,
+    gestures: {
+      pinch: state(gesture === 'pinch'),
+      fist: state(gesture === 'fist'),
+      peace: state(gesture === 'peace'),
+    },
+  };
+}
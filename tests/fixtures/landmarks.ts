@@ -0,0 +1,110 @@
+import { HAND_LANDMARK_INDICES } from '@/constants';
+import type { Handedness, Landmark } from '@/types';
+import type { TrackedHand } from '@/lib/mediapipe';
+
+/**
+ * Synthetic 21-point hands in normalized image coordinates: wrist at the
+ * bottom, fingers pointing up, knuckle line level. The wrist to middle
+ * knuckle distance (the hand size used for normalization) is 0.2.
+ */
+const WRIST = { x: 0.5, y: 0.8 };
+const KNUCKLE_Y = 0.6;
+const HAND_SIZE = WRIST.y - KNUCKLE_Y;
+const FINGER_X = { index: -0.04, middle: 0, ring: 0.04, pinky: 0.08 };
+
+type Finger = keyof typeof FINGER_X;
+
+// MCP, PIP, DIP, TIP heights for each finger state
+const EXTENDED_Y = [KNUCKLE_Y, 0.52, 0.45, 0.38];
+const CURLED_Y = [KNUCKLE_Y, 0.52, 0.56, 0.62];
+
+const THUMB_OPEN: Landmark[] = [
+  { x: 0.57, y: 0.76 },
+  { x: 0.63, y: 0.7 },
+  { x: 0.67, y: 0.64 },
+  { x: 0.71, y: 0.58 },
+];
+// Tucked against the curled fingers, well clear of the index tip
+const THUMB_TUCKED: Landmark[] = [
+  { x: 0.57, y: 0.76 },
+  { x: 0.61, y: 0.7 },
+  { x: 0.62, y: 0.64 },
+  { x: 0.61, y: 0.6 },
+];
+
+function finger(name: Finger, extended: boolean): Landmark[] {
+  const x = WRIST.x + FINGER_X[name];
+  return (extended ? EXTENDED_Y : CURLED_Y).map((y) => ({ x, y, z: 0 }));
+}
+
+function buildHand(thumb: Landmark[], extended: Record<Finger, boolean>): Landmark[] {
+  return [
+    { ...WRIST, z: 0 },
+    ...thumb.map((point) => ({ ...point, z: 0 })),
+    ...finger('index', extended.index),
+    ...finger('middle', extended.middle),
+    ...finger('ring', extended.ring),
+    ...finger('pinky', extended.pinky),
+  ];
+}
+
+export function openHand(): Landmark[] {
+  return buildHand(THUMB_OPEN, { index: true, middle: true, ring: true, pinky: true });
+}
+
+/** Open hand with the thumb tip touching the index tip */
+export function pinchHand(): Landmark[] {
+  const landmarks = openHand();
+  const indexTip = landmarks[HAND_LANDMARK_INDICES.INDEX_TIP];
+  landmarks[HAND_LANDMARK_INDICES.THUMB_TIP] = { x: indexTip.x + 0.01, y: indexTip.y, z: 0 };
+  return landmarks;
+}
+
+export function fistHand(): Landmark[] {
+  return buildHand(THUMB_TUCKED, { index: false, middle: false, ring: false, pinky: false });
+}
+
+export function peaceHand(): Landmark[] {
+  return buildHand(THUMB_TUCKED, { index: true, middle: true, ring: false, pinky: false });
+}
+
+/** Open hand with the thumb tip `ratio` hand sizes from the index tip */
+export function pinchAtRatio(ratio: number): Landmark[] {
+  const landmarks = openHand();
+  const indexTip = landmarks[HAND_LANDMARK_INDICES.INDEX_TIP];
+  landmarks[HAND_LANDMARK_INDICES.THUMB_TIP] = {
+    x: indexTip.x + HAND_SIZE * ratio,
+    y: indexTip.y,
+    z: 0,
+  };
+  return landmarks;
+}
+
+/** Rotates the hand around the wrist; positive angles tilt clockwise on screen */
+export function rotateHand(landmarks: Landmark[], radians: number): Landmark[] {
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return landmarks.map(({ x, y, z }) => {
+    const dx = x - WRIST.x;
+    const dy = y - WRIST.y;
+    return { x: WRIST.x + dx * cos - dy * sin, y: WRIST.y + dx * sin + dy * cos, z };
+  });
+}
+
+/** Scales the hand about its wrist, as if it were nearer (factor > 1) or further from the camera */
+export function scaleHand(landmarks: Landmark[], factor: number): Landmark[] {
+  return landmarks.map(({ x, y, z }) => ({
+    x: WRIST.x + (x - WRIST.x) * factor,
+    y: WRIST.y + (y - WRIST.y) * factor,
+    z,
+  }));
+}
+
+/** Moves the hand so its wrist sits at (x, y) */
+export function moveHand(landmarks: Landmark[], x: number, y: number): Landmark[] {
+  return landmarks.map((point) => ({ ...point, x: point.x + x - WRIST.x, y: point.y + y - WRIST.y }));
+}
+
+export function trackedHand(landmarks: Landmark[], handedness: Handedness = 'right'): TrackedHand {
+  return { handedness, landmarks };
+}
@@ -0,0 +1,170 @@
+import { MutableRefObject } from 'react';
+import * as THREE from 'three';
+import { renderHook } from '@testing-library/react';
+import { DEFAULT_GESTURE_BINDINGS } from '@/constants';
+import type {
+  GardenElementId,
+  HandFrame,
+  Handedness,
+  SandPatternId,
+  SceneObjectsRef,
+} from '@/types';
+import {
+  addElementCommand,
+  createBonsai,
+  createCamera,
+  createDragPlane,
+  createSoil,
+  createSandSurface,
+  createStones,
+  getNormalizedDeviceCoords,
+  removeElementCommand,
+  stoneMoveCommand,
+  strokeCommand,
+} from '@/lib/three';
+import { resolveActions } from '@/lib/mediapipe';
+import {
+  useGardenElements,
+  useGardenHistory,
+  useSandPatterns,
+  useSandRaking,
+  useSandSmoothing,
+  useStoneLevitation,
+  useTimeControl,
+} from '@/hooks';
+
+/**
+ * The garden scene without a renderer, driven the way PocketGarden's
+ * animation loop drives the interaction hooks.
+ */
+export function createGardenHarness() {
+  const scene = new THREE.Scene();
+  const camera = createCamera();
+  const gardenGroup = new THREE.Group();
+  const soil = createSoil();
+  const dragPlane = createDragPlane();
+  const stones = createStones();
+  const { group: bonsai } = createBonsai();
+  const sand = createSandSurface((stroke) => result.current.history.record(strokeCommand(sand, stroke)));
+
+  scene.add(gardenGroup, dragPlane);
+  gardenGroup.add(soil, sand.mesh, bonsai, ...stones);
+
+  const sceneObjectsRef: MutableRefObject<SceneObjectsRef> = {
+    current: {
+      gardenGroup,
+      stones,
+      soil,
+      dragPlane,
+      sand,
+      bonsai,
+      hemiLight: null,
+      dirLight: null,
+      handCursors: {},
+      camera,
+    },
+  };
+  const raycasterRef = { current: new THREE.Raycaster() };
+
+  const { result } = renderHook(() => {
+    const history = useGardenHistory();
+    const elements = useGardenElements(sceneObjectsRef);
+    const levitation = useStoneLevitation(
+      sceneObjectsRef,
+      raycasterRef,
+      (move) => history.record(stoneMoveCommand(move)),
+      (stone, from) => {
+        elements.removeElement(stone);
+        history.record(removeElementCommand(elements, stone, from));
+      }
+    );
+    return {
+      history,
+      elements,
+      levitation,
+      raking: useSandRaking(sceneObjectsRef, raycasterRef),
+      smoothing: useSandSmoothing(sceneObjectsRef, raycasterRef),
+      patterns: useSandPatterns(sceneObjectsRef, levitation.getSettledStones),
+      time: useTimeControl(),
+    };
+  });
+
+  // The renderer normally does this each frame, before the next raycasts
+  const updateMatrices = (): void => {
+    scene.updateMatrixWorld(true);
+    camera.updateMatrixWorld();
+  };
+
+  /** One animation tick with these hands in view */
+  const step = (frames: HandFrame[]): void => {
+    const { levitation, raking, smoothing, patterns, time } = result.current;
+    const hands = frames.map((frame) => ({
+      frame,
+      actions: resolveActions(frame, DEFAULT_GESTURE_BINDINGS),
+    }));
+
+    updateMatrices();
+    levitation.updateDrops(frames);
+    patterns.updatePatterns();
+    raking.releaseMissingHands(frames);
+    smoothing.releaseMissingHands(frames);
+    for (const hand of hands) {
+      raycasterRef.current.setFromCamera(
+        getNormalizedDeviceCoords(hand.frame.x, hand.frame.y),
+        camera
+      );
+      levitation.updateLevitation(hand);
+      raking.updateRaking(hand);
+      smoothing.updateSmoothing(hand);
+    }
+    time.updateTime(hands);
+  };
+
+  const run = (sequence: HandFrame[][]): void => sequence.forEach(step);
+
+  /** Screen position (0..1) a hand needs to point at an object or world point */
+  const screenPointOf = (target: THREE.Object3D | THREE.Vector3): { x: number; y: number } => {
+    updateMatrices();
+    const world =
+      target instanceof THREE.Vector3 ? target.clone() : target.getWorldPosition(new THREE.Vector3());
+    const ndc = world.project(camera);
+    return { x: (ndc.x + 1) / 2, y: (1 - ndc.y) / 2 };
+  };
+
+  return {
+    scene,
+    camera,
+    stones,
+    bonsai,
+    sand,
+    /** Everything that can be picked up now, including added elements */
+    getStones: () => sceneObjectsRef.current.stones,
+    step,
+    run,
+    screenPointOf,
+    getTimeOfDay: () => result.current.time.getTimeOfDay(),
+    clearSand: () => {
+      const { history, patterns, raking } = result.current;
+      history.recordChange('Clear sand', patterns.getSandState, patterns.restoreSandState, () => {
+        patterns.clearPattern();
+        raking.clearSand();
+      });
+    },
+    applyPattern: (pattern: SandPatternId) => {
+      const { history, patterns } = result.current;
+      history.recordChange('Rake pattern', patterns.getSandState, patterns.restoreSandState, () =>
+        patterns.applyPattern(pattern)
+      );
+    },
+    addElement: (id: GardenElementId) => {
+      const { elements, history } = result.current;
+      const element = elements.addElement(id);
+      if (element) history.record(addElementCommand(elements, element));
+      return element;
+    },
+    undo: () => result.current.history.undo(),
+    redo: () => result.current.history.redo(),
+    isHolding: (handedness: Handedness) => result.current.levitation.isHolding(handedness),
+    isSmoothing: () => result.current.smoothing.isSmoothing(),
+  };
+}
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { CALIBRATION_CONFIG, CALIBRATION_STEPS } from '@/constants';
+import { getStoredProfiles } from '@/lib/mediapipe';
+import { useCalibration } from '@/hooks';
+import { openHand, trackedHand } from '../fixtures/landmarks';
+
+const { PREPARE_MS, SAMPLE_DURATION_MS, PROGRESS_STEP } = CALIBRATION_CONFIG;
+
+function setup() {
+  let renders = 0;
+  const { result } = renderHook(() => {
+    renders++;
+    return useCalibration();
+  });
+  const hand = trackedHand(openHand());
+  let t = 0;
+  /** Feeds a hand every 16ms for `durationMs` */
+  const feed = (durationMs: number) =>
+    act(() => {
+      for (const end = t + durationMs; t < end; t += 16) result.current.addSample(hand, t);
+    });
+  return { result, feed, renders: () => renders };
+}
+
+describe('useCalibration', () => {
+  afterEach(() => localStorage.clear());
+
+  it('re-renders as the progress bar moves, not on every sample', () => {
+    const { result, feed, renders } = setup();
+    act(() => result.current.start('Desk'));
+    const before = renders();
+
+    feed(PREPARE_MS);
+    expect(renders()).toBe(before);
+
+    feed(SAMPLE_DURATION_MS / 2);
+    expect(result.current.state.recording).toBe(true);
+    expect(result.current.state.progress).toBeCloseTo(0.5, 1);
+    expect(renders() - before).toBeLessThanOrEqual(0.5 / PROGRESS_STEP + 1);
+  });
+
+  it('steps through every pose and saves the profile', () => {
+    const { result, feed } = setup();
+    act(() => result.current.start('Desk'));
+
+    for (let step = 0; step < CALIBRATION_STEPS.length; step++) {
+      expect(result.current.state.step).toBe(step);
+      feed(PREPARE_MS + SAMPLE_DURATION_MS + 16);
+    }
+
+    expect(result.current.state.step).toBeNull();
+    expect(result.current.isCalibrating()).toBe(false);
+    expect(getStoredProfiles().profiles.map((profile) => profile.name)).toContain('Desk');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { PLACEMENT_CONFIG, SOIL_CONFIG } from '@/constants';
+import { stoneBounds, stoneFootprint } from '@/lib/three';
+import { createGardenHarness } from '../harness/garden-harness';
+import { handFrame } from '../fixtures/hand-frames';
+
+type Garden = ReturnType<typeof createGardenHarness>;
+
+/** Pinches an element, carries it towards `target` and lets it fall */
+function carry(garden: Garden, element: THREE.Object3D, target: THREE.Vector3) {
+  const start = garden.screenPointOf(element);
+  const end = garden.screenPointOf(target);
+  garden.step([handFrame(start.x, start.y, { gesture: 'pinch' })]);
+  garden.run(Array.from({ length: 60 }, () => [handFrame(end.x, end.y, { gesture: 'pinch' })]));
+  garden.run(Array.from({ length: 60 }, () => []));
+}
+
+const settle = (garden: Garden) => garden.run(Array.from({ length: 60 }, () => []));
+
+// Past the far rim, where a let-go element leaves the garden (and still in view)
+const OFF_SOIL = new THREE.Vector3(0, 0, SOIL_CONFIG.RADIUS + PLACEMENT_CONFIG.REMOVE_MARGIN + 0.5);
+
+describe('useGardenElements', () => {
+  it('drops a new element onto the sand clear of the other stones', () => {
+    const garden = createGardenHarness();
+    const element = garden.addElement('large-stone')!;
+    settle(garden);
+
+    expect(garden.getStones()).toContain(element);
+    expect(element.parent).not.toBeNull();
+    expect(element.position.y).toBeCloseTo(stoneBounds(element).restHeight);
+    const footprint = stoneFootprint(element);
+    for (const stone of garden.stones) {
+      const other = stoneFootprint(stone);
+      const gap = Math.hypot(footprint.x - other.x, footprint.z - other.z);
+      expect(gap).toBeGreaterThanOrEqual(footprint.radius + other.radius - 1e-6);
+    }
+  });
+
+  it('takes an added element out again on undo', () => {
+    const garden = createGardenHarness();
+    const element = garden.addElement('moss')!;
+    settle(garden);
+
+    garden.undo();
+    expect(garden.getStones()).not.toContain(element);
+    expect(element.parent).toBeNull();
+
+    garden.redo();
+    expect(garden.getStones()).toContain(element);
+  });
+
+  it('lets go of an element whose Add is undone while it is held', () => {
+    const garden = createGardenHarness();
+    const moss = garden.addElement('moss')!;
+    settle(garden);
+    const { x, y } = garden.screenPointOf(moss);
+    const pinch = () => [handFrame(x, y, { gesture: 'pinch' })];
+    garden.run(Array.from({ length: 3 }, pinch));
+    expect(garden.isHolding('right')).toBe(true);
+
+    garden.undo();
+    garden.step([handFrame(0.5, 0.05, { gesture: 'pinch' })]);
+    expect(garden.isHolding('right')).toBe(false);
+    settle(garden);
+
+    // Nothing was recorded over the undone Add, so it can still be redone
+    expect(moss.parent).toBeNull();
+    expect(garden.redo()).toBe(true);
+    expect(garden.getStones()).toContain(moss);
+  });
+
+  it('frees an undone element once it can no longer be redone', () => {
+    const garden = createGardenHarness();
+    const lantern = garden.addElement('lantern')!;
+    const meshes: THREE.Mesh[] = [];
+    lantern.traverse((object) => {
+      if (object instanceof THREE.Mesh) meshes.push(object);
+    });
+    const disposals = meshes.map((mesh) => vi.spyOn(mesh.geometry, 'dispose'));
+
+    garden.undo();
+    expect(disposals[0]).not.toHaveBeenCalled();
+    garden.addElement('moss');
+    disposals.forEach((dispose) => expect(dispose).toHaveBeenCalled());
+  });
+
+  it('lets a hand pick up an element made of several parts', () => {
+    const garden = createGardenHarness();
+    const lantern = garden.addElement('lantern')!;
+    settle(garden);
+    const { x, y } = garden.screenPointOf(lantern);
+
+    garden.run(Array.from({ length: 3 }, () => [handFrame(x, y, { gesture: 'pinch' })]));
+    expect(garden.isHolding('right')).toBe(true);
+    expect(lantern.position.y).toBeGreaterThan(stoneBounds(lantern).restHeight);
+  });
+
+  it('removes a stone let go past the rim, and undo puts it back', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const start = stone.position.clone();
+    carry(garden, stone, OFF_SOIL);
+
+    expect(garden.getStones()).not.toContain(stone);
+    expect(stone.parent).toBeNull();
+
+    garden.undo();
+    expect(garden.getStones()).toContain(stone);
+    expect(stone.position.distanceTo(start)).toBeLessThan(1e-6);
+
+    garden.redo();
+    expect(garden.getStones()).not.toContain(stone);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { stoneBounds } from '@/lib/three';
+import type { HandFrame } from '@/types';
+import { createGardenHarness } from '../harness/garden-harness';
+import { handFrame } from '../fixtures/hand-frames';
+
+type Garden = ReturnType<typeof createGardenHarness>;
+
+const STROKE_Z = -2;
+// A point on the drag plane with no stones near it
+const EMPTY_SAND = new THREE.Vector3(0, 0, -3);
+
+/** Rakes along z = STROKE_Z between two x positions, then lifts the rake */
+function rakeStroke(garden: Garden, fromX: number, toX: number): void {
+  const frames: HandFrame[][] = Array.from({ length: 8 }, (_, i) => {
+    const { x, y } = garden.screenPointOf(new THREE.Vector3(fromX + ((toX - fromX) * i) / 7, 0, STROKE_Z));
+    return [handFrame(x, y, { gesture: 'peace' })];
+  });
+  garden.run([...frames, []]);
+}
+
+describe('useGardenHistory', () => {
+  it('undoes and redoes a rake stroke', () => {
+    const garden = createGardenHarness();
+    rakeStroke(garden, -2, -1);
+    rakeStroke(garden, 1, 2);
+
+    garden.undo();
+    expect(garden.sand.getStrokes()).toHaveLength(1);
+    expect(garden.sand.heightAt(1.5, STROKE_Z)).toBe(0);
+    expect(garden.sand.heightAt(-1.5, STROKE_Z)).toBeLessThan(0);
+
+    garden.redo();
+    expect(garden.sand.getStrokes()).toHaveLength(2);
+    expect(garden.sand.heightAt(1.5, STROKE_Z)).toBeLessThan(0);
+  });
+
+  it('brings back the strokes and pattern a clear wiped away', () => {
+    const garden = createGardenHarness();
+    garden.applyPattern('lines');
+    rakeStroke(garden, -2, -1);
+    const raked = garden.sand.heightAt(-1.5, STROKE_Z);
+
+    garden.clearSand();
+    expect(garden.sand.getStrokes()).toHaveLength(0);
+
+    garden.undo();
+    expect(garden.sand.getStrokes()).toHaveLength(1);
+    expect(garden.sand.heightAt(-1.5, STROKE_Z)).toBeCloseTo(raked);
+
+    // The pattern is back too, and still follows the stones
+    garden.undo();
+    garden.undo();
+    expect(garden.sand.heightAt(-1.5, STROKE_Z)).toBe(0);
+  });
+
+  it('puts a moved stone back where it was picked up', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const start = stone.position.clone();
+    const from = garden.screenPointOf(stone);
+    const to = garden.screenPointOf(EMPTY_SAND);
+
+    garden.step([handFrame(from.x, from.y, { gesture: 'pinch' })]);
+    garden.run(Array.from({ length: 60 }, () => [handFrame(to.x, to.y, { gesture: 'pinch' })]));
+    garden.run(Array.from({ length: 60 }, () => [handFrame(to.x, to.y)]));
+    const dropped = stone.position.clone();
+    expect(dropped.y).toBe(stoneBounds(stone).restHeight);
+
+    garden.undo();
+    expect(stone.position.distanceTo(start)).toBeCloseTo(0);
+
+    garden.redo();
+    expect(stone.position.distanceTo(dropped)).toBeCloseTo(0);
+  });
+
+  it('turns a stone spun where it lay back the way it faced', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+
+    garden.run(Array.from({ length: 10 }, () => [handFrame(x, y, { gesture: 'pinch', roll: 1 })]));
+    garden.run(Array.from({ length: 60 }, () => [handFrame(x, y)]));
+    const turned = stone.quaternion.clone();
+
+    garden.undo();
+    expect(stone.quaternion.angleTo(new THREE.Quaternion())).toBeCloseTo(0);
+
+    garden.redo();
+    expect(stone.quaternion.angleTo(turned)).toBeCloseTo(0);
+  });
+
+  it('has nothing to undo when nothing was edited', () => {
+    const garden = createGardenHarness();
+    const { x, y } = garden.screenPointOf(EMPTY_SAND);
+
+    garden.run(Array.from({ length: 5 }, () => [handFrame(x, y, { gesture: 'pinch' })]));
+    garden.run(Array.from({ length: 5 }, () => [handFrame(x, y)]));
+
+    expect(garden.undo()).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { SAND_PATTERN_CONFIG } from '@/constants';
+import { getRakeTool, stoneBounds, stoneFootprint } from '@/lib/three';
+import { createGardenHarness } from '../harness/garden-harness';
+import { handFrame } from '../fixtures/hand-frames';
+
+type Garden = ReturnType<typeof createGardenHarness>;
+
+const tool = getRakeTool(SAND_PATTERN_CONFIG.TOOL);
+// Centre of the first ripple's middle groove, relative to a stone
+const rippleOffset = (stone: THREE.Object3D) =>
+  stoneFootprint(stone).radius +
+  SAND_PATTERN_CONFIG.RIPPLE_GAP +
+  (tool.tines * tool.tineSpacing) / 2;
+
+// A point on the sand well clear of every stone's ripples
+const EMPTY_SAND = new THREE.Vector3(-2, 0, -2.5);
+
+/** Pinches a stone, carries it to `target` and lets it fall */
+function moveStone(garden: Garden, stone: THREE.Object3D, target: THREE.Vector3) {
+  const start = garden.screenPointOf(stone);
+  const end = garden.screenPointOf(target);
+  garden.step([handFrame(start.x, start.y, { gesture: 'pinch' })]);
+  garden.run(Array.from({ length: 60 }, () => [handFrame(end.x, end.y, { gesture: 'pinch' })]));
+  garden.run(Array.from({ length: 60 }, () => []));
+}
+
+describe('useSandPatterns', () => {
+  it('rakes ripples around each stone', () => {
+    const garden = createGardenHarness();
+    garden.applyPattern('ripples');
+
+    for (const stone of garden.stones) {
+      const { x, z } = stone.position;
+      expect(garden.sand.heightAt(x + rippleOffset(stone), z)).toBeLessThan(0);
+    }
+    expect(garden.sand.heightAt(EMPTY_SAND.x, EMPTY_SAND.z)).toBe(0);
+  });
+
+  it('moves the ripples with a stone once it is put down', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const before = stone.position.clone();
+    garden.applyPattern('ripples');
+
+    moveStone(garden, stone, EMPTY_SAND);
+
+    expect(stone.position.y).toBe(stoneBounds(stone).restHeight);
+    const { x, z } = stone.position;
+    expect(garden.sand.heightAt(x + rippleOffset(stone), z)).toBeLessThan(0);
+    expect(garden.sand.heightAt(before.x - rippleOffset(stone), before.z)).toBe(0);
+  });
+
+  it('keeps raked strokes on top of a new pattern', () => {
+    const garden = createGardenHarness();
+    const from = garden.screenPointOf(EMPTY_SAND.clone().setX(EMPTY_SAND.x - 0.5));
+    const to = garden.screenPointOf(EMPTY_SAND.clone().setX(EMPTY_SAND.x + 0.5));
+    garden.run(
+      Array.from({ length: 20 }, (_, i) => {
+        const t = i / 19;
+        return [handFrame(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, { gesture: 'peace' })];
+      })
+    );
+    garden.step([]);
+
+    const raked = garden.sand.heightAt(EMPTY_SAND.x, EMPTY_SAND.z);
+    garden.applyPattern('ripples');
+
+    expect(raked).toBeLessThan(0);
+    expect(garden.sand.getStrokes()).toHaveLength(1);
+    expect(garden.sand.heightAt(EMPTY_SAND.x, EMPTY_SAND.z)).toBeCloseTo(raked);
+  });
+
+  it('stops following stones once the sand is cleared', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    garden.applyPattern('ripples');
+    garden.clearSand();
+
+    moveStone(garden, stone, EMPTY_SAND);
+
+    const { x, z } = stone.position;
+    expect(garden.sand.heightAt(x + rippleOffset(stone), z)).toBe(0);
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { DEFAULT_RAKE_TOOL_SETTINGS } from '@/constants';
+import { getRakeTool, updateRakeToolSettings } from '@/lib/three';
+import type { HandFrame } from '@/types';
+import { createGardenHarness } from '../harness/garden-harness';
+import { handFrame } from '../fixtures/hand-frames';
+
+type Garden = ReturnType<typeof createGardenHarness>;
+
+const STROKE_Z = -2;
+// Midway between the centre tine and its neighbour
+const RIDGE_OFFSET = getRakeTool(DEFAULT_RAKE_TOOL_SETTINGS.toolId).tineSpacing / 2;
+
+/** Screen points along a line across the sand, from x = fromX to x = toX */
+function strokeAcrossSand(garden: Garden, steps: number, fromX = -2, toX = 2): { x: number; y: number }[] {
+  return Array.from({ length: steps }, (_, i) =>
+    garden.screenPointOf(new THREE.Vector3(fromX + ((toX - fromX) * i) / (steps - 1), 0, STROKE_Z))
+  );
+}
+
+function rake(garden: Garden, points: { x: number; y: number }[], options = {}): HandFrame[][] {
+  return points.map(({ x, y }) => [handFrame(x, y, { gesture: 'peace', ...options })]);
+}
+
+describe('useSandRaking', () => {
+  afterEach(() => updateRakeToolSettings(DEFAULT_RAKE_TOOL_SETTINGS));
+
+  it('carves grooves with ridges between them while the peace sign is held', () => {
+    const garden = createGardenHarness();
+    garden.run(rake(garden, strokeAcrossSand(garden, 20)));
+
+    expect(garden.sand.heightAt(0, STROKE_Z)).toBeLessThan(0);
+    expect(garden.sand.heightAt(0, STROKE_Z + RIDGE_OFFSET)).toBeGreaterThan(0);
+  });
+
+  it('leaves the rest of the sand untouched', () => {
+    const garden = createGardenHarness();
+    garden.run(rake(garden, strokeAcrossSand(garden, 20)));
+
+    expect(garden.sand.heightAt(0, 2)).toBe(0);
+    expect(garden.sand.heightAt(3, STROKE_Z)).toBe(0);
+  });
+
+  it('does not rake with an open hand', () => {
+    const garden = createGardenHarness();
+    garden.run(strokeAcrossSand(garden, 10).map(({ x, y }) => [handFrame(x, y)]));
+    expect(garden.sand.heightAt(0, STROKE_Z)).toBe(0);
+  });
+
+  it('does not join separate strokes', () => {
+    const garden = createGardenHarness();
+    const lift = (point: { x: number; y: number }) => [handFrame(point.x, point.y)];
+    const first = strokeAcrossSand(garden, 5, -2, -1);
+    const second = strokeAcrossSand(garden, 5, 1, 2);
+
+    garden.run([...rake(garden, first), lift(first[4]), ...rake(garden, second), lift(second[4])]);
+
+    expect(garden.sand.heightAt(-1.5, STROKE_Z)).toBeLessThan(0);
+    expect(garden.sand.heightAt(1.5, STROKE_Z)).toBeLessThan(0);
+    expect(garden.sand.heightAt(0, STROKE_Z)).toBe(0);
+    expect(garden.sand.getStrokes()).toHaveLength(2);
+  });
+
+  it('keeps every stroke', () => {
+    const garden = createGardenHarness();
+    const lift = (point: { x: number; y: number }) => [handFrame(point.x, point.y)];
+    const stroke = strokeAcrossSand(garden, 5);
+
+    for (let i = 0; i < 20; i++) garden.run([...rake(garden, stroke), lift(stroke[4])]);
+
+    expect(garden.sand.getStrokes()).toHaveLength(20);
+  });
+
+  it('spaces stroke points by distance rather than frame rate', () => {
+    const slow = createGardenHarness();
+    const fast = createGardenHarness();
+    slow.run(rake(slow, strokeAcrossSand(slow, 60)));
+    fast.run(rake(fast, strokeAcrossSand(fast, 8)));
+    slow.run([[]]);
+    fast.run([[]]);
+
+    const [slowStroke] = slow.sand.getStrokes();
+    const [fastStroke] = fast.sand.getStrokes();
+    expect(slowStroke.points.length).toBeGreaterThan(8);
+    expect(Math.abs(slowStroke.points.length - fastStroke.points.length)).toBeLessThanOrEqual(1);
+  });
+
+  it('gives the rake to the first hand until it lets go', () => {
+    const garden = createGardenHarness();
+    const [still] = strokeAcrossSand(garden, 2, 1.5, 2);
+    const moving = strokeAcrossSand(garden, 10, -2, 0);
+    const right = handFrame(still.x, still.y, { gesture: 'peace', handedness: 'right' });
+    const left = moving.map(({ x, y }) => handFrame(x, y, { gesture: 'peace', handedness: 'left' }));
+
+    // The left hand moves across the sand while the right hand holds the rake still
+    garden.run(left.slice(0, 5).map((frame) => [right, frame]));
+    expect(garden.sand.heightAt(-1.5, STROKE_Z)).toBe(0);
+
+    // Right hand leaves; the left hand picks the rake up on the next tick
+    garden.run(left.slice(5).map((frame) => [frame]));
+    expect(garden.sand.heightAt(-0.5, STROKE_Z)).toBeLessThan(0);
+  });
+
+  it('rakes with the selected tool', () => {
+    updateRakeToolSettings({ toolId: 'stylus' });
+    const garden = createGardenHarness();
+    garden.run([...rake(garden, strokeAcrossSand(garden, 20)), []]);
+
+    expect(garden.sand.heightAt(0, STROKE_Z)).toBeLessThan(0);
+    expect(garden.sand.heightAt(0, STROKE_Z + RIDGE_OFFSET * 2)).toBe(0);
+    expect(garden.sand.getStrokes()[0].toolId).toBe('stylus');
+  });
+
+  it('presses a stamp once where the rake touches down', () => {
+    updateRakeToolSettings({ toolId: 'stamp-circle' });
+    const stamp = getRakeTool('stamp-circle');
+    const garden = createGardenHarness();
+    garden.run([...rake(garden, strokeAcrossSand(garden, 10, 0, 1)), [handFrame(0, 0)]]);
+
+    expect(garden.sand.heightAt(stamp.tineSpacing, STROKE_Z)).toBeLessThan(0);
+    expect(garden.sand.heightAt(-stamp.tineSpacing, STROKE_Z)).toBeLessThan(0);
+    // Dragging the stamp leaves no trail
+    expect(garden.sand.heightAt(1 + stamp.tineSpacing, STROKE_Z)).toBe(0);
+    expect(garden.sand.getStrokes()).toEqual([
+      { toolId: 'stamp-circle', points: [expect.objectContaining({ x: expect.closeTo(0, 1) })] },
+    ]);
+  });
+
+  it('twists the rake with hand roll when enabled', () => {
+    updateRakeToolSettings({ twistWithRoll: true });
+    const garden = createGardenHarness();
+    garden.run(rake(garden, strokeAcrossSand(garden, 20), { roll: 1 }));
+    garden.run([[]]);
+
+    const [stroke] = garden.sand.getStrokes();
+    expect(stroke.points.every(({ twist }) => twist > 0)).toBe(true);
+  });
+
+  it('smooths the sand flat when cleared', () => {
+    const garden = createGardenHarness();
+    garden.run(rake(garden, strokeAcrossSand(garden, 10)));
+    garden.clearSand();
+    expect(garden.sand.heightAt(0, STROKE_Z)).toBe(0);
+    expect(garden.sand.getStrokes()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { SMOOTHING_CONFIG } from '@/constants';
+import type { HandFrame } from '@/types';
+import { createGardenHarness } from '../harness/garden-harness';
+import { handFrame } from '../fixtures/hand-frames';
+
+type Garden = ReturnType<typeof createGardenHarness>;
+
+const FRAME_MS = 16;
+// Near the front of the garden, so in the bottom half of the screen
+const STROKE_Z = -2.5;
+
+function pointOnSand(garden: Garden, x: number): { x: number; y: number } {
+  return garden.screenPointOf(new THREE.Vector3(x, 0, STROKE_Z));
+}
+
+/** Rakes across the front of the garden and lifts the rake */
+function rakeStroke(garden: Garden): void {
+  const points = Array.from({ length: 20 }, (_, i) => pointOnSand(garden, -1.5 + (3 * i) / 19));
+  playFrames(garden, [
+    ...points.map(({ x, y }) => [handFrame(x, y, { gesture: 'peace' })]),
+    [],
+  ]);
+}
+
+function playFrames(garden: Garden, sequence: HandFrame[][]): void {
+  for (const frames of sequence) {
+    vi.advanceTimersByTime(FRAME_MS);
+    garden.step(frames);
+  }
+}
+
+/** An open palm held still at a point for `durationMs` */
+function rest(point: { x: number; y: number }, durationMs: number): HandFrame[][] {
+  return Array.from({ length: Math.ceil(durationMs / FRAME_MS) }, () => [handFrame(point.x, point.y)]);
+}
+
+describe('useSandSmoothing', () => {
+  beforeEach(() => vi.useFakeTimers({ toFake: ['Date'] }));
+  afterEach(() => vi.useRealTimers());
+
+  it('binds smoothing to an open palm in the bottom half of the screen', () => {
+    const garden = createGardenHarness();
+    expect(pointOnSand(garden, 0).y).toBeGreaterThan(0.5);
+  });
+
+  it('flattens the sand under a palm that has rested on it', () => {
+    const garden = createGardenHarness();
+    rakeStroke(garden);
+    expect(garden.sand.heightAt(0, STROKE_Z)).toBeLessThan(0);
+
+    playFrames(garden, rest(pointOnSand(garden, 0), SMOOTHING_CONFIG.ENGAGE_MS + 100));
+
+    expect(garden.isSmoothing()).toBe(true);
+    expect(garden.sand.heightAt(0, STROKE_Z)).toBeCloseTo(0);
+    expect(garden.sand.heightAt(1.2, STROKE_Z)).toBeLessThan(0);
+  });
+
+  it('keeps smoothing as the rested palm moves', () => {
+    const garden = createGardenHarness();
+    rakeStroke(garden);
+    const sweep = Array.from({ length: 20 }, (_, i) => pointOnSand(garden, (1.2 * i) / 19));
+
+    playFrames(garden, [
+      ...rest(sweep[0], SMOOTHING_CONFIG.ENGAGE_MS + 100),
+      ...sweep.map(({ x, y }) => [handFrame(x, y)]),
+    ]);
+
+    expect(garden.sand.heightAt(1.2, STROKE_Z)).toBeCloseTo(0);
+    expect(garden.sand.heightAt(-1.2, STROKE_Z)).toBeLessThan(0);
+  });
+
+  it('leaves the sand alone while the palm passes over it', () => {
+    const garden = createGardenHarness();
+    rakeStroke(garden);
+    const before = garden.sand.heightAt(0, STROKE_Z);
+    const sweep = Array.from({ length: 60 }, (_, i) => pointOnSand(garden, -1.5 + (3 * i) / 59));
+
+    playFrames(garden, sweep.map(({ x, y }) => [handFrame(x, y)]));
+
+    expect(garden.isSmoothing()).toBe(false);
+    expect(garden.sand.heightAt(0, STROKE_Z)).toBe(before);
+  });
+
+  it('stops when the hand leaves the view and keeps the smoothing as a stroke', () => {
+    const garden = createGardenHarness();
+    rakeStroke(garden);
+
+    playFrames(garden, [...rest(pointOnSand(garden, 0), SMOOTHING_CONFIG.ENGAGE_MS + 100), []]);
+
+    expect(garden.isSmoothing()).toBe(false);
+    expect(garden.sand.getStrokes().map((stroke) => stroke.toolId)).toEqual(['rake-5', 'smoother']);
+  });
+});
@@ -0,0 +1,260 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { GESTURE_CONFIG, PLACEMENT_CONFIG, SOIL_CONFIG, STONE_CONFIG } from '@/constants';
+import { bonsaiFootprint, findSupport, stoneBounds, stoneFootprint } from '@/lib/three';
+import { createGardenHarness } from '../harness/garden-harness';
+import { handFrame } from '../fixtures/hand-frames';
+
+function emissiveOf(stone: THREE.Mesh): number {
+  return (stone.material as THREE.MeshStandardMaterial).emissive.getHex();
+}
+
+type Garden = ReturnType<typeof createGardenHarness>;
+
+// A point on the drag plane with no stones near it
+const EMPTY_SAND = new THREE.Vector3(0, 0, -3);
+
+/** Pinches a stone, carries it towards `target` and lets it fall */
+function carry(garden: Garden, stone: THREE.Object3D, target: THREE.Vector3) {
+  const start = garden.screenPointOf(stone);
+  const end = garden.screenPointOf(target);
+  garden.step([handFrame(start.x, start.y, { gesture: 'pinch' })]);
+  garden.run(Array.from({ length: 60 }, () => [handFrame(end.x, end.y, { gesture: 'pinch' })]));
+  garden.run(Array.from({ length: 60 }, () => []));
+}
+
+/** The point on the sand under a stone's centre, `dx` along */
+function sandUnder(stone: THREE.Object3D, dx = 0): THREE.Vector3 {
+  return new THREE.Vector3(stone.position.x + dx, 0, stone.position.z);
+}
+
+/** Gap between two footprints; negative when they overlap */
+function gapBetween(a: { x: number; z: number; radius: number }, b: typeof a): number {
+  return Math.hypot(a.x - b.x, a.z - b.z) - a.radius - b.radius;
+}
+
+describe('useStoneLevitation', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('highlights a stone under an open hand', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+
+    garden.step([handFrame(x, y)]);
+    expect(emissiveOf(stone)).toBe(STONE_CONFIG.EMISSIVE_HOVER);
+
+    garden.step([]);
+    expect(emissiveOf(stone)).toBe(STONE_CONFIG.EMISSIVE_NORMAL);
+  });
+
+  it('grabs the stone under a pinch and lifts it to hover height', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+
+    garden.run(Array.from({ length: 3 }, () => [handFrame(x, y, { gesture: 'pinch' })]));
+
+    expect(garden.isHolding('right')).toBe(true);
+    expect(emissiveOf(stone)).toBe(STONE_CONFIG.EMISSIVE_GRAB);
+    expect(stone.position.y).toBeGreaterThan(stoneBounds(stone).restHeight);
+  });
+
+  it('carries a held stone towards the hand', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const start = garden.screenPointOf(stone);
+    const target = garden.screenPointOf(EMPTY_SAND);
+    garden.step([handFrame(start.x, start.y, { gesture: 'pinch' })]);
+    garden.run(Array.from({ length: 60 }, () => [handFrame(target.x, target.y, { gesture: 'pinch' })]));
+
+    const flatDistance = Math.hypot(stone.position.x - EMPTY_SAND.x, stone.position.z - EMPTY_SAND.z);
+    expect(flatDistance).toBeLessThan(0.05);
+  });
+
+  it('drops a released stone back to the ground', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+
+    garden.run(Array.from({ length: 5 }, () => [handFrame(x, y, { gesture: 'pinch' })]));
+    garden.step([handFrame(x, y)]);
+    expect(garden.isHolding('right')).toBe(false);
+
+    garden.run(Array.from({ length: 60 }, () => [handFrame(x, y)]));
+    expect(stone.position.y).toBe(stoneBounds(stone).restHeight);
+  });
+
+  it('drops the stone when the hand leaves the frame', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+
+    garden.run(Array.from({ length: 5 }, () => [handFrame(x, y, { gesture: 'pinch' })]));
+    garden.run(Array.from({ length: 60 }, () => []));
+
+    expect(garden.isHolding('right')).toBe(false);
+    expect(stone.position.y).toBe(stoneBounds(stone).restHeight);
+  });
+
+  it('does not grab anything when pinching empty sand', () => {
+    const garden = createGardenHarness();
+    const { x, y } = garden.screenPointOf(EMPTY_SAND);
+
+    garden.run(Array.from({ length: 5 }, () => [handFrame(x, y, { gesture: 'pinch' })]));
+    expect(garden.isHolding('right')).toBe(false);
+  });
+
+  it('lets each hand hold a different stone but not the same one', () => {
+    const garden = createGardenHarness();
+    const [first, second] = garden.stones;
+    const a = garden.screenPointOf(first);
+    const b = garden.screenPointOf(second);
+
+    garden.step([
+      handFrame(a.x, a.y, { gesture: 'pinch', handedness: 'right' }),
+      handFrame(a.x, a.y, { gesture: 'pinch', handedness: 'left' }),
+    ]);
+    expect(garden.isHolding('right')).toBe(true);
+    expect(garden.isHolding('left')).toBe(false);
+
+    garden.step([
+      handFrame(a.x, a.y, { gesture: 'pinch', handedness: 'right' }),
+      handFrame(b.x, b.y, { handedness: 'left' }),
+    ]);
+    garden.step([
+      handFrame(a.x, a.y, { gesture: 'pinch', handedness: 'right' }),
+      handFrame(b.x, b.y, { gesture: 'pinch', handedness: 'left' }),
+    ]);
+    expect(garden.isHolding('left')).toBe(true);
+  });
+
+  it('spins a held stone as the wrist twists and keeps its facing once dropped', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+
+    garden.step([handFrame(x, y, { gesture: 'pinch' })]);
+    garden.run(Array.from({ length: 10 }, () => [handFrame(x, y, { gesture: 'pinch', roll: 0.5 })]));
+    const facing = stone.quaternion.clone();
+    garden.run(Array.from({ length: 60 }, () => []));
+
+    const expected = new THREE.Quaternion().setFromAxisAngle(
+      new THREE.Vector3(0, 1, 0),
+      0.5 * GESTURE_CONFIG.STONE_SPIN_RANGE
+    );
+    expect(facing.angleTo(expected)).toBeCloseTo(0);
+    expect(stone.quaternion.angleTo(facing)).toBeCloseTo(0);
+  });
+
+  it('turns with the wrist rather than with the number of frames', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+    const hold = (frames: number, roll: number) =>
+      garden.run(Array.from({ length: frames }, () => [handFrame(x, y, { gesture: 'pinch', roll })]));
+
+    hold(1, 0);
+    hold(5, 0.3);
+    const twisted = stone.quaternion.clone();
+    hold(50, 0.3);
+    expect(stone.quaternion.angleTo(twisted)).toBeCloseTo(0);
+
+    // Twisting back turns it back
+    hold(1, 0);
+    expect(stone.quaternion.angleTo(new THREE.Quaternion())).toBeCloseTo(0);
+  });
+
+  it('measures the twist from where the wrist was at the grab', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+
+    garden.run(Array.from({ length: 10 }, () => [handFrame(x, y, { gesture: 'pinch', roll: 0.4 })]));
+    expect(stone.quaternion.angleTo(new THREE.Quaternion())).toBe(0);
+  });
+
+  it('raises a held stone as the hand comes nearer and lowers it as it backs off', () => {
+    // Hold the hover bob still
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    const { x, y } = garden.screenPointOf(stone);
+    const hold = (depth: number) =>
+      garden.run(Array.from({ length: 5 }, () => [handFrame(x, y, { gesture: 'pinch', depth })]));
+
+    hold(-0.2);
+    const hover = stone.position.y;
+    hold(0.3);
+    expect(stone.position.y - hover).toBeCloseTo(0.5 * GESTURE_CONFIG.STONE_LIFT_RANGE, 1);
+
+    // Never down into the sand
+    hold(-1);
+    expect(stone.position.y - stoneBounds(stone).restHeight).toBeGreaterThan(0);
+  });
+
+  it('keeps a carried stone on the soil', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    // Past the rim, but not far enough to take the stone out of the garden
+    const rim = SOIL_CONFIG.RADIUS + PLACEMENT_CONFIG.REMOVE_MARGIN / 2;
+    carry(garden, stone, new THREE.Vector3(-rim, 0, 0));
+
+    const { x, z, radius } = stoneFootprint(stone);
+    expect(Math.hypot(x, z) + radius).toBeLessThan(SOIL_CONFIG.RADIUS);
+  });
+
+  it('slides a stone carried into the bonsai round its trunk', () => {
+    const garden = createGardenHarness();
+    const [stone] = garden.stones;
+    carry(garden, stone, garden.bonsai.position);
+
+    expect(gapBetween(stoneFootprint(stone), bonsaiFootprint(garden.bonsai))).toBeGreaterThan(-1e-6);
+  });
+
+  it('pushes apart a stone put down against the edge of another', () => {
+    const garden = createGardenHarness();
+    const [stone, other] = garden.stones;
+    const { radius } = stoneFootprint(other);
+    carry(garden, stone, sandUnder(other, radius * 1.2));
+
+    expect(gapBetween(stoneFootprint(stone), stoneFootprint(other))).toBeGreaterThan(-1e-6);
+    expect(stone.position.y).toBe(stoneBounds(stone).restHeight);
+  });
+
+  it('settles a stone let go above another on top of it', () => {
+    const garden = createGardenHarness();
+    const [base, , stone] = garden.stones;
+    carry(garden, stone, sandUnder(base));
+
+    const support = findSupport(stone, [base]);
+    expect(support.stone).toBe(base);
+    expect(stone.position.y).toBeCloseTo(support.height);
+    expect(stone.position.y).toBeGreaterThan(base.position.y * 2);
+
+    // And stays there
+    garden.run(Array.from({ length: 30 }, () => []));
+    expect(stone.position.y).toBeCloseTo(support.height);
+  });
+
+  it('topples a stone stacked too far off-centre', () => {
+    const garden = createGardenHarness();
+    const [base, , stone] = garden.stones;
+    const { radius } = stoneFootprint(base);
+    carry(garden, stone, sandUnder(base, radius * 0.7));
+    garden.run(Array.from({ length: 60 }, () => []));
+
+    expect(stone.quaternion.angleTo(new THREE.Quaternion())).toBeGreaterThan(0);
+    expect(stone.position.y).toBeCloseTo(stoneBounds(stone).restHeight);
+    expect(stone.position.x).toBeGreaterThan(base.position.x + radius);
+  });
+
+  it('drops a stacked stone when the one under it is picked up', () => {
+    const garden = createGardenHarness();
+    const [base, , stone] = garden.stones;
+    carry(garden, stone, sandUnder(base));
+    carry(garden, base, EMPTY_SAND);
+
+    expect(stone.position.y).toBe(stoneBounds(stone).restHeight);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { SCREEN_REGIONS } from '@/constants';
+import { createGardenHarness } from '../harness/garden-harness';
+import { handFrame } from '../fixtures/hand-frames';
+
+describe('useTimeControl', () => {
+  it('starts at midday', () => {
+    expect(createGardenHarness().getTimeOfDay()).toBe(0.5);
+  });
+
+  it('moves the sun towards a fist in the upper half of the screen', () => {
+    const garden = createGardenHarness();
+    // The higher the fist, the later in the day
+    garden.step([handFrame(0.5, 0.1, { gesture: 'fist' })]);
+    const afterOne = garden.getTimeOfDay();
+    expect(afterOne).toBeGreaterThan(0.5);
+
+    garden.run(Array.from({ length: 300 }, () => [handFrame(0.5, 0.1, { gesture: 'fist' })]));
+    expect(garden.getTimeOfDay()).toBeGreaterThan(afterOne);
+    expect(garden.getTimeOfDay()).toBeCloseTo(0.8, 2);
+  });
+
+  it('reaches full day at the top of the screen and night at the bottom of the fist region', () => {
+    const garden = createGardenHarness();
+    garden.run(Array.from({ length: 300 }, () => [handFrame(0.5, 0, { gesture: 'fist' })]));
+    expect(garden.getTimeOfDay()).toBeCloseTo(1, 2);
+
+    // The lowest a fist can be and still control time: the top region ends halfway down
+    const lowest = SCREEN_REGIONS.top.maxY - 0.001;
+    garden.run(Array.from({ length: 300 }, () => [handFrame(0.5, lowest, { gesture: 'fist' })]));
+    expect(garden.getTimeOfDay()).toBeCloseTo(0, 2);
+  });
+
+  it('ignores a fist in the lower half, which brakes instead', () => {
+    const garden = createGardenHarness();
+    garden.run(Array.from({ length: 20 }, () => [handFrame(0.1, 0.8, { gesture: 'fist' })]));
+    expect(garden.getTimeOfDay()).toBe(0.5);
+  });
+
+  it('holds the time of day once the fist opens', () => {
+    const garden = createGardenHarness();
+    garden.run(Array.from({ length: 20 }, () => [handFrame(0.5, 0.1, { gesture: 'fist' })]));
+    const time = garden.getTimeOfDay();
+
+    garden.run(Array.from({ length: 20 }, () => [handFrame(0.5, 0.4)]));
+    expect(garden.getTimeOfDay()).toBe(time);
+  });
+
+  it('follows whichever hand makes the fist', () => {
+    const garden = createGardenHarness();
+    garden.run(
+      Array.from({ length: 300 }, () => [
+        handFrame(0.3, 0.1, { handedness: 'right' }),
+        handFrame(0.7, 0.4, { handedness: 'left', gesture: 'fist' }),
+      ])
+    );
+    expect(garden.getTimeOfDay()).toBeCloseTo(0.2, 2);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { CAMERA_CONFIG, DEFAULT_GESTURE_BINDINGS, TWO_HAND_CONFIG } from '@/constants';
+import { resolveActions } from '@/lib/mediapipe';
+import { createCamera } from '@/lib/three';
+import { useTwoHandTransform } from '@/hooks';
+import type { HandFrame, Handedness } from '@/types';
+import { handFrame } from '../fixtures/hand-frames';
+
+/** Both hands pinching, `spread` apart and turned `angle` radians about their midpoint */
+function grip(spread: number, angle = 0): HandFrame[] {
+  const dx = (Math.cos(angle) * spread) / 2;
+  const dy = (Math.sin(angle) * spread) / 2;
+  return [
+    handFrame(0.5 - dx, 0.5 - dy, { handedness: 'left', gesture: 'pinch' }),
+    handFrame(0.5 + dx, 0.5 + dy, { handedness: 'right', gesture: 'pinch' }),
+  ];
+}
+
+function setup(isHolding: (handedness: Handedness) => boolean = () => false) {
+  const camera = createCamera();
+  const rotateBy = vi.fn();
+  const { result } = renderHook(() =>
+    useTwoHandTransform({ current: { camera } }, rotateBy, isHolding)
+  );
+  const step = (frames: HandFrame[]): boolean =>
+    result.current.updateTwoHandTransform(
+      frames.map((frame) => ({ frame, actions: resolveActions(frame, DEFAULT_GESTURE_BINDINGS) }))
+    );
+  const cameraDistance = () => camera.position.distanceTo(CAMERA_CONFIG.LOOK_AT);
+  const totalRotation = () => rotateBy.mock.calls.reduce((sum, [delta]) => sum + delta, 0);
+  return { camera, rotateBy, step, cameraDistance, totalRotation };
+}
+
+describe('useTwoHandTransform', () => {
+  it('grips only while both hands pinch', () => {
+    const { step } = setup();
+    const [left, right] = grip(0.4);
+
+    expect(step([right])).toBe(false);
+    expect(step([left, handFrame(right.x, right.y, { handedness: 'right' })])).toBe(false);
+    expect(step([left, right])).toBe(true);
+  });
+
+  it('leaves the hands to the stones while either one holds a stone', () => {
+    const { step, rotateBy } = setup((handedness) => handedness === 'left');
+    expect(step(grip(0.4))).toBe(false);
+    expect(step(grip(0.4, 0.2))).toBe(false);
+    expect(rotateBy).not.toHaveBeenCalled();
+  });
+
+  it('turns the garden as the hands twist', () => {
+    const { step, totalRotation } = setup();
+    step(grip(0.4));
+    for (let i = 1; i <= 5; i++) step(grip(0.4, i * 0.1));
+    expect(totalRotation()).toBeCloseTo(0.5 * TWO_HAND_CONFIG.TWIST_MULTIPLIER);
+  });
+
+  it('twists smoothly past the hands standing upright', () => {
+    const { step, rotateBy } = setup();
+    // The angle between the hands wraps from +π to -π on the way round
+    step(grip(0.4, Math.PI - 0.1));
+    step(grip(0.4, Math.PI + 0.1));
+    expect(rotateBy).toHaveBeenCalledOnce();
+    expect(rotateBy.mock.calls[0][0]).toBeCloseTo(0.2 * TWO_HAND_CONFIG.TWIST_MULTIPLIER);
+  });
+
+  it('zooms in as the hands spread and out as they close, within limits', () => {
+    const { step, cameraDistance } = setup();
+    const resting = cameraDistance();
+
+    step(grip(0.2));
+    for (let i = 0; i < 60; i++) step(grip(0.3));
+    expect(cameraDistance()).toBeCloseTo(resting / 1.5);
+
+    for (let i = 0; i < 60; i++) step(grip(0.8));
+    expect(cameraDistance()).toBeCloseTo(resting / TWO_HAND_CONFIG.ZOOM_MAX);
+
+    for (let i = 0; i < 60; i++) step(grip(0.01));
+    expect(cameraDistance()).toBeCloseTo(resting / TWO_HAND_CONFIG.ZOOM_MIN);
+  });
+
+  it('keeps the zoom when the grip is let go', () => {
+    const { step, cameraDistance } = setup();
+    step(grip(0.2));
+    for (let i = 0; i < 60; i++) step(grip(0.3));
+    const zoomed = cameraDistance();
+
+    for (let i = 0; i < 10; i++) step([]);
+    expect(cameraDistance()).toBeCloseTo(zoomed);
+  });
+
+  it('starts a fresh grip when a hand drops out and comes back', () => {
+    const { step, rotateBy, cameraDistance } = setup();
+    step(grip(0.4));
+    step([grip(0.4)[1]]);
+
+    // Back at another angle and spread: nothing jumps until the hands move again
+    step(grip(0.2, 1));
+    expect(rotateBy).not.toHaveBeenCalled();
+    const before = cameraDistance();
+    step(grip(0.2, 1));
+    expect(rotateBy).toHaveBeenCalledWith(0);
+    expect(cameraDistance()).toBeCloseTo(before);
+  });
+});
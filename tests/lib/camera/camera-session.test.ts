@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CAMERA_SETTINGS } from '@/constants';
+import { startCameraSession } from '@/lib/camera';
+
+function fakeStream(deviceId: string) {
+  const track = Object.assign(new EventTarget(), {
+    stop: vi.fn(),
+    getSettings: () => ({ deviceId }),
+  });
+  const stream = {
+    getTracks: () => [track],
+    getVideoTracks: () => [track],
+  } as unknown as MediaStream;
+  return { stream, track };
+}
+
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('startCameraSession', () => {
+  let devices: EventTarget & Partial<MediaDevices>;
+  let attached: string[];
+  const handlers = { onOpen: vi.fn(), onLost: vi.fn(), onError: vi.fn() };
+
+  beforeEach(() => {
+    attached = ['usb'];
+    devices = Object.assign(new EventTarget(), {
+      getUserMedia: vi.fn(async () => fakeStream('usb').stream),
+      enumerateDevices: async () =>
+        attached.map((deviceId) => ({ kind: 'videoinput', deviceId, label: deviceId })) as MediaDeviceInfo[],
+    });
+    vi.stubGlobal('navigator', { ...navigator, mediaDevices: devices });
+    Object.values(handlers).forEach((handler) => handler.mockReset());
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('opens the camera and stops it again', async () => {
+    const { stream, track } = fakeStream('usb');
+    vi.mocked(devices.getUserMedia!).mockResolvedValueOnce(stream);
+
+    const session = startCameraSession(DEFAULT_CAMERA_SETTINGS, handlers);
+    await flush();
+    expect(handlers.onOpen).toHaveBeenCalledWith(stream);
+
+    session.stop();
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('reports why the camera could not open', async () => {
+    vi.mocked(devices.getUserMedia!).mockRejectedValueOnce(new DOMException('', 'NotReadableError'));
+
+    startCameraSession(DEFAULT_CAMERA_SETTINGS, handlers);
+    await flush();
+
+    expect(handlers.onError).toHaveBeenCalledWith('busy', expect.any(DOMException));
+  });
+
+  it('reopens the same device once it is plugged back in', async () => {
+    const { stream, track } = fakeStream('usb');
+    vi.mocked(devices.getUserMedia!).mockResolvedValueOnce(stream);
+    startCameraSession(DEFAULT_CAMERA_SETTINGS, handlers);
+    await flush();
+
+    attached = [];
+    track.dispatchEvent(new Event('ended'));
+    expect(handlers.onLost).toHaveBeenCalledTimes(1);
+
+    devices.dispatchEvent(new Event('devicechange'));
+    await flush();
+    expect(devices.getUserMedia).toHaveBeenCalledTimes(1);
+
+    attached = ['usb'];
+    devices.dispatchEvent(new Event('devicechange'));
+    devices.dispatchEvent(new Event('devicechange'));
+    await flush();
+
+    expect(devices.getUserMedia).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(devices.getUserMedia!).mock.calls[1][0]).toMatchObject({
+      video: { deviceId: { exact: 'usb' } },
+    });
+    expect(handlers.onOpen).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops waiting for the camera when stopped', async () => {
+    const { stream, track } = fakeStream('usb');
+    vi.mocked(devices.getUserMedia!).mockResolvedValueOnce(stream);
+    const session = startCameraSession(DEFAULT_CAMERA_SETTINGS, handlers);
+    await flush();
+
+    track.dispatchEvent(new Event('ended'));
+    session.stop();
+    devices.dispatchEvent(new Event('devicechange'));
+    await flush();
+
+    expect(devices.getUserMedia).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CAMERA_SETTINGS } from '@/constants';
+import { buildVideoConstraints, classifyCameraError, listCameras, openCamera } from '@/lib/camera';
+
+function domError(name: string): DOMException {
+  return new DOMException('camera failed', name);
+}
+
+function mockMediaDevices(devices: Partial<MediaDevices>) {
+  vi.stubGlobal('navigator', { ...navigator, mediaDevices: devices });
+}
+
+describe('classifyCameraError', () => {
+  it.each([
+    ['NotAllowedError', 'permission-denied'],
+    ['SecurityError', 'permission-denied'],
+    ['NotFoundError', 'no-camera'],
+    ['OverconstrainedError', 'no-camera'],
+    ['NotReadableError', 'busy'],
+    ['AbortError', 'busy'],
+    ['TypeError', 'unknown'],
+  ])('reads %s as %s', (name, kind) => {
+    expect(classifyCameraError(domError(name))).toBe(kind);
+  });
+
+  it('reads anything that is not an error as unknown', () => {
+    expect(classifyCameraError('nope')).toBe('unknown');
+  });
+});
+
+describe('buildVideoConstraints', () => {
+  it('asks for the resolution and frame rate as ideals', () => {
+    expect(buildVideoConstraints({ deviceId: null, resolution: '720p', frameRate: 60 })).toEqual({
+      width: { ideal: 1280 },
+      height: { ideal: 720 },
+      frameRate: { ideal: 60 },
+    });
+  });
+
+  it('requires the chosen device exactly', () => {
+    const constraints = buildVideoConstraints({ ...DEFAULT_CAMERA_SETTINGS, deviceId: 'usb' });
+    expect(constraints.deviceId).toEqual({ exact: 'usb' });
+  });
+});
+
+describe('openCamera', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('falls back to the default camera when the remembered one is gone', async () => {
+    const stream = {} as MediaStream;
+    const getUserMedia = vi
+      .fn()
+      .mockRejectedValueOnce(domError('OverconstrainedError'))
+      .mockResolvedValueOnce(stream);
+    mockMediaDevices({ getUserMedia });
+
+    await expect(openCamera({ ...DEFAULT_CAMERA_SETTINGS, deviceId: 'usb' })).resolves.toBe(stream);
+    expect(getUserMedia.mock.calls[1][0].video.deviceId).toBeUndefined();
+  });
+
+  it('does not retry when permission is denied', async () => {
+    const getUserMedia = vi.fn().mockRejectedValue(domError('NotAllowedError'));
+    mockMediaDevices({ getUserMedia });
+
+    await expect(openCamera({ ...DEFAULT_CAMERA_SETTINGS, deviceId: 'usb' })).rejects.toThrow();
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('listCameras', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('lists video inputs and names unlabeled ones', async () => {
+    mockMediaDevices({
+      enumerateDevices: async () =>
+        [
+          { kind: 'audioinput', deviceId: 'mic', label: 'Mic' },
+          { kind: 'videoinput', deviceId: 'a', label: 'FaceTime HD' },
+          { kind: 'videoinput', deviceId: 'b', label: '' },
+        ] as MediaDeviceInfo[],
+    });
+
+    expect(await listCameras()).toEqual([
+      { deviceId: 'a', label: 'FaceTime HD' },
+      { deviceId: 'b', label: 'Camera 2' },
+    ]);
+  });
+});
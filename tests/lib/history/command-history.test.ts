@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createCommandHistory, stateChangeCommand } from '@/lib/history';
+import type { GardenCommand } from '@/types';
+
+/** A command that adds `amount` to a shared counter */
+function addCommand(counter: { value: number }, amount: number): GardenCommand {
+  counter.value += amount;
+  return {
+    label: `Add ${amount}`,
+    undo: () => (counter.value -= amount),
+    redo: () => (counter.value += amount),
+  };
+}
+
+describe('createCommandHistory', () => {
+  it('undoes edits newest first and redoes them in order', () => {
+    const counter = { value: 0 };
+    const history = createCommandHistory();
+    history.record(addCommand(counter, 1));
+    history.record(addCommand(counter, 10));
+
+    expect(history.undo()).toBe(true);
+    expect(counter.value).toBe(1);
+    expect(history.undo()).toBe(true);
+    expect(counter.value).toBe(0);
+    expect(history.undo()).toBe(false);
+
+    history.redo();
+    history.redo();
+    expect(counter.value).toBe(11);
+    expect(history.redo()).toBe(false);
+  });
+
+  it('forgets what could be redone once a new edit is made', () => {
+    const counter = { value: 0 };
+    const history = createCommandHistory();
+    history.record(addCommand(counter, 1));
+    history.undo();
+    history.record(addCommand(counter, 5));
+
+    expect(history.redo()).toBe(false);
+    expect(history.getState()).toEqual({ undoLabel: 'Add 5', redoLabel: null });
+  });
+
+  it('keeps only the newest edits beyond its limit', () => {
+    const counter = { value: 0 };
+    const history = createCommandHistory(3);
+    for (let i = 1; i <= 5; i++) history.record(addCommand(counter, i));
+
+    while (history.undo());
+    expect(counter.value).toBe(1 + 2);
+  });
+
+  it('tells each command it lets go of whether it was left done or undone', () => {
+    const counter = { value: 0 };
+    const history = createCommandHistory(1);
+    const commands = [1, 2, 3].map((amount) => ({
+      ...addCommand(counter, amount),
+      forget: vi.fn(),
+    }));
+
+    history.record(commands[0]);
+    history.record(commands[1]);
+    expect(commands[0].forget).toHaveBeenCalledWith('done');
+
+    history.undo();
+    history.record(commands[2]);
+    expect(commands[1].forget).toHaveBeenCalledWith('undone');
+
+    history.clear();
+    expect(commands[2].forget).toHaveBeenCalledWith('done');
+  });
+
+  it('reports what can be undone and redone after every change', () => {
+    const onChange = vi.fn();
+    const history = createCommandHistory(10, onChange);
+    history.record(addCommand({ value: 0 }, 1));
+    history.undo();
+    history.clear();
+
+    expect(onChange.mock.calls.map(([state]) => state)).toEqual([
+      { undoLabel: 'Add 1', redoLabel: null },
+      { undoLabel: null, redoLabel: 'Add 1' },
+      { undoLabel: null, redoLabel: null },
+    ]);
+  });
+});
+
+describe('stateChangeCommand', () => {
+  it('restores the state before and after the change', () => {
+    const restore = vi.fn();
+    const command = stateChangeCommand('Change', 'before', 'after', restore);
+    command.undo();
+    command.redo();
+    expect(restore.mock.calls).toEqual([['before'], ['after']]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GESTURE_PROFILE } from '@/constants';
+import { createEmptySamples, deriveGestureProfile } from '@/lib/mediapipe';
+import type { CalibrationSamples } from '@/lib/mediapipe';
+import type { HandPoseMeasurement } from '@/types';
+
+type FingerRatios = HandPoseMeasurement['fingerRatios'];
+
+/** `count` measurements spread evenly from `from` to `to` */
+function spread(count: number, from: number, to: number): number[] {
+  return Array.from({ length: count }, (_, i) => from + ((to - from) * i) / (count - 1));
+}
+
+function measurement(
+  pinchDistance: number,
+  fingerRatios: FingerRatios,
+  rollAngle = 0
+): HandPoseMeasurement {
+  return { pinchDistance, fingerRatios, rollAngle };
+}
+
+/** A clean recording: pinches 0.1..0.3 hand sizes apart, open hands 0.9..1.1 and tilted ±0.8 rad */
+function recording(): CalibrationSamples {
+  return {
+    open: spread(21, 0.9, 1.1).map((distance, i) =>
+      measurement(distance, [1.6, 1.6, 1.5, 1.5], spread(21, -0.8, 0.8)[i])
+    ),
+    pinch: spread(21, 0.1, 0.3).map((distance) => measurement(distance, [1.4, 1.5, 1.5, 1.5])),
+    fist: spread(21, 0.8, 1).map((ratio) => measurement(0.5, [ratio, ratio, ratio, ratio])),
+    peace: spread(21, 0.8, 1).map((ratio) => measurement(0.8, [1.55, 1.55, ratio, ratio])),
+  };
+}
+
+describe('deriveGestureProfile', () => {
+  it('names the profile', () => {
+    expect(deriveGestureProfile('Desk', recording()).name).toBe('Desk');
+  });
+
+  it('puts the pinch thresholds where most pinch and open frames fall', () => {
+    const profile = deriveGestureProfile('Desk', recording());
+    // 80th percentile of the pinches, 20th of the open hands
+    expect(profile.pinchContactRatio).toBeCloseTo(0.26);
+    expect(profile.pinchReleaseRatio).toBeCloseTo(0.94);
+  });
+
+  it('reads extension from open and peace fingers, curl from the fist and folded fingers', () => {
+    const profile = deriveGestureProfile('Desk', recording());
+    expect(profile.extensionExtendedRatio).toBeCloseTo(1.5);
+    expect(profile.extensionCurledRatio).toBeCloseTo(0.96);
+  });
+
+  it('takes the roll range from the open hand tilted both ways', () => {
+    const profile = deriveGestureProfile('Desk', recording());
+    expect(profile.rollMin).toBeCloseTo(-0.72);
+    expect(profile.rollMax).toBeCloseTo(0.72);
+  });
+
+  it('keeps the default pinch when pinches and open hands overlap', () => {
+    const samples = recording();
+    samples.pinch = samples.open;
+    const profile = deriveGestureProfile('Desk', samples);
+    expect(profile.pinchContactRatio).toBe(DEFAULT_GESTURE_PROFILE.pinchContactRatio);
+    expect(profile.pinchReleaseRatio).toBe(DEFAULT_GESTURE_PROFILE.pinchReleaseRatio);
+  });
+
+  it('keeps the default extension when curled fingers read as extended', () => {
+    const samples = recording();
+    samples.fist = samples.open;
+    samples.peace = [];
+    const profile = deriveGestureProfile('Desk', samples);
+    expect(profile.extensionExtendedRatio).toBe(DEFAULT_GESTURE_PROFILE.extensionExtendedRatio);
+    expect(profile.extensionCurledRatio).toBe(DEFAULT_GESTURE_PROFILE.extensionCurledRatio);
+  });
+
+  it('keeps the default roll range when the hand was barely tilted', () => {
+    const samples = recording();
+    samples.open = samples.open.map((sample) => ({ ...sample, rollAngle: sample.rollAngle / 10 }));
+    const profile = deriveGestureProfile('Desk', samples);
+    expect(profile.rollMin).toBe(DEFAULT_GESTURE_PROFILE.rollMin);
+    expect(profile.rollMax).toBe(DEFAULT_GESTURE_PROFILE.rollMax);
+  });
+
+  it('falls back to the default profile with nothing recorded', () => {
+    expect(deriveGestureProfile('Desk', createEmptySamples())).toEqual({
+      ...DEFAULT_GESTURE_PROFILE,
+      name: 'Desk',
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BINDINGS_CONFIG, DEFAULT_GESTURE_BINDINGS } from '@/constants';
+
+/** The bindings module as a fresh page load would see `saved` */
+async function loadWithSaved(saved: unknown) {
+  localStorage.setItem(BINDINGS_CONFIG.STORAGE_KEY, JSON.stringify(saved));
+  vi.resetModules();
+  return import('@/lib/mediapipe/gesture-bindings');
+}
+
+describe('saved gesture bindings', () => {
+  afterEach(() => localStorage.clear());
+
+  it('moves open-palm rotation out of the way of smoothing in bindings saved before it', async () => {
+    const { getGestureBindings, findBindingConflicts } = await loadWithSaved({
+      poses: { rotate: { gesture: 'open', region: 'anywhere' } },
+    });
+    const bindings = getGestureBindings();
+
+    expect(bindings.poses.rotate).toEqual(DEFAULT_GESTURE_BINDINGS.poses.rotate);
+    expect(findBindingConflicts(bindings)).toEqual([]);
+  });
+
+  it('keeps rotation anywhere when chosen alongside a smoothing binding', async () => {
+    const { getGestureBindings } = await loadWithSaved({
+      poses: {
+        rotate: { gesture: 'open', region: 'anywhere' },
+        smooth: { gesture: 'peace', region: 'left' },
+      },
+    });
+    expect(getGestureBindings().poses.rotate).toEqual({ gesture: 'open', region: 'anywhere' });
+  });
+
+  it('keeps a rotation rebound to another pose', async () => {
+    const { getGestureBindings } = await loadWithSaved({
+      poses: { rotate: { gesture: 'fist', region: 'anywhere' } },
+    });
+    expect(getGestureBindings().poses.rotate).toEqual({ gesture: 'fist', region: 'anywhere' });
+  });
+
+  it('gives motions missing from saved bindings their default', async () => {
+    const { getGestureBindings } = await loadWithSaved({ motions: { 'swipe-left': 'undo' } });
+    const { motions } = getGestureBindings();
+
+    expect(motions['swipe-left']).toBe('undo');
+    expect(motions['swipe-right']).toBe(DEFAULT_GESTURE_BINDINGS.motions['swipe-right']);
+  });
+
+  it('keeps a motion unbound across reloads', async () => {
+    const { setMotionBinding } = await loadWithSaved({});
+    setMotionBinding('swipe-left', null);
+
+    const saved = JSON.parse(localStorage.getItem(BINDINGS_CONFIG.STORAGE_KEY)!);
+    const { getGestureBindings } = await loadWithSaved(saved);
+    expect(getGestureBindings().motions['swipe-left']).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GESTURE_PROFILE, GESTURE_STATE_CONFIG } from '@/constants';
+import {
+  calculateRoll,
+  createGestureRecognizer,
+  measureGestures,
+  measureHandPose,
+  processLandmarks,
+} from '@/lib/mediapipe';
+import type { Landmark } from '@/types';
+import {
+  fistHand,
+  moveHand,
+  openHand,
+  peaceHand,
+  pinchAtRatio,
+  pinchHand,
+  rotateHand,
+  scaleHand,
+  trackedHand,
+} from '../../fixtures/landmarks';
+
+function confidences(landmarks: Landmark[]) {
+  return measureGestures(measureHandPose(landmarks));
+}
+
+/** Feeds the same pose every 16ms and returns the frames */
+function holdPose(landmarks: Landmark[], durationMs: number) {
+  const recognizer = createGestureRecognizer();
+  const frames = [];
+  for (let t = 0; t <= durationMs; t += 16) {
+    frames.push(processLandmarks(trackedHand(landmarks), recognizer, t));
+  }
+  return frames;
+}
+
+describe('measureGestures', () => {
+  it.each([
+    ['open hand', openHand(), { pinch: 0, fist: 0, peace: 0 }],
+    ['pinch', pinchHand(), { pinch: 1, fist: 0, peace: 0 }],
+    ['fist', fistHand(), { pinch: 0, fist: 1, peace: 0 }],
+    ['peace sign', peaceHand(), { pinch: 0, fist: 0, peace: 1 }],
+  ])('recognizes the %s', (_, landmarks, expected) => {
+    const result = confidences(landmarks);
+    expect(result.pinch).toBeCloseTo(expected.pinch, 1);
+    expect(result.fist).toBeCloseTo(expected.fist, 1);
+    expect(result.peace).toBeCloseTo(expected.peace, 1);
+  });
+
+  it('reads pinch as full contact at the contact ratio and released at the release ratio', () => {
+    expect(confidences(pinchAtRatio(DEFAULT_GESTURE_PROFILE.pinchContactRatio)).pinch).toBeCloseTo(1);
+    expect(confidences(pinchAtRatio(DEFAULT_GESTURE_PROFILE.pinchReleaseRatio)).pinch).toBeCloseTo(0);
+    expect(confidences(pinchAtRatio(0.5)).pinch).toBeCloseTo(0.5);
+  });
+
+  it('clamps pinch confidence outside the profile range', () => {
+    expect(confidences(pinchAtRatio(0)).pinch).toBe(1);
+    expect(confidences(pinchAtRatio(2)).pinch).toBe(0);
+  });
+
+  it('is unaffected by where the hand is or how large it appears', () => {
+    const moved = moveHand(peaceHand(), 0.2, 0.4);
+    const scaled = peaceHand().map(({ x, y, z }) => ({ x: x * 0.5, y: y * 0.5, z }));
+    expect(confidences(moved)).toEqual(confidences(peaceHand()));
+    expect(confidences(scaled).peace).toBeCloseTo(1);
+  });
+
+  it('reports no pinch for a degenerate hand', () => {
+    const collapsed = openHand().map(() => ({ x: 0.5, y: 0.5, z: 0 }));
+    expect(confidences(collapsed).pinch).toBe(0);
+  });
+
+  it('prefers world landmarks when they are present', () => {
+    const measurement = measureHandPose(openHand(), pinchHand());
+    expect(measureGestures(measurement).pinch).toBeCloseTo(1);
+  });
+});
+
+describe('calculateRoll', () => {
+  const { rollMin, rollMax } = DEFAULT_GESTURE_PROFILE;
+
+  it('is level at the centre of the profile range', () => {
+    expect(calculateRoll((rollMin + rollMax) / 2, DEFAULT_GESTURE_PROFILE)).toBeCloseTo(0);
+  });
+
+  it('maps rollMin to +1 and rollMax to -1', () => {
+    expect(calculateRoll(rollMin, DEFAULT_GESTURE_PROFILE)).toBeCloseTo(1);
+    expect(calculateRoll(rollMax, DEFAULT_GESTURE_PROFILE)).toBeCloseTo(-1);
+  });
+
+  it('clamps beyond the calibrated range', () => {
+    expect(calculateRoll(rollMin - 1, DEFAULT_GESTURE_PROFILE)).toBe(1);
+    expect(calculateRoll(rollMax + 1, DEFAULT_GESTURE_PROFILE)).toBe(-1);
+  });
+
+  it('follows a narrower calibrated range', () => {
+    const profile = { ...DEFAULT_GESTURE_PROFILE, rollMin: 0, rollMax: 0.2 };
+    expect(calculateRoll(0.1, profile)).toBeCloseTo(0);
+    expect(calculateRoll(0.15, profile)).toBeCloseTo(-0.5);
+  });
+});
+
+describe('processLandmarks', () => {
+  it('reports the wrist position and handedness', () => {
+    const recognizer = createGestureRecognizer();
+    const frame = processLandmarks(
+      trackedHand(moveHand(openHand(), 0.3, 0.6), 'left'),
+      recognizer,
+      0
+    );
+    expect(frame.handedness).toBe('left');
+    expect(frame.x).toBeCloseTo(0.3);
+    expect(frame.y).toBeCloseTo(0.6);
+  });
+
+  it('reads a level hand as no roll and a tilted hand as roll', () => {
+    const recognizer = createGestureRecognizer();
+    const level = processLandmarks(trackedHand(openHand()), recognizer, 0);
+    const tilted = processLandmarks(trackedHand(rotateHand(openHand(), 0.25)), recognizer, 16);
+    expect(level.roll).toBeCloseTo(0);
+    expect(tilted.roll).toBeCloseTo(-0.5);
+  });
+
+  it('reads a hand nearer the camera as positive depth', () => {
+    const recognizer = createGestureRecognizer();
+    const usual = processLandmarks(trackedHand(openHand()), recognizer, 0);
+    const near = processLandmarks(trackedHand(scaleHand(openHand(), 1.25)), recognizer, 16);
+    const far = processLandmarks(trackedHand(scaleHand(openHand(), 0.4)), recognizer, 32);
+    expect(usual.depth).toBeCloseTo(0);
+    expect(near.depth).toBeCloseTo(0.5);
+    expect(far.depth).toBe(-1);
+  });
+
+  it('treats left and right hands tilting the same way alike', () => {
+    // The other hand is a mirror image, so its knuckle line runs the other way
+    const leftHand = openHand().map(({ x, y, z }) => ({ x: 1 - x, y, z }));
+    const frame = processLandmarks(
+      trackedHand(rotateHand(leftHand, 0.25), 'left'),
+      createGestureRecognizer(),
+      0
+    );
+    expect(frame.roll).toBeCloseTo(-0.5);
+  });
+
+  it.each(['left', 'right'] as const)('reads the %s hand tilted anticlockwise as positive roll', (side) => {
+    const hand = side === 'left' ? openHand().map(({ x, y, z }) => ({ x: 1 - x, y, z })) : openHand();
+    const frame = processLandmarks(
+      trackedHand(rotateHand(hand, -0.25), side),
+      createGestureRecognizer(),
+      0
+    );
+    expect(frame.roll).toBeCloseTo(0.5);
+  });
+
+  it('activates a pose only after it has been held long enough', () => {
+    const frames = holdPose(fistHand(), 200);
+    const startIndex = frames.findIndex((frame) => frame.gestures.fist.phase === 'start');
+
+    expect(startIndex * 16).toBeGreaterThanOrEqual(GESTURE_STATE_CONFIG.fist.MIN_ENTER_MS);
+    expect(frames.slice(0, startIndex).every((frame) => !frame.gestures.fist.active)).toBe(true);
+    expect(frames.slice(startIndex + 1).every((frame) => frame.gestures.fist.phase === 'hold')).toBe(true);
+  });
+
+  it('ends a pose after it has been released long enough', () => {
+    const recognizer = createGestureRecognizer();
+    let t = 0;
+    for (; t <= 200; t += 16) processLandmarks(trackedHand(pinchHand()), recognizer, t);
+
+    const phases = [];
+    for (const end = t + 300; t <= end; t += 16) {
+      phases.push(processLandmarks(trackedHand(openHand()), recognizer, t).gestures.pinch.phase);
+    }
+    const endIndex = phases.indexOf('end');
+    expect(endIndex * 16).toBeGreaterThanOrEqual(GESTURE_STATE_CONFIG.pinch.MIN_EXIT_MS);
+    expect(phases.slice(0, endIndex).every((phase) => phase === 'hold')).toBe(true);
+  });
+
+  it('ignores a brief flicker into a pose', () => {
+    const recognizer = createGestureRecognizer();
+    const poses = [openHand(), peaceHand(), openHand(), openHand()];
+    const frames = poses.map((pose, i) => processLandmarks(trackedHand(pose), recognizer, i * 16));
+    expect(frames.some((frame) => frame.gestures.peace.active)).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createHandPipeline } from '@/lib/mediapipe';
+import type { MotionGestureName } from '@/types';
+import { moveHand, openHand, pinchHand, trackedHand } from '../../fixtures/landmarks';
+
+const FRAME_MS = 16;
+
+/** Swipes the right hand left while the left hand holds `other`, returning the motions that fired */
+function swipeBeside(other: ReturnType<typeof openHand>): MotionGestureName[] {
+  const pipeline = createHandPipeline();
+  const fired: MotionGestureName[] = [];
+  for (let i = 0; i < 10; i++) {
+    const hands = [
+      trackedHand(moveHand(other, 0.3, 0.7), 'left'),
+      trackedHand(moveHand(openHand(), 0.8 - i * 0.05, 0.6), 'right'),
+    ];
+    for (const { motion } of pipeline.process(hands, i * FRAME_MS)) {
+      if (motion) fired.push(motion);
+    }
+  }
+  return fired;
+}
+
+describe('createHandPipeline', () => {
+  it('recognizes one hand swiping beside an open hand', () => {
+    expect(swipeBeside(openHand())).toEqual(['swipe-left']);
+  });
+
+  it('holds back motion gestures while the other hand pinches', () => {
+    expect(swipeBeside(pinchHand())).toEqual([]);
+  });
+
+  it('swaps the landmark smoothing on request', () => {
+    const pipeline = createHandPipeline();
+    const wristAt = (x: number, timestampMs: number) => {
+      const landmarks = moveHand(openHand(), x, 0.5);
+      const { hands } = pipeline.track([{ landmarks, handedness: 'right', score: 1 }], timestampMs);
+      return hands[0].landmarks[0].x;
+    };
+    wristAt(0.3, 0);
+    expect(wristAt(0.4, FRAME_MS)).toBeLessThan(0.4);
+
+    pipeline.setFilterSettings({ kind: 'none' });
+    expect(wristAt(0.5, 2 * FRAME_MS)).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { HAND_TRACKING_CONFIG, MEDIAPIPE_CONFIG } from '@/constants';
+import { createHandIdentityTracker, toHandedness } from '@/lib/mediapipe';
+import type { HandDetection } from '@/lib/mediapipe';
+import type { Handedness } from '@/types';
+import { moveHand, openHand } from '../../fixtures/landmarks';
+
+const { LOST_TIMEOUT_MS } = HAND_TRACKING_CONFIG;
+
+/** A detection with its wrist at (x, y), labelled by MediaPipe as `handedness` */
+function detection(x: number, y: number, handedness: Handedness, score = 1): HandDetection {
+  return { landmarks: moveHand(openHand(), x, y), handedness, score };
+}
+
+/** Which identity each detection was given, in order */
+function identities(
+  tracker: ReturnType<typeof createHandIdentityTracker>,
+  detections: HandDetection[],
+  timestampMs: number
+): Handedness[] {
+  return tracker.assign(detections, timestampMs).map((hand) => hand.handedness);
+}
+
+describe('toHandedness', () => {
+  it('reads MediaPipe labels through the mirrored video', () => {
+    const left = MEDIAPIPE_CONFIG.MIRROR_HANDEDNESS ? 'right' : 'left';
+    const right = MEDIAPIPE_CONFIG.MIRROR_HANDEDNESS ? 'left' : 'right';
+    expect(toHandedness('Left')).toBe(left);
+    expect(toHandedness('Right')).toBe(right);
+    expect(toHandedness(undefined)).toBe(right);
+  });
+});
+
+describe('createHandIdentityTracker', () => {
+  it('gives new hands the identity they are labelled with', () => {
+    const tracker = createHandIdentityTracker();
+    expect(identities(tracker, [detection(0.3, 0.5, 'right')], 0)).toEqual(['right']);
+    const both = [detection(0.3, 0.5, 'right'), detection(0.7, 0.5, 'left')];
+    expect(identities(tracker, both, 16)).toEqual(['right', 'left']);
+  });
+
+  it('keeps both identities when the labels swap but the hands stay put', () => {
+    const tracker = createHandIdentityTracker();
+    identities(tracker, [detection(0.3, 0.5, 'left'), detection(0.7, 0.5, 'right')], 0);
+
+    const swapped = [detection(0.3, 0.5, 'right'), detection(0.7, 0.5, 'left')];
+    expect(identities(tracker, swapped, 16)).toEqual(['left', 'right']);
+  });
+
+  it('follows each hand by its wrist, whatever order the detections come in', () => {
+    const tracker = createHandIdentityTracker();
+    identities(tracker, [detection(0.3, 0.5, 'left'), detection(0.7, 0.5, 'right')], 0);
+
+    const reordered = [detection(0.68, 0.5, 'right'), detection(0.32, 0.5, 'left')];
+    expect(identities(tracker, reordered, 16)).toEqual(['right', 'left']);
+  });
+
+  it('keeps identities as the hands cross, through a doubtful label on the way', () => {
+    const tracker = createHandIdentityTracker();
+    // The left hand sweeps right past the right hand, which sweeps left
+    for (let i = 0, t = 0; i <= 10; i++, t += 16) {
+      const leftX = 0.3 + i * 0.04;
+      const rightX = 0.7 - i * 0.04;
+      const leftHand =
+        i === 3 ? detection(leftX, 0.5, 'right', 0.5) : detection(leftX, 0.5, 'left');
+      const assigned = identities(tracker, [leftHand, detection(rightX, 0.55, 'right')], t);
+      expect(assigned).toEqual(['left', 'right']);
+    }
+  });
+
+  it("keeps a lone hand's identity through a doubtful label flicker", () => {
+    const tracker = createHandIdentityTracker();
+    identities(tracker, [detection(0.3, 0.5, 'left')], 0);
+    expect(identities(tracker, [detection(0.31, 0.5, 'right', 0.5)], 16)).toEqual(['left']);
+  });
+
+  it('trusts a confident label over the free slot for a lone hand', () => {
+    const tracker = createHandIdentityTracker();
+    identities(tracker, [detection(0.3, 0.5, 'left')], 0);
+    expect(identities(tracker, [detection(0.31, 0.5, 'right', 1)], 16)).toEqual(['right']);
+  });
+
+  it('gives a second hand the free slot when its label is taken', () => {
+    const tracker = createHandIdentityTracker();
+    identities(tracker, [detection(0.3, 0.5, 'left')], 0);
+
+    // Both labelled left: the tracked one stays left, the newcomer becomes right
+    const both = [detection(0.3, 0.5, 'left'), detection(0.7, 0.5, 'left')];
+    expect(identities(tracker, both, 16)).toEqual(['left', 'right']);
+  });
+
+  it('tracks at most two hands', () => {
+    const tracker = createHandIdentityTracker();
+    const three = [0.2, 0.5, 0.8].map((x) => detection(x, 0.5, 'right'));
+    expect(tracker.assign(three, 0)).toHaveLength(2);
+  });
+
+  it('reports a hand lost only once it has been gone long enough', () => {
+    const tracker = createHandIdentityTracker();
+    identities(tracker, [detection(0.3, 0.5, 'left'), detection(0.7, 0.5, 'right')], 0);
+    identities(tracker, [detection(0.7, 0.5, 'right')], 100);
+
+    expect(tracker.pruneLost(LOST_TIMEOUT_MS)).toEqual([]);
+    expect(tracker.pruneLost(LOST_TIMEOUT_MS + 1)).toEqual(['left']);
+    expect(tracker.pruneLost(LOST_TIMEOUT_MS + 2)).toEqual([]);
+  });
+
+  it('lets a hand that dropped out come back by its label, wherever it reappears', () => {
+    const tracker = createHandIdentityTracker();
+    identities(tracker, [detection(0.3, 0.5, 'left'), detection(0.7, 0.5, 'right')], 0);
+    identities(tracker, [detection(0.7, 0.5, 'right')], 100);
+    tracker.pruneLost(LOST_TIMEOUT_MS + 1);
+
+    const back = [detection(0.7, 0.5, 'right'), detection(0.9, 0.2, 'left')];
+    expect(identities(tracker, back, 200)).toEqual(['right', 'left']);
+  });
+
+  it('forgets every hand on reset', () => {
+    const tracker = createHandIdentityTracker();
+    identities(tracker, [detection(0.3, 0.5, 'left')], 0);
+    tracker.reset();
+
+    expect(tracker.pruneLost(1000)).toEqual([]);
+    expect(identities(tracker, [detection(0.3, 0.5, 'right', 0.5)], 1016)).toEqual(['right']);
+  });
+});
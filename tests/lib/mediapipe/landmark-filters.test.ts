@@ -0,0 +1,181 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_FILTER_SETTINGS,
+  FILTER_CONFIG,
+  KALMAN_FILTER_SETTINGS,
+  ONE_EURO_FILTER_SETTINGS,
+} from '@/constants';
+import { createKalmanFilter, createLandmarkFilter, createOneEuroFilter } from '@/lib/mediapipe';
+import type { ScalarFilter } from '@/lib/mediapipe';
+import type { LandmarkFilterSettings } from '@/types';
+
+type OneEuroSettings = Extract<LandmarkFilterSettings, { kind: 'one-euro' }>;
+type KalmanSettings = Extract<LandmarkFilterSettings, { kind: 'kalman' }>;
+
+const ONE_EURO = ONE_EURO_FILTER_SETTINGS as OneEuroSettings;
+const KALMAN = KALMAN_FILTER_SETTINGS as KalmanSettings;
+const FRAME_MS = 1000 / 60;
+
+/** Runs `signal(t)` through the filter at 60 fps for `durationMs`, returning the outputs */
+function run(filter: ScalarFilter, signal: (t: number) => number, durationMs: number, startMs = 0) {
+  const outputs: number[] = [];
+  for (let t = startMs; t < startMs + durationMs; t += FRAME_MS) {
+    outputs.push(filter.filter(signal(t), t));
+  }
+  return outputs;
+}
+
+/** A still hand at 0.5 with ±0.002 of frame-to-frame jitter */
+const jittery = (t: number) => 0.5 + (Math.round(t / FRAME_MS) % 2 ? 0.002 : -0.002);
+
+function spread(values: number[]): number {
+  return Math.max(...values) - Math.min(...values);
+}
+
+describe.each([
+  ['createOneEuroFilter', () => createOneEuroFilter(ONE_EURO)],
+  ['createKalmanFilter', () => createKalmanFilter(KALMAN)],
+])('%s', (_, createFilter) => {
+  it('passes the first value straight through', () => {
+    expect(createFilter().filter(0.3, 0)).toBe(0.3);
+  });
+
+  it('settles on a hand that has come to rest', () => {
+    const filter = createFilter();
+    filter.filter(0, 0);
+    const outputs = run(filter, () => 1, 1000, FRAME_MS);
+    expect(outputs[0]).toBeLessThan(1);
+    expect(outputs[outputs.length - 1]).toBeCloseTo(1, 2);
+  });
+
+  it('steadies a jittering hand', () => {
+    const outputs = run(createFilter(), jittery, 1000);
+    // The input swings 0.004 from frame to frame
+    expect(spread(outputs.slice(30))).toBeLessThan(0.002);
+  });
+
+  it('starts over after a reset', () => {
+    const filter = createFilter();
+    run(filter, () => 0, 200);
+    filter.reset();
+    expect(filter.filter(1, 300)).toBe(1);
+  });
+
+  it('starts over after a long gap instead of smoothing across it', () => {
+    const filter = createFilter();
+    run(filter, () => 0, 200);
+    expect(filter.filter(1, 200 + FILTER_CONFIG.MAX_GAP_MS + 1)).toBe(1);
+  });
+});
+
+describe('createOneEuroFilter', () => {
+  /** How far the output trails a hand sweeping at 2 screen widths a second */
+  function lagOnSweep(settings: OneEuroSettings): number {
+    const outputs = run(createOneEuroFilter(settings), (t) => (2 * t) / 1000, 500);
+    const t = (outputs.length - 1) * FRAME_MS;
+    return (2 * t) / 1000 - outputs[outputs.length - 1];
+  }
+
+  it('lags fast motion less the higher its speed response', () => {
+    const fixed = lagOnSweep({ ...ONE_EURO, beta: 0 });
+    const responsive = lagOnSweep(ONE_EURO);
+    expect(responsive).toBeGreaterThan(0);
+    expect(responsive).toBeLessThan(fixed / 4);
+  });
+
+  it('smooths a still hand more with a lower minimum cutoff', () => {
+    const smooth = run(createOneEuroFilter({ ...ONE_EURO, minCutoff: 0.3 }), jittery, 1000);
+    const sharp = run(createOneEuroFilter({ ...ONE_EURO, minCutoff: 5 }), jittery, 1000);
+    expect(spread(smooth.slice(30))).toBeLessThan(spread(sharp.slice(30)));
+  });
+});
+
+describe('createKalmanFilter', () => {
+  it('catches up with a hand moving at a steady speed', () => {
+    const filter = createKalmanFilter(KALMAN);
+    const outputs = run(filter, (t) => t / 1000, 1000);
+    const t = (outputs.length - 1) * FRAME_MS;
+    expect(outputs[outputs.length - 1]).toBeCloseTo(t / 1000, 3);
+  });
+
+  it('smooths more the noisier it is told the landmarks are', () => {
+    const trusting = createKalmanFilter({ ...KALMAN, measurementNoise: 0.000005 });
+    const doubting = createKalmanFilter({ ...KALMAN, measurementNoise: 0.0005 });
+    expect(spread(run(doubting, jittery, 1000).slice(30))).toBeLessThan(
+      spread(run(trusting, jittery, 1000).slice(30))
+    );
+  });
+});
+
+describe('createLandmarkFilter', () => {
+  it('leaves landmarks alone with no filter', () => {
+    const filter = createLandmarkFilter({ kind: 'none' });
+    filter.apply([{ x: 0, y: 0, z: 0 }], 0);
+    const landmarks = [{ x: 0.5, y: 0.4, z: 0.1 }];
+    expect(filter.apply(landmarks, FRAME_MS)).toEqual(landmarks);
+  });
+
+  it('smooths every coordinate of every landmark on its own', () => {
+    const filter = createLandmarkFilter(DEFAULT_FILTER_SETTINGS);
+    filter.apply([{ x: 0, y: 0 }, { x: 1, y: 1, z: 0 }], 0);
+    const [first, second] = filter.apply([{ x: 0.1, y: 0 }, { x: 1, y: 0.9, z: 0.1 }], FRAME_MS);
+
+    expect(first.x).toBeGreaterThan(0);
+    expect(first.x).toBeLessThan(0.1);
+    expect(first.y).toBe(0);
+    expect(first).not.toHaveProperty('z');
+    expect(second.x).toBe(1);
+    expect(second.y).toBeGreaterThan(0.9);
+    expect(second.z).toBeGreaterThan(0);
+  });
+
+  it('starts over after a reset', () => {
+    const filter = createLandmarkFilter(DEFAULT_FILTER_SETTINGS);
+    filter.apply([{ x: 0, y: 0 }], 0);
+    filter.reset();
+    expect(filter.apply([{ x: 1, y: 1 }], FRAME_MS)).toEqual([{ x: 1, y: 1 }]);
+  });
+});
+
+describe('landmark filter settings', () => {
+  afterEach(() => localStorage.clear());
+
+  /** The filter module as a fresh page load would see `saved` */
+  async function loadWithSaved(saved: unknown) {
+    localStorage.setItem(FILTER_CONFIG.STORAGE_KEY, JSON.stringify(saved));
+    vi.resetModules();
+    return import('@/lib/mediapipe/landmark-filters');
+  }
+
+  it('restores the saved filter and its parameters', async () => {
+    const saved = { ...KALMAN, processNoise: 5 };
+    const { getLandmarkFilterSettings } = await loadWithSaved(saved);
+    expect(getLandmarkFilterSettings()).toEqual(saved);
+  });
+
+  it('falls back to the defaults for an unknown filter or unusable parameters', async () => {
+    expect((await loadWithSaved({ kind: 'median' })).getLandmarkFilterSettings()).toEqual(
+      DEFAULT_FILTER_SETTINGS
+    );
+    const { getLandmarkFilterSettings } = await loadWithSaved({
+      kind: 'one-euro',
+      minCutoff: -1,
+      beta: 'fast',
+    });
+    expect(getLandmarkFilterSettings()).toEqual(ONE_EURO_FILTER_SETTINGS);
+  });
+
+  it('switches filters at their defaults and tunes only positive parameters', async () => {
+    const { getLandmarkFilterSettings, selectLandmarkFilter, updateLandmarkFilterSettings } =
+      await loadWithSaved(ONE_EURO_FILTER_SETTINGS);
+
+    selectLandmarkFilter('kalman');
+    expect(getLandmarkFilterSettings()).toEqual(KALMAN_FILTER_SETTINGS);
+
+    updateLandmarkFilterSettings({ processNoise: 40, measurementNoise: 0 });
+    expect(getLandmarkFilterSettings()).toEqual({ ...KALMAN_FILTER_SETTINGS, processNoise: 40 });
+    expect(JSON.parse(localStorage.getItem(FILTER_CONFIG.STORAGE_KEY)!)).toEqual(
+      getLandmarkFilterSettings()
+    );
+  });
+});
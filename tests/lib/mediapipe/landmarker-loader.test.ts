@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MEDIAPIPE_CONFIG } from '@/constants';
+import type { MediaPipeAssetSource } from '@/types';
+
+const createFromOptions = vi.fn();
+vi.mock('@mediapipe/tasks-vision', () => ({
+  FilesetResolver: { forVisionTasks: vi.fn(async (path: string) => ({ path })) },
+  HandLandmarker: { createFromOptions: (...args: unknown[]) => createFromOptions(...args) },
+}));
+
+const { createHandLandmarker, fetchWithProgress } = await import('@/lib/mediapipe');
+
+const SELF_HOSTED: MediaPipeAssetSource = {
+  name: 'Self-hosted',
+  wasmPath: '/wasm',
+  modelUrl: '/model.task',
+  manifestUrl: '/manifest.json',
+};
+const CDN: MediaPipeAssetSource = {
+  name: 'CDN',
+  wasmPath: 'https://cdn.example/wasm',
+  modelUrl: 'https://cdn.example/model.task',
+};
+
+function modelResponse(bytes: number[]): Response {
+  return new Response(new Uint8Array(bytes), {
+    headers: { 'Content-Length': String(bytes.length) },
+  });
+}
+
+function manifestResponse(version: string, model = true): Response {
+  return Response.json({ version, model: model ? { file: 'model.task', bytes: 3 } : null });
+}
+
+function mockFetch(routes: Record<string, () => Response>) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string) => routes[url]?.() ?? new Response(null, { status: 404 }))
+  );
+}
+
+describe('fetchWithProgress', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('returns the whole file and reports progress up to 1', async () => {
+    mockFetch({ '/model.task': () => modelResponse([1, 2, 3, 4]) });
+    const progress: (number | null)[] = [];
+
+    const bytes = await fetchWithProgress('/model.task', (p) => progress.push(p));
+
+    expect([...bytes]).toEqual([1, 2, 3, 4]);
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  it('rejects on HTTP errors', async () => {
+    mockFetch({});
+    await expect(fetchWithProgress('/missing', () => {})).rejects.toThrow('404');
+  });
+});
+
+describe('createHandLandmarker', () => {
+  beforeEach(() => {
+    createFromOptions.mockReset();
+    createFromOptions.mockResolvedValue({ close: () => {} });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('loads from the first source when it is healthy', async () => {
+    mockFetch({
+      '/manifest.json': () => manifestResponse(MEDIAPIPE_CONFIG.VERSION),
+      '/model.task': () => modelResponse([1, 2, 3]),
+    });
+
+    await createHandLandmarker(() => {}, [SELF_HOSTED, CDN]);
+
+    const [fileset, options] = createFromOptions.mock.calls[0];
+    expect(fileset).toEqual({ path: '/wasm' });
+    expect([...options.baseOptions.modelAssetBuffer]).toEqual([1, 2, 3]);
+  });
+
+  it('skips a source built for a different MediaPipe version', async () => {
+    mockFetch({
+      '/manifest.json': () => manifestResponse('0.0.1'),
+      'https://cdn.example/model.task': () => modelResponse([9]),
+    });
+
+    await createHandLandmarker(() => {}, [SELF_HOSTED, CDN]);
+
+    expect(createFromOptions).toHaveBeenCalledTimes(1);
+    expect(createFromOptions.mock.calls[0][0]).toEqual({ path: 'https://cdn.example/wasm' });
+  });
+
+  it('skips a source whose model was not bundled', async () => {
+    mockFetch({
+      '/manifest.json': () => manifestResponse(MEDIAPIPE_CONFIG.VERSION, false),
+      'https://cdn.example/model.task': () => modelResponse([9]),
+    });
+
+    await createHandLandmarker(() => {}, [SELF_HOSTED, CDN]);
+    expect(createFromOptions.mock.calls[0][0]).toEqual({ path: 'https://cdn.example/wasm' });
+  });
+
+  it('falls through when the runtime fails to start', async () => {
+    mockFetch({
+      '/manifest.json': () => manifestResponse(MEDIAPIPE_CONFIG.VERSION),
+      '/model.task': () => modelResponse([1]),
+      'https://cdn.example/model.task': () => modelResponse([2]),
+    });
+    createFromOptions
+      .mockRejectedValueOnce(new Error('WASM failed'))
+      .mockRejectedValueOnce(new Error('WASM failed'));
+
+    await createHandLandmarker(() => {}, [SELF_HOSTED, CDN]);
+    expect(createFromOptions).toHaveBeenCalledTimes(3);
+    expect(createFromOptions.mock.calls[2][0]).toEqual({ path: 'https://cdn.example/wasm' });
+  });
+
+  it('retries on the CPU when the GPU delegate fails', async () => {
+    mockFetch({ 'https://cdn.example/model.task': () => modelResponse([1]) });
+    createFromOptions.mockRejectedValueOnce(new Error('WebGL unavailable'));
+
+    const { delegate } = await createHandLandmarker(() => {}, [CDN]);
+
+    expect(createFromOptions.mock.calls.map(([, options]) => options.baseOptions.delegate)).toEqual([
+      'GPU',
+      'CPU',
+    ]);
+    expect(delegate).toBe('CPU');
+  });
+
+  it('goes straight to the CPU when asked to', async () => {
+    mockFetch({ 'https://cdn.example/model.task': () => modelResponse([1]) });
+
+    const { delegate } = await createHandLandmarker(() => {}, [CDN], 'CPU');
+
+    expect(createFromOptions).toHaveBeenCalledTimes(1);
+    expect(createFromOptions.mock.calls[0][1].baseOptions.delegate).toBe('CPU');
+    expect(delegate).toBe('CPU');
+  });
+
+  it('switches delegate without downloading the model again', async () => {
+    mockFetch({ 'https://cdn.example/model.task': () => modelResponse([1, 2]) });
+
+    const loaded = await createHandLandmarker(() => {}, [CDN]);
+    const { delegate } = await loaded.recreate('CPU');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(delegate).toBe('CPU');
+    const [first, second] = createFromOptions.mock.calls;
+    expect(second[1].baseOptions.modelAssetBuffer).toBe(first[1].baseOptions.modelAssetBuffer);
+  });
+
+  it('reports each step of the source it is loading', async () => {
+    mockFetch({ 'https://cdn.example/model.task': () => modelResponse([1, 2]) });
+    const steps: string[] = [];
+
+    await createHandLandmarker((status) => steps.push(`${status.source}:${status.step}`), [CDN]);
+
+    expect(steps[0]).toBe('CDN:model');
+    expect(steps.at(-1)).toBe('CDN:runtime');
+  });
+
+  it('explains every failure when no source works', async () => {
+    mockFetch({ '/manifest.json': () => manifestResponse('0.0.1') });
+
+    await expect(createHandLandmarker(() => {}, [SELF_HOSTED, CDN])).rejects.toThrow(
+      /Self-hosted: assets are MediaPipe 0\.0\.1.*CDN: .*404/
+    );
+  });
+});
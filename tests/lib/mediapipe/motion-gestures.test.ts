@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { MOTION_GESTURE_CONFIG } from '@/constants';
+import { createMotionGestureRecognizer } from '@/lib/mediapipe';
+import type { MotionGestureName } from '@/types';
+import { moveHand, openHand } from '../../fixtures/landmarks';
+import { handFrame } from '../../fixtures/hand-frames';
+
+const FRAME_MS = 16;
+
+/** Feeds an open hand through the wrist positions, one per frame, and returns what fired */
+function recognize(path: { x: number; y: number }[], paused = false): MotionGestureName[] {
+  const recognizer = createMotionGestureRecognizer();
+  const fired: MotionGestureName[] = [];
+  path.forEach(({ x, y }, i) => {
+    const gesture = recognizer.update(
+      handFrame(x, y),
+      moveHand(openHand(), x, y),
+      i * FRAME_MS,
+      paused
+    );
+    if (gesture) fired.push(gesture);
+  });
+  return fired;
+}
+
+/** Back and forth along one axis: `legs` legs of `amplitude`, `framesPerLeg` frames each */
+function shake(axis: 'x' | 'y', legs: number, amplitude: number, framesPerLeg = 6) {
+  const path = [];
+  for (let i = 0; i <= legs * framesPerLeg; i++) {
+    const phase = i / framesPerLeg;
+    const leg = Math.floor(phase);
+    const along = phase - leg;
+    const offset = amplitude * (leg % 2 === 0 ? along : 1 - along);
+    path.push(axis === 'x' ? { x: 0.5 + offset, y: 0.6 } : { x: 0.5, y: 0.5 + offset });
+  }
+  return path;
+}
+
+describe('createMotionGestureRecognizer', () => {
+  it('recognizes a swipe', () => {
+    const path = Array.from({ length: 10 }, (_, i) => ({ x: 0.8 - i * 0.05, y: 0.6 }));
+    expect(recognize(path)).toEqual(['swipe-left']);
+  });
+
+  it('ignores a swipe while paused for the other hand', () => {
+    const path = Array.from({ length: 10 }, (_, i) => ({ x: 0.8 - i * 0.05, y: 0.6 }));
+    expect(recognize(path, true)).toEqual([]);
+  });
+
+  it('recognizes shaking side to side and up and down', () => {
+    const legs = MOTION_GESTURE_CONFIG.SHAKE_MIN_LEGS;
+    expect(recognize(shake('x', legs, 0.1))).toEqual(['shake-horizontal']);
+    expect(recognize(shake('y', legs, 0.1))).toEqual(['shake-vertical']);
+  });
+
+  it('needs enough back-and-forth to call it a shake', () => {
+    expect(recognize(shake('x', MOTION_GESTURE_CONFIG.SHAKE_MIN_LEGS - 2, 0.1))).toEqual([]);
+    expect(recognize(shake('x', MOTION_GESTURE_CONFIG.SHAKE_MIN_LEGS, 0.01))).toEqual([]);
+  });
+});
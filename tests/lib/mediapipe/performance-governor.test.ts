@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { TRACKING_PERFORMANCE_CONFIG } from '@/constants';
+import { createPerformanceGovernor } from '@/lib/mediapipe';
+import type { PerformanceGovernor } from '@/lib/mediapipe';
+
+const { FRAME_BUDGET_MS, HEADROOM_RATIO, SAMPLE_WINDOW, TIERS } = TRACKING_PERFORMANCE_CONFIG;
+const SLOW = FRAME_BUDGET_MS * 2;
+const FAST = FRAME_BUDGET_MS * HEADROOM_RATIO * 0.5;
+
+/** Records `count` detections 33ms apart, returning every settings change */
+function feed(governor: PerformanceGovernor, frameMs: number, count: number, start = 0) {
+  const changes = [];
+  for (let i = 0; i < count; i++) {
+    const change = governor.record({ inferenceMs: frameMs / 2, frameMs }, start + i * 33);
+    if (change) changes.push(change);
+  }
+  return changes;
+}
+
+describe('createPerformanceGovernor', () => {
+  it('starts at full quality on the preferred delegate', () => {
+    expect(createPerformanceGovernor('GPU').getSettings()).toEqual({
+      delegate: 'GPU',
+      tier: 0,
+      detectionIntervalMs: TIERS[0].DETECTION_INTERVAL_MS,
+      inputScale: TIERS[0].INPUT_SCALE,
+    });
+  });
+
+  it('waits for a full window before deciding', () => {
+    const governor = createPerformanceGovernor('GPU');
+    expect(feed(governor, SLOW, SAMPLE_WINDOW - 1)).toEqual([]);
+    expect(feed(governor, SLOW, 1)).toHaveLength(1);
+  });
+
+  it('lowers quality one tier at a time while frames run over budget', () => {
+    const governor = createPerformanceGovernor('GPU');
+    const changes = feed(governor, SLOW, SAMPLE_WINDOW * (TIERS.length - 1));
+
+    expect(changes.map(({ tier }) => tier)).toEqual(TIERS.slice(1).map((_, i) => i + 1));
+    const lowest = changes.at(-1)!;
+    expect(lowest.inputScale).toBe(TIERS.at(-1)!.INPUT_SCALE);
+    expect(lowest.detectionIntervalMs).toBe(TIERS.at(-1)!.DETECTION_INTERVAL_MS);
+  });
+
+  it('raises quality again once there is headroom', () => {
+    const governor = createPerformanceGovernor('GPU');
+    feed(governor, SLOW, SAMPLE_WINDOW * 2);
+    expect(governor.getSettings().tier).toBe(2);
+
+    feed(governor, FAST, SAMPLE_WINDOW);
+    expect(governor.getSettings().tier).toBe(1);
+  });
+
+  it('holds steady between the budget and the headroom threshold', () => {
+    const governor = createPerformanceGovernor('GPU');
+    feed(governor, SLOW, SAMPLE_WINDOW);
+    const middling = FRAME_BUDGET_MS * (1 + HEADROOM_RATIO) / 2;
+    expect(feed(governor, middling, SAMPLE_WINDOW * 3)).toEqual([]);
+  });
+
+  it('falls back to the CPU once when the GPU is over budget at the lowest quality', () => {
+    const governor = createPerformanceGovernor('GPU');
+    const changes = feed(governor, SLOW, SAMPLE_WINDOW * TIERS.length);
+
+    expect(changes.at(-1)).toMatchObject({ delegate: 'CPU', tier: 0 });
+
+    // The GPU couldn't be given up, so stay at the lowest quality on it
+    governor.setDelegate('GPU');
+    feed(governor, SLOW, SAMPLE_WINDOW * TIERS.length);
+    expect(governor.getSettings()).toMatchObject({ delegate: 'GPU', tier: TIERS.length - 1 });
+  });
+
+  it('never leaves the CPU', () => {
+    const governor = createPerformanceGovernor('CPU');
+    feed(governor, SLOW, SAMPLE_WINDOW * TIERS.length * 2);
+    expect(governor.getSettings()).toMatchObject({ delegate: 'CPU', tier: TIERS.length - 1 });
+  });
+
+  it('reports smoothed timings and the detection rate', () => {
+    const governor = createPerformanceGovernor('GPU');
+    feed(governor, 20, 10);
+
+    const stats = governor.getStats();
+    expect(stats.frameMs).toBeCloseTo(20);
+    expect(stats.inferenceMs).toBeCloseTo(10);
+    expect(stats.detectionRate).toBeCloseTo(1000 / 33);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CALIBRATION_CONFIG, DEFAULT_GESTURE_PROFILE } from '@/constants';
+
+/** The profile module as a fresh page load would see `saved` */
+async function loadWithSaved(saved: unknown) {
+  localStorage.setItem(CALIBRATION_CONFIG.STORAGE_KEY, JSON.stringify(saved));
+  vi.resetModules();
+  return import('@/lib/mediapipe/profile-storage');
+}
+
+// Calibrated before pinches were measured in hand sizes
+const VERSION_1_PROFILE = {
+  name: 'Desk',
+  pinchContactDistance: 0.04,
+  pinchReleaseDistance: 0.08,
+  extensionCurledRatio: 1.1,
+  extensionExtendedRatio: 1.4,
+  rollMin: -0.6,
+  rollMax: 0.5,
+};
+
+describe('saved gesture profiles', () => {
+  afterEach(() => localStorage.clear());
+
+  it('keeps a profile from before the measurement changed, on default thresholds', async () => {
+    const { getActiveProfile, getStoredProfiles } = await loadWithSaved({
+      profiles: [VERSION_1_PROFILE],
+      activeName: 'Desk',
+    });
+
+    expect(getActiveProfile()).toEqual({
+      ...DEFAULT_GESTURE_PROFILE,
+      name: 'Desk',
+      rollMin: -0.6,
+      rollMax: 0.5,
+    });
+    expect(getStoredProfiles().outdated).toEqual(['Desk']);
+  });
+
+  it('leaves profiles that already have the new thresholds alone', async () => {
+    const current = { ...DEFAULT_GESTURE_PROFILE, name: 'Sofa', pinchContactRatio: 0.25 };
+    const { getStoredProfiles } = await loadWithSaved({ profiles: [current], activeName: null });
+
+    expect(getStoredProfiles().profiles).toEqual([current]);
+    expect(getStoredProfiles().outdated).toEqual([]);
+  });
+
+  it('stops asking for calibration once the profile is calibrated again', async () => {
+    const { getStoredProfiles, saveProfile } = await loadWithSaved({
+      profiles: [VERSION_1_PROFILE],
+      activeName: 'Desk',
+    });
+    saveProfile({ ...DEFAULT_GESTURE_PROFILE, name: 'Desk', pinchContactRatio: 0.2 });
+
+    const { getStoredProfiles: reloaded } = await loadWithSaved(
+      JSON.parse(localStorage.getItem(CALIBRATION_CONFIG.STORAGE_KEY)!)
+    );
+    expect(getStoredProfiles().outdated).toEqual([]);
+    expect(reloaded().profiles[0].pinchContactRatio).toBe(0.2);
+    expect(reloaded().version).toBe(CALIBRATION_CONFIG.PROFILE_VERSION);
+  });
+});
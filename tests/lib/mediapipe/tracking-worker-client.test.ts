@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GESTURE_PROFILE } from '@/constants';
+import { createTrackingWorker } from '@/lib/mediapipe';
+import type { TrackingWorkerResponse } from '@/lib/mediapipe';
+
+const SETTINGS = { profile: DEFAULT_GESTURE_PROFILE, calibrating: false, recording: false };
+
+class FakeWorker {
+  static last: FakeWorker;
+  posted: { message: { type: string }; transfer: unknown[] }[] = [];
+  terminated = false;
+  onmessage: ((event: { data: TrackingWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  constructor() {
+    FakeWorker.last = this;
+  }
+
+  postMessage(message: { type: string }, transfer: unknown[] = []) {
+    this.posted.push({ message, transfer });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(data: TrackingWorkerResponse) {
+    this.onmessage?.({ data });
+  }
+}
+
+function emptyResult(timestampMs: number): TrackingWorkerResponse {
+  return {
+    type: 'result',
+    timestampMs,
+    inferenceMs: null,
+    frames: [],
+    updated: [],
+    motions: [],
+    changed: false,
+  };
+}
+
+describe('createTrackingWorker', () => {
+  const video = document.createElement('video');
+  let onMessage: ReturnType<typeof vi.fn<(message: TrackingWorkerResponse) => void>>;
+
+  beforeEach(() => {
+    onMessage = vi.fn();
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ close: vi.fn() })));
+    HTMLCanvasElement.prototype.transferControlToOffscreen = vi.fn(() => ({}) as OffscreenCanvas);
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('hands the canvas to the worker on creation', () => {
+    createTrackingWorker(document.createElement('canvas'), onMessage);
+    const [init] = FakeWorker.last.posted;
+    expect(init.message.type).toBe('init');
+    expect(init.transfer).toHaveLength(1);
+  });
+
+  it('keeps at most one frame in flight', async () => {
+    const client = createTrackingWorker(document.createElement('canvas'), onMessage);
+
+    expect(await client.sendFrame(video, 0, SETTINGS)).toBe(true);
+    expect(await client.sendFrame(video, 16, SETTINGS)).toBe(false);
+
+    FakeWorker.last.respond(emptyResult(0));
+    expect(await client.sendFrame(video, 32, SETTINGS)).toBe(true);
+
+    const frames = FakeWorker.last.posted.filter(({ message }) => message.type === 'frame');
+    expect(frames).toHaveLength(2);
+    expect(frames[0].transfer).toHaveLength(1);
+  });
+
+  it('frees the slot when the worker crashes', async () => {
+    const client = createTrackingWorker(document.createElement('canvas'), onMessage);
+
+    await client.sendFrame(video, 0, SETTINGS);
+    expect(await client.sendFrame(video, 16, SETTINGS)).toBe(false);
+    FakeWorker.last.onerror?.({ message: 'crashed' });
+    expect(await client.sendFrame(video, 32, SETTINGS)).toBe(true);
+  });
+
+  it('frees the slot again when capturing a frame fails', async () => {
+    const client = createTrackingWorker(document.createElement('canvas'), onMessage);
+    vi.mocked(createImageBitmap).mockRejectedValueOnce(new Error('not ready'));
+
+    await expect(client.sendFrame(video, 0, SETTINGS)).rejects.toThrow('not ready');
+    expect(await client.sendFrame(video, 16, SETTINGS)).toBe(true);
+  });
+
+  it('forwards worker messages and reports crashes as errors', () => {
+    createTrackingWorker(document.createElement('canvas'), onMessage);
+    FakeWorker.last.respond({ type: 'ready', delegate: 'GPU' });
+    FakeWorker.last.onerror?.({ message: '' });
+
+    expect(onMessage).toHaveBeenNthCalledWith(1, { type: 'ready', delegate: 'GPU' });
+    expect(onMessage).toHaveBeenNthCalledWith(2, {
+      type: 'error',
+      message: 'Hand tracking worker crashed',
+    });
+  });
+
+  it('downscales frames when asked to', async () => {
+    const client = createTrackingWorker(document.createElement('canvas'), onMessage);
+    Object.defineProperties(video, { videoWidth: { value: 640 }, videoHeight: { value: 480 } });
+
+    await client.sendFrame(video, 0, SETTINGS, 0.5);
+
+    expect(createImageBitmap).toHaveBeenCalledWith(
+      video,
+      expect.objectContaining({ resizeWidth: 320, resizeHeight: 240 })
+    );
+  });
+
+  it('asks the worker to switch delegates', () => {
+    createTrackingWorker(document.createElement('canvas'), onMessage).setDelegate('CPU');
+    expect(FakeWorker.last.posted.at(-1)?.message).toEqual({ type: 'delegate', delegate: 'CPU' });
+  });
+
+  it('terminates the worker', () => {
+    createTrackingWorker(document.createElement('canvas'), onMessage).terminate();
+    expect(FakeWorker.last.terminated).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_EROSION_SETTINGS, EROSION_CONFIG, WIND_CONFIG } from '@/constants';
+import { erosionStep, getErosionSettings, updateErosionSettings, windStrength } from '@/lib/three';
+
+describe('windStrength', () => {
+  const samples = Array.from({ length: 600 }, (_, second) => windStrength(second));
+
+  it('never drops below the breeze or rises past full strength', () => {
+    expect(Math.min(...samples)).toBeCloseTo(WIND_CONFIG.BASE_STRENGTH);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(1);
+  });
+
+  it('gusts past the threshold now and then', () => {
+    const gusty = samples.filter((strength) => strength >= WIND_CONFIG.GUST_THRESHOLD);
+    expect(gusty.length).toBeGreaterThan(0);
+    expect(gusty.length).toBeLessThan(samples.length / 2);
+  });
+});
+
+describe('erosionStep', () => {
+  it('erodes faster in the wind', () => {
+    const still = erosionStep(0, 1);
+    const windy = erosionStep(1, 1);
+    expect(still.diffusion).toBeCloseTo(EROSION_CONFIG.DIFFUSION_RATE);
+    expect(windy.diffusion).toBeGreaterThan(still.diffusion);
+    expect(windy.settle).toBeGreaterThan(still.settle);
+  });
+
+  it('takes as much away in one long step as in several short ones', () => {
+    const short = erosionStep(0.5, 1);
+    const long = erosionStep(0.5, 3);
+    expect(1 - long.diffusion).toBeCloseTo((1 - short.diffusion) ** 3);
+    expect(1 - long.settle).toBeCloseTo((1 - short.settle) ** 3);
+  });
+
+  it('never flattens the sand in one step after a long gap', () => {
+    const { settle } = erosionStep(WIND_CONFIG.BASE_STRENGTH, 400);
+    expect(settle).toBeLessThan(1);
+    expect(settle).toBeCloseTo(1 - Math.exp(-1), 1);
+  });
+});
+
+describe('erosion settings', () => {
+  afterEach(() => updateErosionSettings(DEFAULT_EROSION_SETTINGS));
+
+  it('is off until turned on', () => {
+    expect(getErosionSettings().enabled).toBe(false);
+    updateErosionSettings({ enabled: true });
+    expect(getErosionSettings().enabled).toBe(true);
+  });
+});
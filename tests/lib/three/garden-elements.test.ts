@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { GARDEN_ELEMENTS } from '@/constants';
+import {
+  createGardenElement,
+  createStones,
+  cycleGardenElement,
+  gardenElementLabel,
+  stoneBounds,
+} from '@/lib/three';
+
+describe('createGardenElement', () => {
+  it.each(GARDEN_ELEMENTS.map(({ id }) => id))('builds a draggable %s', (id) => {
+    const element = createGardenElement(id);
+    const { radius, restHeight } = stoneBounds(element);
+
+    expect(element.userData).toMatchObject({ isDraggable: true, elementId: id });
+    expect(radius).toBeGreaterThan(0);
+    expect(restHeight).toBeGreaterThanOrEqual(0);
+  });
+
+  it('sizes the stones small to large', () => {
+    // Grown from one seed, so only the size differs
+    const [small, medium, large] = (['small-stone', 'medium-stone', 'large-stone'] as const).map(
+      (id) => stoneBounds(createGardenElement(id, 7)).radius
+    );
+    expect(small).toBeLessThan(medium);
+    expect(medium).toBeLessThan(large);
+  });
+
+  it('bounds every part of an element made of several', () => {
+    const fence = createGardenElement('fence');
+    const box = new THREE.Box3().setFromObject(fence);
+    const { radius } = stoneBounds(fence);
+
+    expect(radius).toBeGreaterThanOrEqual(Math.max(box.max.x, -box.min.x) - 1e-6);
+  });
+});
+
+describe('gardenElementLabel', () => {
+  it('names added elements from the palette and starting stones as stones', () => {
+    expect(gardenElementLabel(createGardenElement('lantern'))).toBe('Lantern');
+    expect(gardenElementLabel(createStones()[0])).toBe('Stone');
+  });
+});
+
+describe('cycleGardenElement', () => {
+  it('steps through the palette, wrapping at either end', () => {
+    const first = GARDEN_ELEMENTS[0].id;
+    const last = GARDEN_ELEMENTS[GARDEN_ELEMENTS.length - 1].id;
+
+    expect(cycleGardenElement(first, 1)).toBe(GARDEN_ELEMENTS[1].id);
+    expect(cycleGardenElement(last, 1)).toBe(first);
+    expect(cycleGardenElement(first, -1)).toBe(last);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_RAKE_TOOL_SETTINGS, RAKE_TOOL_CONFIG, RAKE_TOOLS } from '@/constants';
+import {
+  cycleRakeTool,
+  getRakeTool,
+  getRakeToolSettings,
+  rakeTwist,
+  selectNextRakeTool,
+  updateRakeToolSettings,
+} from '@/lib/three';
+
+describe('rake tools', () => {
+  afterEach(() => updateRakeToolSettings(DEFAULT_RAKE_TOOL_SETTINGS));
+
+  it('looks tools up by id', () => {
+    expect(getRakeTool('stylus').tines).toBe(1);
+    expect(getRakeTool('rake-3').tines).toBe(3);
+  });
+
+  it('cycles through the tools in both directions, wrapping around', () => {
+    const first = RAKE_TOOLS[0].id;
+    const last = RAKE_TOOLS[RAKE_TOOLS.length - 1].id;
+    expect(cycleRakeTool(first, 1)).toBe(RAKE_TOOLS[1].id);
+    expect(cycleRakeTool(last, 1)).toBe(first);
+    expect(cycleRakeTool(first, -1)).toBe(last);
+  });
+
+  it('only twists the rake when twisting is turned on', () => {
+    expect(rakeTwist(1, { ...DEFAULT_RAKE_TOOL_SETTINGS, twistWithRoll: false })).toBe(0);
+    expect(rakeTwist(-0.5, { ...DEFAULT_RAKE_TOOL_SETTINGS, twistWithRoll: true })).toBeCloseTo(
+      -RAKE_TOOL_CONFIG.MAX_TWIST / 2
+    );
+  });
+
+  it('saves the selected tool', () => {
+    selectNextRakeTool(1);
+    const expected = cycleRakeTool(DEFAULT_RAKE_TOOL_SETTINGS.toolId, 1);
+    expect(getRakeToolSettings().toolId).toBe(expected);
+    expect(JSON.parse(localStorage.getItem(RAKE_TOOL_CONFIG.STORAGE_KEY)!).toolId).toBe(expected);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getNormalizedDeviceCoords } from '@/lib/three';
+
+describe('getNormalizedDeviceCoords', () => {
+  it.each([
+    [0.5, 0.5, 0, 0],
+    [0, 0, -1, 1],
+    [1, 1, 1, -1],
+    [0, 1, -1, -1],
+    [1, 0, 1, 1],
+    [0.75, 0.25, 0.5, 0.5],
+  ])('maps hand position (%s, %s) to NDC (%s, %s)', (x, y, ndcX, ndcY) => {
+    const ndc = getNormalizedDeviceCoords(x, y);
+    expect(ndc.x).toBeCloseTo(ndcX);
+    expect(ndc.y).toBeCloseTo(ndcY);
+  });
+
+  it('does not clamp positions outside the frame', () => {
+    const ndc = getNormalizedDeviceCoords(1.5, -0.5);
+    expect(ndc.x).toBeCloseTo(2);
+    expect(ndc.y).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { SAND_CONFIG } from '@/constants';
+import { createSandHeightmap, encodeHeights, encodeNormals, getRakeTool } from '@/lib/three';
+
+const RADIUS = 4;
+const RESOLUTION = 256;
+const CELL = (RADIUS * 2) / RESOLUTION;
+const WIDE_RAKE = getRakeTool('rake-5');
+const {
+  tineSpacing: TINE_SPACING,
+  tines: TINES,
+  grooveDepth: GROOVE_DEPTH,
+  grooveWidth: GROOVE_WIDTH,
+  ridgeHeight: RIDGE_HEIGHT,
+} = WIDE_RAKE;
+
+/** Rakes along +x through z = 0 until the profile has settled */
+function rakedHeightmap(passes = 20, tool = WIDE_RAKE, twist = 0) {
+  const heightmap = createSandHeightmap(RESOLUTION, RADIUS);
+  for (let i = 0; i < passes; i++) heightmap.rake({ x: -1, z: 0 }, { x: 1, z: 0 }, tool, twist);
+  return heightmap;
+}
+
+describe('createSandHeightmap', () => {
+  it('starts flat', () => {
+    const heightmap = createSandHeightmap(RESOLUTION, RADIUS);
+    expect(heightmap.heights.every((height) => height === 0)).toBe(true);
+  });
+
+  it('carves a groove under each tine and a ridge between them', () => {
+    const heightmap = rakedHeightmap();
+    const tineZ = (tine: number) => (tine - (TINES - 1) / 2) * TINE_SPACING;
+
+    // Texels rarely sit exactly under a tine, so allow for the profile's slope
+    for (let tine = 0; tine < TINES; tine++) {
+      expect(heightmap.heightAt(0, tineZ(tine))).toBeLessThan(-GROOVE_DEPTH / 2);
+    }
+    expect(heightmap.heightAt(0, tineZ(0) + TINE_SPACING / 2)).toBeGreaterThan(RIDGE_HEIGHT / 2);
+  });
+
+  it('only touches the sand the rake passes over', () => {
+    const heightmap = rakedHeightmap(1);
+    const halfWidth = ((TINES - 1) * TINE_SPACING) / 2 + GROOVE_WIDTH;
+    expect(heightmap.heightAt(0, halfWidth + 0.1)).toBe(0);
+    expect(heightmap.heightAt(1.2, 0)).toBe(0);
+    expect(heightmap.heightAt(-1.2, 0)).toBe(0);
+  });
+
+  it('moves the sand part of the way on each pass', () => {
+    const once = rakedHeightmap(1).heightAt(0, 0);
+    const twice = rakedHeightmap(2).heightAt(0, 0);
+    expect(once).toBeLessThan(0);
+    expect(twice).toBeLessThan(once);
+    expect(twice).toBeGreaterThan(-GROOVE_DEPTH);
+  });
+
+  it('leaves the rim flat', () => {
+    const heightmap = createSandHeightmap(RESOLUTION, RADIUS);
+    heightmap.rake({ x: RADIUS - 1, z: 0 }, { x: RADIUS, z: 0 }, WIDE_RAKE);
+    const inner = heightmap.heightAt(RADIUS - 0.5, 0);
+    expect(inner).toBeLessThan(0);
+    expect(Math.abs(heightmap.heightAt(RADIUS, 0))).toBeLessThan(Math.abs(inner) / 5);
+  });
+
+  it('reports the texels it changed', () => {
+    const heightmap = createSandHeightmap(RESOLUTION, RADIUS);
+    const rect = heightmap.rake({ x: -1, z: 0 }, { x: 1, z: 0 }, WIDE_RAKE)!;
+    const toTexel = (coordinate: number) => (coordinate + RADIUS) / CELL;
+
+    expect(rect.minX).toBeLessThanOrEqual(toTexel(-1));
+    expect(rect.maxX).toBeGreaterThanOrEqual(toTexel(1) - 1);
+    expect(rect.maxY - rect.minY).toBeLessThan(RESOLUTION / 4);
+  });
+
+  it('ignores a rake that has not moved', () => {
+    const heightmap = createSandHeightmap(RESOLUTION, RADIUS);
+    expect(heightmap.rake({ x: 0, z: 0 }, { x: 0, z: 0 }, WIDE_RAKE)).toBeNull();
+  });
+
+  it('draws a single groove with the stylus', () => {
+    const heightmap = rakedHeightmap(20, getRakeTool('stylus'));
+    expect(heightmap.heightAt(0, 0)).toBeLessThan(0);
+    expect(heightmap.heightAt(0, TINE_SPACING)).toBe(0);
+  });
+
+  it('draws the grooves of a twisted rake closer together', () => {
+    const square = rakedHeightmap();
+    const twisted = rakedHeightmap(20, WIDE_RAKE, Math.PI / 3);
+    const outerTine = (TINES - 1) / 2 * TINE_SPACING;
+
+    expect(square.heightAt(0, outerTine)).toBeLessThan(-GROOVE_DEPTH / 2);
+    expect(twisted.heightAt(0, outerTine / 2)).toBeLessThan(-GROOVE_DEPTH / 2);
+    expect(twisted.heightAt(0, outerTine)).toBeGreaterThan(-GROOVE_DEPTH / 2);
+  });
+
+  it("presses a stamp's rings around its centre", () => {
+    const heightmap = createSandHeightmap(RESOLUTION, RADIUS);
+    const ripple = getRakeTool('stamp-ripple');
+    for (let i = 0; i < 20; i++) heightmap.stamp({ x: 1, z: 1 }, ripple);
+
+    for (let ring = 1; ring <= ripple.tines; ring++) {
+      expect(heightmap.heightAt(1 + ring * ripple.tineSpacing, 1)).toBeLessThan(-ripple.grooveDepth / 2);
+      expect(heightmap.heightAt(1, 1 - ring * ripple.tineSpacing)).toBeLessThan(-ripple.grooveDepth / 2);
+    }
+    expect(heightmap.heightAt(1 + ripple.tineSpacing * 1.5, 1)).toBeGreaterThan(0);
+    expect(heightmap.heightAt(1 + (ripple.tines + 1) * ripple.tineSpacing + 0.05, 1)).toBe(0);
+  });
+
+  it('smooths the sand flat under the palm and leaves the rest', () => {
+    const heightmap = rakedHeightmap();
+    const smoother = getRakeTool('smoother');
+    heightmap.rake({ x: -0.5, z: 0 }, { x: 0, z: 0 }, smoother);
+
+    expect(heightmap.heightAt(-0.25, 0)).toBeCloseTo(0);
+    expect(heightmap.heightAt(0.75, 0)).toBeLessThan(-GROOVE_DEPTH / 2);
+  });
+
+  it('smooths under a palm that has not moved', () => {
+    const heightmap = rakedHeightmap();
+    expect(heightmap.rake({ x: 0, z: 0 }, { x: 0, z: 0 }, getRakeTool('smoother'))).not.toBeNull();
+    expect(heightmap.heightAt(0, 0)).toBeCloseTo(0);
+  });
+
+  it('erodes ridges and grooves towards flat', () => {
+    const heightmap = rakedHeightmap();
+    const groove = heightmap.heightAt(0, 0);
+    heightmap.erode(0.5, 0.01);
+
+    expect(heightmap.heightAt(0, 0)).toBeLessThan(0);
+    expect(heightmap.heightAt(0, 0)).toBeGreaterThan(groove);
+  });
+
+  it('reports no change once erosion has flattened the sand', () => {
+    const heightmap = rakedHeightmap(1);
+    expect(heightmap.erode(0.5, 0.5)).not.toBeNull();
+    for (let i = 0; i < 50; i++) heightmap.erode(0.5, 0.5);
+
+    expect(heightmap.heights.every((height) => height === 0)).toBe(true);
+    expect(heightmap.erode(0.5, 0.5)).toBeNull();
+  });
+
+  it('clears back to flat', () => {
+    const heightmap = rakedHeightmap();
+    heightmap.clear();
+    expect(heightmap.heightAt(0, 0)).toBe(0);
+  });
+});
+
+describe('encodeHeights', () => {
+  it('maps the height range onto 0..255', () => {
+    const heightmap = createSandHeightmap(4, 1);
+    heightmap.heights.set([SAND_CONFIG.MIN_HEIGHT, 0, SAND_CONFIG.MAX_HEIGHT, 1]);
+    const out = new Uint8Array(4 * 4 * 4);
+
+    encodeHeights(heightmap, { minX: 0, minY: 0, maxX: 3, maxY: 0 }, out);
+
+    expect([out[0], out[4], out[8], out[12]]).toEqual([0, 128, 255, 255]);
+  });
+});
+
+describe('encodeNormals', () => {
+  const full = { minX: 0, minY: 0, maxX: RESOLUTION - 1, maxY: RESOLUTION - 1 };
+
+  it('points flat sand straight up', () => {
+    const out = new Uint8Array(RESOLUTION * RESOLUTION * 4);
+    encodeNormals(createSandHeightmap(RESOLUTION, RADIUS), full, CELL, out);
+    expect([...out.slice(0, 4)]).toEqual([128, 128, 255, 255]);
+  });
+
+  it('tilts normals away from rising sand', () => {
+    const heightmap = createSandHeightmap(RESOLUTION, RADIUS);
+    // Rising towards +x
+    for (let row = 0; row < RESOLUTION; row++) {
+      for (let column = 0; column < RESOLUTION; column++) {
+        heightmap.heights[row * RESOLUTION + column] = column * 0.001;
+      }
+    }
+    const out = new Uint8Array(RESOLUTION * RESOLUTION * 4);
+    encodeNormals(heightmap, full, CELL, out);
+
+    const i = (128 * RESOLUTION + 128) * 4;
+    expect(out[i]).toBeLessThan(128);
+    expect(out[i + 1]).toBe(128);
+  });
+});
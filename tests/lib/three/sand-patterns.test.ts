@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { SAND_PATTERN_CONFIG } from '@/constants';
+import { generateSandPattern, getRakeTool } from '@/lib/three';
+import type { SandStroke, StoneFootprint } from '@/types';
+
+const RADIUS = 4;
+const STONE: StoneFootprint = { x: 1, z: -1, radius: 0.5 };
+const tool = getRakeTool(SAND_PATTERN_CONFIG.TOOL);
+const SWATH = tool.tines * tool.tineSpacing;
+const FIRST_RIPPLE = STONE.radius + SAND_PATTERN_CONFIG.RIPPLE_GAP + SWATH / 2;
+const OUTER_RIPPLE = FIRST_RIPPLE + (SAND_PATTERN_CONFIG.RIPPLE_RINGS - 1) * SWATH;
+
+const distanceTo = (stone: StoneFootprint) => (point: { x: number; z: number }) =>
+  Math.hypot(point.x - stone.x, point.z - stone.z);
+
+function pointsOf(strokes: SandStroke[]) {
+  return strokes.flatMap((stroke) => stroke.points);
+}
+
+describe('generateSandPattern', () => {
+  it('rings each stone with concentric ripples', () => {
+    const strokes = generateSandPattern('ripples', [STONE], RADIUS);
+    expect(strokes).toHaveLength(SAND_PATTERN_CONFIG.RIPPLE_RINGS);
+
+    strokes.forEach((stroke, ring) => {
+      for (const point of stroke.points) {
+        expect(distanceTo(STONE)(point)).toBeCloseTo(FIRST_RIPPLE + ring * SWATH);
+      }
+    });
+  });
+
+  it("splits neighbouring stones' ripples where they meet", () => {
+    const left: StoneFootprint = { x: -1, z: 0, radius: 0.5 };
+    const right: StoneFootprint = { x: 1, z: 0, radius: 0.3 };
+    const edgeDistance = (point: { x: number; z: number }, stone: StoneFootprint) =>
+      distanceTo(stone)(point) - stone.radius;
+
+    for (const stroke of generateSandPattern('ripples', [left, right], RADIUS)) {
+      const [first] = stroke.points;
+      const owner = [left, right].find((stone) =>
+        stroke.points.every((point) => Math.abs(distanceTo(stone)(point) - distanceTo(stone)(first)) < 1e-6)
+      )!;
+      const other = owner === left ? right : left;
+      for (const point of stroke.points) {
+        expect(edgeDistance(point, owner)).toBeLessThanOrEqual(edgeDistance(point, other));
+      }
+    }
+  });
+
+  it('fills the sand with parallel lines one rake width apart', () => {
+    const strokes = generateSandPattern('lines', [], RADIUS);
+    const rows = [...new Set(strokes.map((stroke) => stroke.points[0].z.toFixed(3)))].map(Number);
+
+    expect(rows[0]).toBeLessThan(-RADIUS + SWATH);
+    expect(rows[rows.length - 1]).toBeGreaterThan(RADIUS - SWATH);
+    rows.slice(1).forEach((row, i) => expect(row - rows[i]).toBeCloseTo(SWATH));
+    for (const stroke of strokes) {
+      expect(stroke.points.every((point) => point.z === stroke.points[0].z)).toBe(true);
+    }
+  });
+
+  it('breaks the background off around the ripples', () => {
+    for (const pattern of ['lines', 'waves', 'spiral'] as const) {
+      const strokes = generateSandPattern(pattern, [STONE], RADIUS);
+      const background = strokes.slice(0, -SAND_PATTERN_CONFIG.RIPPLE_RINGS);
+      const nearest = Math.min(...pointsOf(background).map(distanceTo(STONE)));
+      expect(nearest).toBeGreaterThanOrEqual(OUTER_RIPPLE + SWATH / 2);
+    }
+  });
+
+  it('keeps every stroke on the sand', () => {
+    const nearRim: StoneFootprint = { x: 3.5, z: 0, radius: 0.3 };
+    for (const pattern of ['lines', 'waves', 'spiral', 'ripples'] as const) {
+      const points = pointsOf(generateSandPattern(pattern, [nearRim], RADIUS));
+      expect(points.every((point) => Math.hypot(point.x, point.z) < RADIUS)).toBe(true);
+    }
+  });
+
+  it('bends waves up and down across the garden', () => {
+    const [row] = generateSandPattern('waves', [], RADIUS).filter((stroke) => stroke.points.length > 20);
+    const zs = row.points.map((point) => point.z);
+    expect(Math.max(...zs) - Math.min(...zs)).toBeCloseTo(SAND_PATTERN_CONFIG.WAVE_AMPLITUDE * 2, 1);
+  });
+
+  it('winds a spiral outwards from the centre', () => {
+    const [path] = generateSandPattern('spiral', [], RADIUS);
+    const radii = path.points.map((point) => Math.hypot(point.x, point.z));
+    expect(radii[0]).toBe(0);
+    expect(radii.every((r, i) => i === 0 || r >= radii[i - 1])).toBe(true);
+    expect(radii[radii.length - 1]).toBeGreaterThan(RADIUS - SWATH);
+  });
+
+  it('rakes every stroke with the pattern tool and no twist', () => {
+    const strokes = generateSandPattern('lines', [STONE], RADIUS);
+    expect(strokes.every((stroke) => stroke.toolId === tool.id)).toBe(true);
+    expect(pointsOf(strokes).every((point) => point.twist === 0)).toBe(true);
+  });
+});
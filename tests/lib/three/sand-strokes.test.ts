@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createStrokeSampler } from '@/lib/three';
+
+describe('createStrokeSampler', () => {
+  it('starts with the start point', () => {
+    const sampler = createStrokeSampler(1);
+    expect(sampler.start({ x: 2, z: 3 })).toEqual({ x: 2, z: 3 });
+  });
+
+  it('places samples at even spacing along a long move', () => {
+    const sampler = createStrokeSampler(1);
+    sampler.start({ x: 0, z: 0 });
+    const samples = sampler.moveTo({ x: 3.5, z: 0 });
+    expect(samples.map(({ x }) => x)).toEqual([1, 2, 3]);
+  });
+
+  it('carries distance over between short moves', () => {
+    const sampler = createStrokeSampler(1);
+    sampler.start({ x: 0, z: 0 });
+    expect(sampler.moveTo({ x: 0.4, z: 0 })).toEqual([]);
+    expect(sampler.moveTo({ x: 0.8, z: 0 })).toEqual([]);
+    const [sample] = sampler.moveTo({ x: 1.2, z: 0 });
+    expect(sample.x).toBeCloseTo(1);
+  });
+
+  it('measures distance along the path, not straight back to the last sample', () => {
+    const sampler = createStrokeSampler(1);
+    sampler.start({ x: 0, z: 0 });
+    sampler.moveTo({ x: 0.5, z: 0 });
+    const [sample] = sampler.moveTo({ x: 0.5, z: 2 });
+    expect(sample.x).toBeCloseTo(0.5);
+    expect(sample.z).toBeCloseTo(0.5);
+  });
+
+  it('finishes at the end of the path when it lies past the last sample', () => {
+    const sampler = createStrokeSampler(1);
+    sampler.start({ x: 0, z: 0 });
+    sampler.moveTo({ x: 1.5, z: 0 });
+    expect(sampler.finish()).toEqual({ x: 1.5, z: 0 });
+  });
+
+  it('finishes without a point when the path ends on a sample', () => {
+    const sampler = createStrokeSampler(1);
+    sampler.start({ x: 0, z: 0 });
+    sampler.moveTo({ x: 2, z: 0 });
+    expect(sampler.finish()).toBeNull();
+  });
+
+  it('ignores moves before a path is started', () => {
+    const sampler = createStrokeSampler(1);
+    expect(sampler.moveTo({ x: 5, z: 0 })).toEqual([]);
+    expect(sampler.finish()).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { createSandSurface, getRakeTool } from '@/lib/three';
+import type { SandSurface } from '@/types';
+
+const STYLUS = getRakeTool('stylus');
+
+/** Rakes a stylus line along +x at `z` and returns the finished stroke */
+function rakeLine(sand: SandSurface, z: number) {
+  for (let x = -1; x <= 1; x += 0.1) sand.rakeTo({ x, z }, STYLUS);
+  sand.liftRake();
+  const strokes = sand.getStrokes();
+  return strokes[strokes.length - 1];
+}
+
+/** A surface with one stroke, worn down by a few erosion steps */
+function weatheredSand() {
+  const sand = createSandSurface();
+  const stroke = rakeLine(sand, 0);
+  const crisp = sand.heightAt(0, 0);
+  for (let i = 0; i < 4; i++) sand.erode(0.5, 0.2);
+  return { sand, stroke, crisp, weathered: sand.heightAt(0, 0) };
+}
+
+describe('createSandSurface erosion', () => {
+  it('wears a groove shallower', () => {
+    const { crisp, weathered } = weatheredSand();
+    expect(crisp).toBeLessThan(0);
+    expect(weathered).toBeGreaterThan(crisp);
+  });
+
+  it('keeps the weathering when a later stroke is undone', () => {
+    const { sand, stroke, weathered } = weatheredSand();
+    rakeLine(sand, 1);
+    sand.setStrokes([stroke]);
+
+    expect(sand.heightAt(0, 0)).toBeCloseTo(weathered, 6);
+    expect(sand.heightAt(0, 1)).toBe(0);
+  });
+
+  it('leaves strokes raked after the wind crisp', () => {
+    const { sand, crisp } = weatheredSand();
+    const later = rakeLine(sand, 1);
+    sand.setStrokes([...sand.getStrokes()].filter((stroke) => stroke !== later));
+    sand.setStrokes([...sand.getStrokes(), later]);
+
+    expect(sand.heightAt(0, 1)).toBeCloseTo(crisp, 6);
+  });
+
+  it('brings an undone stroke back weathered on redo', () => {
+    const { sand, stroke, crisp } = weatheredSand();
+    sand.setStrokes([]);
+    expect(sand.heightAt(0, 0)).toBe(0);
+
+    sand.setStrokes([stroke]);
+    expect(sand.heightAt(0, 0)).toBeGreaterThan(crisp);
+  });
+
+  it('keeps the weathering when the pattern is raked again', () => {
+    const { sand, crisp } = weatheredSand();
+    sand.setPattern([]);
+    expect(sand.heightAt(0, 0)).toBeGreaterThan(crisp);
+  });
+
+  it('puts the weathering back with the strokes after a clear', () => {
+    const { sand, crisp } = weatheredSand();
+    const strokes = [...sand.getStrokes()];
+    const weathering = sand.getWeathering();
+    sand.clear();
+    expect(sand.getWeathering().diffusion).toBe(0);
+
+    sand.setStrokes(strokes, weathering);
+    expect(sand.heightAt(0, 0)).toBeGreaterThan(crisp);
+  });
+});
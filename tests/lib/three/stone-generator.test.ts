@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { STONE_GENERATOR_CONFIG } from '@/constants';
+import { createStone, createStoneGeometry, createStoneMaterial, stoneStyle } from '@/lib/three';
+import type { StoneArchetype } from '@/types';
+
+const SEEDS = Array.from({ length: 40 }, (_, i) => i + 1);
+
+/** The first seed that grows into this archetype */
+function seedFor(archetype: StoneArchetype): number {
+  return SEEDS.find((seed) => stoneStyle(seed).archetype === archetype)!;
+}
+
+function sizeOf(geometry: THREE.BufferGeometry): THREE.Vector3 {
+  geometry.computeBoundingBox();
+  return geometry.boundingBox!.getSize(new THREE.Vector3());
+}
+
+describe('createStoneGeometry', () => {
+  it('grows the same stone from the same seed', () => {
+    const a = createStoneGeometry(42);
+    const b = createStoneGeometry(42);
+    expect(b.getAttribute('position').array).toEqual(a.getAttribute('position').array);
+    expect(b.getAttribute('color').array).toEqual(a.getAttribute('color').array);
+  });
+
+  it('grows a different stone from another seed', () => {
+    const a = createStoneGeometry(42).getAttribute('position').array;
+    const b = createStoneGeometry(43).getAttribute('position').array;
+    expect(b).not.toEqual(a);
+  });
+
+  it('uses every archetype and rock', () => {
+    const styles = SEEDS.map(stoneStyle);
+    for (const archetype of Object.keys(STONE_GENERATOR_CONFIG.ARCHETYPES)) {
+      expect(styles.some((style) => style.archetype === archetype)).toBe(true);
+    }
+    for (const material of Object.keys(STONE_GENERATOR_CONFIG.MATERIALS)) {
+      expect(styles.some((style) => style.material === material)).toBe(true);
+    }
+  });
+
+  it('stands tall stones up and lays flat ones down', () => {
+    const tall = sizeOf(createStoneGeometry(seedFor('tall')));
+    expect(tall.y).toBeGreaterThan(Math.max(tall.x, tall.z));
+
+    const flat = sizeOf(createStoneGeometry(seedFor('flat')));
+    expect(flat.y).toBeLessThan(Math.min(flat.x, flat.z));
+  });
+
+  it('wears a flat base for the stone to sit on', () => {
+    const geometry = createStoneGeometry(7);
+    const position = geometry.getAttribute('position');
+    geometry.computeBoundingBox();
+    const lowest = geometry.boundingBox!.min.y;
+    let onBase = 0;
+    for (let i = 0; i < position.count; i++) {
+      if (position.getY(i) - lowest < 1e-6) onBase++;
+    }
+    expect(onBase).toBeGreaterThan(3);
+  });
+
+  it('paints every vertex', () => {
+    const geometry = createStoneGeometry(7);
+    const colors = geometry.getAttribute('color');
+    expect(colors.count).toBe(geometry.getAttribute('position').count);
+    expect(Math.min(...colors.array)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...colors.array)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('createStoneMaterial', () => {
+  it('takes its colour from the vertices and its finish from the rock', () => {
+    const material = createStoneMaterial(7);
+    const { ROUGHNESS } = STONE_GENERATOR_CONFIG.MATERIALS[stoneStyle(7).material];
+    expect(material.vertexColors).toBe(true);
+    expect(material.roughness).toBe(ROUGHNESS);
+  });
+});
+
+describe('createStone', () => {
+  it('keeps its seed, so the same stone can be grown again', () => {
+    const stone = createStone();
+    const { seed } = stone.userData;
+    const again = createStone(1, seed);
+
+    expect(typeof seed).toBe('number');
+    expect(again.geometry.getAttribute('position').array).toEqual(
+      stone.geometry.getAttribute('position').array
+    );
+  });
+});
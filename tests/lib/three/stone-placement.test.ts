@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PLACEMENT_CONFIG, SOIL_CONFIG } from '@/constants';
+import { createStones, resolvePlacement, separateStones, stoneBounds } from '@/lib/three';
+import type { StoneFootprint } from '@/types';
+
+const LIMIT = SOIL_CONFIG.RADIUS - PLACEMENT_CONFIG.RIM_MARGIN;
+const TRUNK: StoneFootprint = { x: 0, z: 0, radius: 0.3 };
+
+describe('stoneBounds', () => {
+  it('grows with the stone', () => {
+    const [stone] = createStones();
+    const small = stoneBounds(stone);
+    stone.scale.multiplyScalar(2);
+    const large = stoneBounds(stone);
+
+    expect(large.radius).toBeCloseTo(small.radius * 2);
+    expect(large.restHeight).toBeCloseTo(small.restHeight * 2);
+  });
+
+  it('measures a stone again only once it is turned or scaled', () => {
+    const [stone] = createStones();
+    const first = stoneBounds(stone);
+    const measure = vi.spyOn(stone.geometry, 'getAttribute');
+    stone.position.set(1, 2, 3);
+    expect(stoneBounds(stone)).toBe(first);
+    expect(measure).not.toHaveBeenCalled();
+
+    stone.rotateX(0.5);
+    expect(stoneBounds(stone)).not.toBe(first);
+    expect(measure).toHaveBeenCalledTimes(1);
+  });
+
+  it('places the lowest point of the stone on the sand', () => {
+    for (const stone of createStones()) {
+      stone.geometry.computeBoundingBox();
+      const box = stone.geometry.boundingBox!;
+      expect(stoneBounds(stone).restHeight).toBeCloseTo(-box.min.y * stone.scale.y);
+    }
+  });
+});
+
+describe('resolvePlacement', () => {
+  it('leaves a stone with room where it is', () => {
+    expect(resolvePlacement({ x: 1, z: 1 }, 0.5, [TRUNK])).toEqual({ x: 1, z: 1 });
+  });
+
+  it('keeps the whole stone inside the soil rim', () => {
+    const placed = resolvePlacement({ x: 10, z: 0 }, 0.5, []);
+    expect(placed.x).toBeCloseTo(LIMIT - 0.5);
+    expect(placed.z).toBe(0);
+  });
+
+  it('pushes a stone out of an obstacle until they just touch', () => {
+    const placed = resolvePlacement({ x: 0.2, z: 0 }, 0.5, [TRUNK]);
+    expect(placed.x).toBeCloseTo(0.8);
+    expect(placed.z).toBeCloseTo(0);
+  });
+
+  it('slides a stone round an obstacle rather than stopping it dead', () => {
+    const placed = resolvePlacement({ x: 0.1, z: 0.5 }, 0.5, [TRUNK]);
+    expect(Math.hypot(placed.x, placed.z)).toBeCloseTo(0.8);
+    expect(placed.z).toBeGreaterThan(placed.x);
+  });
+});
+
+describe('separateStones', () => {
+  it('pushes overlapping stones apart by half the overlap each', () => {
+    const [a, b] = separateStones(
+      [
+        { x: 1, z: 2, radius: 0.5 },
+        { x: 1.6, z: 2, radius: 0.5 },
+      ],
+      []
+    );
+    expect(a.x).toBeCloseTo(0.8);
+    expect(b.x).toBeCloseTo(1.8);
+  });
+
+  it('leaves stones that only touch where they are', () => {
+    const stones = [
+      { x: 1, z: 2, radius: 0.5 },
+      { x: 2, z: 2, radius: 0.5 },
+    ];
+    expect(separateStones(stones, [])).toEqual([
+      { x: 1, z: 2 },
+      { x: 2, z: 2 },
+    ]);
+  });
+
+  it('moves stones off the fixed obstacles', () => {
+    const [stone] = separateStones([{ x: 0, z: 0.4, radius: 0.5 }], [TRUNK]);
+    expect(Math.hypot(stone.x, stone.z)).toBeCloseTo(0.8);
+  });
+});
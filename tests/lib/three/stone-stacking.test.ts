@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { createStones, findSupport, findTopple, stoneBounds } from '@/lib/three';
+
+function placedStones() {
+  const group = new THREE.Group();
+  const stones = createStones();
+  group.add(...stones);
+  group.updateMatrixWorld(true);
+  return { group, stones };
+}
+
+describe('findSupport', () => {
+  it('rests a stone on the sand when nothing is under it', () => {
+    const { stones } = placedStones();
+    const [stone, ...others] = stones;
+    expect(findSupport(stone, others)).toEqual({ stone: null, height: stoneBounds(stone).restHeight });
+  });
+
+  it('rests a stone on top of the stone under its centre', () => {
+    const { group, stones } = placedStones();
+    const [base, , stone] = stones;
+    stone.position.set(base.position.x, 3, base.position.z);
+    group.updateMatrixWorld(true);
+
+    const support = findSupport(stone, [base]);
+    const { restHeight } = stoneBounds(stone);
+    // Somewhere on the base's upper half, depending on its lumps
+    const top = new THREE.Box3().setFromObject(base).max.y;
+    expect(support.stone).toBe(base);
+    expect(support.height).toBeGreaterThan(base.position.y + restHeight);
+    expect(support.height).toBeLessThanOrEqual(top + restHeight + 1e-6);
+  });
+
+  it('casts down through a turned garden', () => {
+    const { group, stones } = placedStones();
+    const [base, , stone] = stones;
+    group.rotation.y = Math.PI / 3;
+    stone.position.set(base.position.x, 3, base.position.z);
+    group.updateMatrixWorld(true);
+
+    expect(findSupport(stone, [base]).stone).toBe(base);
+  });
+});
+
+describe('findTopple', () => {
+  const BASE = { x: 0, z: 0, radius: 1 };
+
+  it('lets a centred stack stand', () => {
+    expect(findTopple([{ x: 0.1, z: 0, radius: 0.5 }, BASE])).toBeNull();
+  });
+
+  it('topples a stone resting too far off-centre', () => {
+    const topple = findTopple([{ x: 0, z: -0.8, radius: 0.5 }, BASE]);
+    expect(topple?.level).toBe(1);
+    expect(topple?.direction.x).toBeCloseTo(0);
+    expect(topple?.direction.z).toBeCloseTo(-1);
+    // Slides until it just clears the base
+    expect(topple?.distance).toBeCloseTo(0.7);
+  });
+
+  it('weighs everything above a stone, so a heavy top can tip a stack', () => {
+    const middle = { x: 0.4, z: 0, radius: 0.5 };
+    expect(findTopple([middle, BASE])).toBeNull();
+
+    const heavy = { x: 0.7, z: 0, radius: 1 };
+    expect(findTopple([heavy, middle, BASE])).toMatchObject({ level: 2 });
+  });
+});
@@ -1,22 +1,225 @@
 import * as THREE from 'three';
 
+/**
+ * Recognized hand poses
+ * - pinch: Thumb+index touching
+ * - fist:  Fingers folded
+ * - peace: Index+middle extended
+ */
+export type GestureName = 'pinch' | 'fist' | 'peace';
+
+/**
+ * Lifecycle of a gesture: 'start' and 'end' are emitted for exactly one frame
+ */
+export type GesturePhase = 'idle' | 'start' | 'hold' | 'end';
+
+/**
+ * Stable, debounced state of a single gesture
+ */
+export interface GestureState {
+  active: boolean;     // True from 'start' through 'hold'
+  phase: GesturePhase;
+  confidence: number;  // 0..1 (Raw per-frame confidence)
+}
+
+export type GestureStates = Record<GestureName, GestureState>;
+
+/**
+ * Per-frame gesture confidences measured from landmarks
+ */
+export type GestureConfidences = Record<GestureName, number>;
+
+/**
+ * Raw, un-thresholded hand measurements used for detection and calibration
+ */
+export interface HandPoseMeasurement {
+  pinchDistance: number;                // Thumb tip to index tip, in hand sizes (wrist to middle MCP)
+  fingerRatios: [number, number, number, number]; // Tip/PIP 3D wrist distance ratio: index, middle, ring, pinky
+  rollAngle: number;                    // Knuckle line angle (radians)
+}
+
+/**
+ * Personal gesture thresholds, derived by calibration
+ */
+export interface GestureProfile {
+  name: string;
+  pinchContactRatio: number; // In hand sizes
+  pinchReleaseRatio: number;
+  extensionCurledRatio: number;
+  extensionExtendedRatio: number;
+  rollMin: number; // Knuckle angle mapped to roll +1 (radians)
+  rollMax: number; // Knuckle angle mapped to roll -1 (radians)
+}
+
+/**
+ * Poses the calibration wizard asks the user to perform, in order
+ */
+export type CalibrationPose = 'open' | 'pinch' | 'fist' | 'peace';
+
+/**
+ * Which of the user's hands a frame belongs to
+ */
+export type Handedness = 'left' | 'right';
+
 /**
  * Hand tracking frame data from MediaPipe
  */
 export interface HandFrame {
+  handedness: Handedness;
   x: number;      // 0..1 (Screen X, 0=Left)
   y: number;      // 0..1 (Screen Y, 0=Top)
   roll: number;   // -1..1 (Hand tilt)
-  pinch: boolean; // Thumb+index touching
-  fist: boolean;  // Fingers folded
-  peace: boolean; // Index+middle extended
+  depth?: number; // -1..1 (Nearer the camera is positive); absent when the input can't tell
+  gestures: GestureStates;
+}
+
+/**
+ * Dynamic gestures recognized from hand motion over time
+ */
+export type MotionGestureName =
+  | 'swipe-left'
+  | 'swipe-right'
+  | 'swipe-up'
+  | 'swipe-down'
+  | 'circle-cw'
+  | 'circle-ccw'
+  | 'shake-horizontal'
+  | 'shake-vertical'
+  | 'dwell';
+
+/**
+ * One-shot actions triggered by motion gestures
+ * - Garden actions are performed by PocketGarden
+ * - 'confirm' accepts the pending menu choice in the UI
+ */
+export type GardenAction =
+  | 'clear-sand'
+  | 'rotate-left'
+  | 'rotate-right'
+  | 'next-rake-tool'
+  | 'previous-rake-tool'
+  | 'undo'
+  | 'redo'
+  | 'add-element'
+  | 'next-element'
+  | 'previous-element';
+export type GestureAction = GardenAction | 'confirm';
+
+/**
+ * Continuous interactions driven by a held pose
+ */
+export type PoseAction = 'rotate' | 'levitate' | 'rake' | 'smooth' | 'time' | 'brake';
+
+/**
+ * A pose that can be bound to an action; 'open' means no pose is held
+ */
+export type BindableGesture = GestureName | 'open';
+
+export type ScreenRegion = 'anywhere' | 'top' | 'bottom' | 'left' | 'right';
+
+export interface PoseBinding {
+  gesture: BindableGesture;
+  region: ScreenRegion; // Where the hand must be for the binding to apply
+}
+
+/**
+ * Serializable gesture-to-action table
+ */
+export interface GestureBindings {
+  poses: Record<PoseAction, PoseBinding>;
+  // null unbinds a motion that is bound by default; missing ones keep their default
+  motions: Partial<Record<MotionGestureName, GestureAction | null>>;
+}
+
+export type ActionStates = Record<PoseAction, boolean>;
+
+/**
+ * A hand frame with its bound actions resolved
+ */
+export interface ResolvedHand {
+  frame: HandFrame;
+  actions: ActionStates;
+}
+
+/**
+ * One place the MediaPipe WASM runtime and hand model can be loaded from
+ */
+export interface MediaPipeAssetSource {
+  name: string;
+  wasmPath: string;     // Directory holding the vision_wasm_* files
+  modelUrl: string;     // hand_landmarker.task
+  manifestUrl?: string; // Version manifest written by copy_mediapipe_assets.mjs
+}
+
+/**
+ * Hand tracking start-up progress, for the loading overlay
+ */
+export type HandTrackingStatus =
+  | { stage: 'loading'; source: string; step: 'version' | 'model' | 'runtime'; progress: number | null }
+  | { stage: 'camera' }
+  | { stage: 'camera-lost' } // Unplugged; waiting for it to come back
+  | { stage: 'ready' };
+
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+/**
+ * The remembered camera choice; a null device means the browser's default
+ */
+export interface CameraSettings {
+  deviceId: string | null;
+  resolution: CameraResolution;
+  frameRate: number;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export type CameraErrorKind = 'permission-denied' | 'no-camera' | 'busy' | 'unknown';
+
+export type TrackingDelegate = 'GPU' | 'CPU';
+
+/**
+ * What the performance governor currently asks of hand tracking
+ */
+export interface TrackingPerformanceSettings {
+  delegate: TrackingDelegate;
+  tier: number;                // Index into TRACKING_PERFORMANCE_TIERS; 0 is full quality
+  detectionIntervalMs: number; // Minimum time between detections
+  inputScale: number;          // Video frames are downscaled by this before detection
+}
+
+/**
+ * Smoothed hand tracking timings, for the diagnostics panel
+ */
+export interface TrackingPerformanceStats {
+  inferenceMs: number;   // detectForVideo latency
+  frameMs: number;       // Frame capture to result on the main thread
+  detectionRate: number; // Detections per second
+}
+
+/**
+ * Sources of hand frames; all produce the same HandFrame stream
+ */
+export type InputProviderId = 'hand' | 'mouse' | 'touch' | 'keyboard' | 'replay';
+
+/**
+ * Where input providers deliver their output
+ */
+export interface InputSink {
+  onHandFrames: (frames: HandFrame[]) => void;
+  onGardenAction: (action: GardenAction) => void;
 }
 
 /**
  * PocketGarden component API
  */
 export interface PocketGardenHandle {
-  updateHandFrame: (frame: HandFrame) => void;
+  updateHandFrames: (frames: HandFrame[]) => void; // One frame per visible hand
+  performAction: (action: GardenAction) => void;
+  applySandPattern: (pattern: SandPatternId) => void;
+  addGardenElement: (element: GardenElementId) => void;
 }
 
 /**
@@ -35,6 +238,18 @@ export interface StoneConfig {
   x: number;
   z: number;
   s: number; // scale
+  seed: number; // Grows the same stone every time
+}
+
+/** Overall build of a generated stone */
+export type StoneArchetype = 'tall' | 'flat' | 'arching' | 'reclining';
+
+export type StoneMaterialKind = 'granite' | 'slate';
+
+/** What a stone's seed makes of it, before the noise and weathering */
+export interface StoneStyle {
+  archetype: StoneArchetype;
+  material: StoneMaterialKind;
 }
 
 /**
@@ -55,16 +270,208 @@ export interface Landmark {
   z?: number;
 }
 
+/**
+ * Landmark smoothing filter and its tunable parameters
+ */
+export type LandmarkFilterSettings =
+  | { kind: 'none' }
+  | {
+      kind: 'one-euro';
+      minCutoff: number;       // Hz - lower = smoother when the hand is still
+      beta: number;            // Speed coefficient - higher = less lag on fast motion
+      derivativeCutoff: number; // Hz - smoothing of the speed estimate
+    }
+  | {
+      kind: 'kalman';
+      processNoise: number;     // Acceleration variance - higher = follows changes faster
+      measurementNoise: number; // Landmark jitter variance - higher = smoother
+    };
+
+export type LandmarkFilterKind = LandmarkFilterSettings['kind'];
+
+/** A tunable number of any filter */
+export type LandmarkFilterParameter = {
+  [K in LandmarkFilterKind]: Exclude<keyof Extract<LandmarkFilterSettings, { kind: K }>, 'kind'>;
+}[LandmarkFilterKind];
+
+/**
+ * A point on the sand in garden (gardenGroup) space
+ */
+export interface SandPoint {
+  x: number;
+  z: number;
+}
+
+export type RakeToolId =
+  | 'stylus'
+  | 'rake-3'
+  | 'rake-5'
+  | 'stamp-circle'
+  | 'stamp-ripple'
+  | 'smoother';
+
+/**
+ * A rake draws parallel grooves along the stroke; a stamp presses
+ * concentric rings (one per tine) where the stroke starts; a smoother
+ * flattens the sand within half its groove width of the stroke
+ */
+export interface RakeTool {
+  id: RakeToolId;
+  label: string;
+  kind: 'rake' | 'stamp' | 'smooth';
+  tines: number;
+  tineSpacing: number;  // Between tines, or between rings
+  grooveDepth: number;
+  grooveWidth: number;
+  ridgeHeight: number;  // Sand pushed up beside each groove
+}
+
+export interface RakeToolSettings {
+  toolId: RakeToolId;
+  twistWithRoll: boolean; // Hand roll turns the rake away from square to the stroke
+}
+
+/**
+ * Things that can be added to the garden from the palette
+ */
+export type GardenElementId =
+  | 'small-stone'
+  | 'medium-stone'
+  | 'large-stone'
+  | 'lantern'
+  | 'moss'
+  | 'bridge'
+  | 'fence'
+  | 'basin';
+
+export interface GardenElement {
+  id: GardenElementId;
+  label: string;
+}
+
+export interface ElementPaletteSettings {
+  elementId: GardenElementId; // Added by the add-element gesture
+}
+
+export interface ErosionSettings {
+  enabled: boolean; // Old marks soften over time, faster in the wind
+}
+
+export interface StrokePoint extends SandPoint {
+  twist: number; // Radians the rake is turned from square to the stroke
+}
+
+/**
+ * One rake stroke, from putting the rake down to lifting it, resampled to
+ * evenly spaced points
+ */
+export interface SandStroke {
+  toolId: RakeToolId;
+  points: StrokePoint[];
+}
+
+export type SandPatternId = 'lines' | 'waves' | 'spiral' | 'ripples';
+
+/**
+ * Where a stone rests on the sand, for raking patterns around it
+ */
+export interface StoneFootprint extends SandPoint {
+  radius: number;
+}
+
+/**
+ * The raked sand; points are in garden (gardenGroup) space
+ */
+/**
+ * The erosion the sand has been through, kept so that carving the sand
+ * again (after an undo, or around a moved stone) doesn't make it crisp again
+ */
+export interface SandWeathering {
+  diffusion: number; // Total blur, in passes of a full neighbour average
+  settle: number; // Share of every height lost to settling (0..1)
+  strokes: readonly SandStroke[]; // The finished strokes it wore down
+}
+
+export interface SandSurface {
+  mesh: THREE.Mesh;
+  /**
+   * Carries the current stroke on to `point`, starting one if the rake is
+   * lifted or the tool has changed
+   */
+  rakeTo: (point: SandPoint, tool: RakeTool, twist?: number) => void;
+  /** Ends the current stroke */
+  liftRake: () => void;
+  /** Finished strokes, oldest first, kept until the sand is cleared */
+  getStrokes: () => readonly SandStroke[];
+  /**
+   * Replaces the finished strokes, re-carving the sand from scratch; pass
+   * `weathering` (from getWeathering) to put back the erosion they had too
+   */
+  setStrokes: (strokes: readonly SandStroke[], weathering?: SandWeathering) => void;
+  /** Replaces the generated pattern under the raked strokes */
+  setPattern: (strokes: SandStroke[]) => void;
+  /**
+   * Softens every mark: `diffusion` blurs ridges into grooves and `settle`
+   * sinks everything towards flat (both 0..1, per call)
+   */
+  erode: (diffusion: number, settle: number) => void;
+  getWeathering: () => SandWeathering;
+  heightAt: (x: number, z: number) => number;
+  clear: () => void;
+  dispose: () => void; // Frees the height and normal textures
+}
+
+/**
+ * An edit that has already been made, and how to take it back or make it again
+ */
+export interface GardenCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  /**
+   * Called once the history lets go of the command (it fell off the end, or
+   * was undone and then written over), with the state it was left in, so it
+   * can free anything only it could have brought back
+   */
+  forget?: (state: 'done' | 'undone') => void;
+}
+
+export interface HistoryState {
+  undoLabel: string | null; // Null when there is nothing to undo
+  redoLabel: string | null;
+}
+
+/** Where a stone sits and which way it faces, in garden space */
+export interface StonePose {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+}
+
+/** Puts elements into the garden and takes them out again */
+export interface ElementPlacement {
+  placeElement: (element: THREE.Object3D) => void;
+  removeElement: (element: THREE.Object3D) => void;
+}
+
+/** A stone picked up `from` one pose and put down `to` another */
+export interface StoneMove {
+  stone: THREE.Object3D;
+  from: StonePose;
+  to: StonePose;
+}
+
 /**
  * Scene objects ref - mutable state for hooks
  */
 export interface SceneObjectsRef {
   gardenGroup: THREE.Group | null;
-  stones: THREE.Mesh[];
+  stones: THREE.Object3D[]; // Everything a hand can pick up: stones and added elements
   soil: THREE.Mesh | null;
   dragPlane: THREE.Mesh | null;
-  trailLine: THREE.Line | null;
+  sand: SandSurface | null;
+  bonsai: THREE.Group | null;
   hemiLight: THREE.HemisphereLight | null;
   dirLight: THREE.DirectionalLight | null;
-  handCursor: THREE.Group | null;
+  handCursors: Partial<Record<Handedness, THREE.Group>>;
+  camera: THREE.PerspectiveCamera | null;
 }
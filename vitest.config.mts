@@ -0,0 +1,18 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+import { mediapipeVersion } from "./mediapipe-version.mjs";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "jsdom",
+    include: ["tests/**/*.test.{ts,tsx}"],
+    env: {
+      NEXT_PUBLIC_MEDIAPIPE_VERSION: mediapipeVersion(),
+    },
+  },
+});